@@ -1,43 +1,303 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { PaperContent } from './components/PaperContent';
-import { RobotSimulation } from './components/RobotSimulation';
-import { ErrorChart, ParameterChart } from './components/Charts';
-import { ControlConfig, SimulationState } from './types';
-import { TrajectoryType } from './constants';
-import { Play, Pause, RefreshCw, Box, Activity, Settings } from 'lucide-react';
+import { RobotSimulation, SimulationController } from './components/RobotSimulation';
+import { ErrorChart, ParameterChart, RunSeries, StabilityCharts } from './components/Charts';
+import { activeVariants, applyVariant } from './simulation/comparison';
+import { equationValues } from './simulation/equations';
+import { stabilitySeries, ultimateBound, velocityDisturbance } from './simulation/lyapunov';
+import { formationErrorSeries, formationModeOf } from './simulation/formation';
+import { ParameterSlider } from './components/Controls';
+import { MetricsPanel } from './components/MetricsPanel';
+import { RecordingControls } from './components/RecordingControls';
+import { Timeline } from './components/Timeline';
+import { TrajectoryEditor } from './components/TrajectoryEditor';
+import { DisturbanceEditor } from './components/DisturbanceEditor';
+import { SensorControls } from './components/SensorControls';
+import { AdaptationControls } from './components/AdaptationControls';
+import { IdentificationPanel } from './components/IdentificationPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { FormationEditor } from './components/FormationEditor';
+import { ObstacleEditor, ObstacleTool } from './components/ObstacleEditor';
+import { ExperimentControls } from './components/ExperimentControls';
+import { InitialPoseEditor } from './components/InitialPoseEditor';
+import { RobotProfileEditor } from './components/RobotProfileEditor';
+import { RosBridgePanel } from './components/RosBridgePanel';
+import { ControllerEditor } from './components/ControllerEditor';
+import { DEFAULT_EXPERIMENT, ExperimentConfig, experimentFromURL, toExperiment } from './simulation/experiment';
+import { adaptationStatus } from './simulation/adaptation';
+import { BridgeOptions, BridgeStatus, RosBridge } from './simulation/rosbridge';
+import { PARAMETER_NAMES } from './simulation/controller';
+import { ControllerStatus } from './simulation/live';
+import { RobotFrame } from './simulation/live.worker';
+import { Recording, createRecording, sampleIndexAt, toSimulationSpec } from './simulation/recording';
+import { ControlConfig, HistorySample, KinematicGains, Obstacle, Point, Pose } from './types';
+import { PHYSICS_RATES, SIM_CONSTANTS, TIME_SCALES, TrajectoryType, WORKSPACE_CONSTANTS } from './constants';
+import { Play, Pause, RefreshCw, Box, Activity, Settings, GitCompare, Radar, Users, Shapes, FileCog, Crosshair, Bot, Network, Code2 } from 'lucide-react';
+
+const RUN_MODES: { value: ControlConfig['runMode']; label: string; icon: React.ReactNode }[] = [
+  { value: 'SINGLE', label: 'Single', icon: <Box size={14} /> },
+  { value: 'COMPARE', label: 'Compare', icon: <GitCompare size={14} /> },
+  { value: 'FORMATION', label: 'Formation', icon: <Users size={14} /> },
+];
+
+// Experiment in the page URL, or the default one (with the reason if the link was invalid)
+const linkedExperiment = (): { config: ExperimentConfig; error: string | null } => {
+  try {
+    return { config: experimentFromURL(new URL(window.location.href))?.config ?? DEFAULT_EXPERIMENT, error: null };
+  } catch (e) {
+    return { config: DEFAULT_EXPERIMENT, error: `Shared link: ${(e as Error).message}` };
+  }
+};
 
 const App: React.FC = () => {
+  // A shared link opens its experiment instead of the defaults
+  const [linked] = useState(linkedExperiment);
   const [config, setConfig] = useState<ControlConfig>({
-    isAdaptive: false,
-    hasLoad: false,
-    trajectory: TrajectoryType.CIRCLE,
+    ...linked.config,
     isPlaying: true,
+    timeScale: 1,
   });
 
-  const [history, setHistory] = useState<SimulationState['history']>([]);
+  const simRef = useRef<SimulationController>(null);
+
+  // Custom control code, and the names of the values it charts
+  const [controllerStatus, setControllerStatus] = useState<ControllerStatus | null>(null);
+  const [parameterNames, setParameterNames] = useState<string[]>(PARAMETER_NAMES);
+
+  // Recent samples per run (one run, one per compared controller, or one per formation robot)
+  const [histories, setHistories] = useState<Record<string, HistorySample[]>>({});
+  const variants = activeVariants(config);
+  const runs: RunSeries[] = variants.map(v => ({ id: v.id, label: v.label, color: v.color, data: histories[v.id] ?? [] }));
+
+  // Every sample since the last reset, for metrics over the whole run or any window
+  const recordingRef = useRef<Record<string, HistorySample[]>>({});
+  const recordedRuns: RunSeries[] = runs.map(run => ({ ...run, data: recordingRef.current[run.id] ?? [] }));
+
+  // A loaded recording, or the current run while scrubbing back through it
+  // (`live`), replaces the live runs on the canvas, charts and metrics.
+  // `playing` replays it forward at the selected time scale.
+  const [playback, setPlayback] = useState<{ recording: Recording; time: number; live: boolean; playing: boolean } | null>(null);
+  const playbackRuns = playback?.recording.runs.map(({ variant, samples }) => ({
+    id: variant.id, label: variant.label, color: variant.color, data: samples,
+  }));
+  const playbackDuration = playback ? Math.max(...playback.recording.runs.map(r => r.samples[r.samples.length - 1]?.time ?? 0)) : 0;
+  const chartRuns = playback && playbackRuns
+    ? playbackRuns.map(run => {
+        const i = sampleIndexAt(run.data, playback.time);
+        return { ...run, data: run.data.slice(Math.max(0, i - 199), i + 1) };
+      })
+    : runs;
+  const chartEvents = playback ? playback.recording.spec.events : config.events;
+
+  // Formation error of a multi-robot run, live or recorded: over the chart
+  // window for the chart, and over the whole run for the metrics
+  const formationMode = formationModeOf(playback ? playback.recording.runs.map(r => r.variant) : variants);
+  const controlOffset = (playback ? playback.recording.spec : config).kinematic.a;
+  const formationOf = (series: RunSeries[]) =>
+    formationMode ? formationErrorSeries(series.map(run => run.data), controlOffset, formationMode) : undefined;
+
+  // Health of the charted estimates (the adaptive run comes first when comparing);
+  // a custom controller charts values of its own instead
+  const latest = chartRuns[0].data[chartRuns[0].data.length - 1];
+  const chartsEstimates = !!playback || !controllerStatus?.custom;
+  const status = latest && chartsEstimates
+    ? adaptationStatus(
+        [latest.theta1, latest.theta2, latest.theta3, latest.theta4, latest.theta5, latest.theta6],
+        playback ? playback.recording.spec.adaptation : config.adaptation,
+      )
+    : 'OK';
+
+  // Lyapunov analysis of the first charted run over the chart window, under its own spec
+  const stabilitySpec = playback
+    ? applyVariant(playback.recording.spec, playback.recording.runs[0].variant)
+    : applyVariant(toSimulationSpec(config), variants[0]);
+  const stability = stabilitySeries(chartRuns[0].data.slice(-100), stabilitySpec);
+  const velocityDelta = velocityDisturbance(stability, stabilitySpec.kinematic.a);
+
+  const liveRecording = () => createRecording(
+    toSimulationSpec(config),
+    variants.map(variant => ({ variant, samples: recordingRef.current[variant.id] ?? [] })),
+  );
+  const getRecording = () => playback?.recording ?? liveRecording();
+
+  const liveSamples = recordingRef.current[variants[0].id] ?? [];
+  const liveDuration = liveSamples[liveSamples.length - 1]?.time ?? 0;
+  const timelineDuration = playback ? playbackDuration : liveDuration;
+  const timelineTime = playback ? playback.time : liveDuration;
+
+  // Leaving a scrub of the current run also resumes it
+  const goLive = () => {
+    if (playback?.live) setConfig(p => ({ ...p, isPlaying: true }));
+    setPlayback(null);
+  };
+
+  // Scrubbing the current run pauses it and freezes what has been recorded so far
+  const seek = (time: number) => {
+    if (!playback && liveSamples.length === 0) return;
+    simRef.current?.pause();
+    setConfig(p => ({ ...p, isPlaying: false }));
+    setPlayback(p => (p ? { ...p, time } : { recording: liveRecording(), time, live: true, playing: false }));
+  };
+
+  // Stepping forward at the end of the current run advances the simulation by one sample
+  const stepFrame = (frames: number) => {
+    if (!playback && frames > 0) {
+        setConfig(p => ({ ...p, isPlaying: false }));
+        simRef.current?.step(Math.round(config.physicsRate * SIM_CONSTANTS.SAMPLE_PERIOD));
+        return;
+    }
+    const samples = playback ? playback.recording.runs[0].samples : liveSamples;
+    if (samples.length === 0) return;
+    const i = Math.min(Math.max(sampleIndexAt(samples, timelineTime) + frames, 0), samples.length - 1);
+    seek(samples[i].time);
+    setPlayback(p => p && { ...p, playing: false });
+  };
+
+  // Replay: advance the playback time with the wall clock
+  useEffect(() => {
+    if (!playback?.playing) return;
+    let last = performance.now();
+    let id = requestAnimationFrame(function tick(now) {
+        const elapsed = Math.min((now - last) / 1000, SIM_CONSTANTS.MAX_FRAME_TIME) * config.timeScale;
+        last = now;
+        setPlayback(p => p && { ...p, time: Math.min(p.time + elapsed, playbackDuration) });
+        id = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(id);
+  }, [playback?.playing, config.timeScale, playbackDuration]);
+
+  // A replay of the current run that catches up with its end hands back to the live simulation
+  useEffect(() => {
+    if (!playback?.playing || playback.time < playbackDuration) return;
+    if (playback.live) {
+        setPlayback(null);
+        setConfig(p => ({ ...p, isPlaying: true }));
+    } else {
+        setPlayback({ ...playback, playing: false });
+    }
+  }, [playback, playbackDuration]);
+
+  const handleUpdate = (samples: Record<string, HistorySample[]>) => {
+    Object.entries(samples).forEach(([runId, data]) => (recordingRef.current[runId] ??= []).push(...data));
+    setHistories(prev => {
+        const next = { ...prev };
+        Object.entries(samples).forEach(([runId, data]) => {
+            next[runId] = [...(prev[runId] ?? []), ...data].slice(-200); // Keep memory low
+        });
+        return next;
+    });
+  };
+
+  const setGain = (key: keyof KinematicGains) => (value: number) =>
+    setConfig(p => ({ ...p, kinematic: { ...p.kinematic, [key]: value } }));
+
+  // Obstacle being placed by clicking: the shape, and the points clicked so far
+  const [drawing, setDrawing] = useState<{ tool: ObstacleTool; points: Point[] } | null>(null);
+  const addObstacle = (obstacle: Obstacle) => setConfig(c => ({ ...c, obstacles: [...c.obstacles, obstacle] }));
+  const closePolygon = () => {
+    if (!drawing || drawing.points.length < 3) return;
+    addObstacle({ type: 'POLYGON', points: drawing.points });
+    setDrawing({ ...drawing, points: [] });
+  };
+
+  // Clicks on the canvas place obstacles while a shape is selected, and
+  // otherwise waypoints while editing a waypoint trajectory
+  const handleCanvasClick = (p: Point) => {
+    if (drawing) {
+      const { tool, points } = drawing;
+      if (tool === 'CIRCLE') addObstacle({ type: 'CIRCLE', center: p, radius: WORKSPACE_CONSTANTS.OBSTACLE_RADIUS });
+      if (tool === 'WALL' && points.length === 1) {
+        addObstacle({ type: 'WALL', from: points[0], to: p, thickness: WORKSPACE_CONSTANTS.WALL_THICKNESS });
+        setDrawing({ tool, points: [] });
+      } else if (tool !== 'CIRCLE') {
+        setDrawing({ tool, points: [...points, p] });
+      }
+      return;
+    }
+    if (config.trajectory.type !== TrajectoryType.WAYPOINTS) return;
+    const waypoints = [...config.trajectory.waypoints, p];
+    setConfig(c => ({ ...c, trajectory: { type: TrajectoryType.WAYPOINTS, waypoints } }));
+  };
+
+  // The simulation restarted (new trajectory, run mode or formation changed, reset)
+  const handleReset = () => {
+    recordingRef.current = {};
+    setHistories({});
+  };
 
-  const handleUpdate = (data: SimulationState['history'][0]) => {
-    setHistory(prev => {
-        const newHist = [...prev, data];
-        if (newHist.length > 200) newHist.shift(); // Keep memory low
-        return newHist;
+
+  const isPlaying = playback ? playback.playing : config.isPlaying;
+  const togglePlay = () => {
+    if (playback) setPlayback({ ...playback, playing: !playback.playing });
+    else setConfig(p => ({ ...p, isPlaying: !p.isPlaying }));
+  };
+  // An identified θ̂(0) only takes effect from t = 0, so restart with it
+  const useEstimate = (initialEstimate: number[]) => {
+    setConfig(p => ({ ...p, initialEstimate }));
+    simRef.current?.reset();
+  };
+
+  // A new start pose restarts the runs from it
+  const setInitialPose = (initialPose: Pose) => setConfig(p => ({ ...p, initialPose }));
+
+  // Continue the current run from the scrubbed instant, dropping what came after it
+  const resumeHere = () => {
+    if (!playback?.live) return;
+    simRef.current?.seek(playback.time);
+    setPlayback(null);
+    setConfig(p => ({ ...p, isPlaying: true }));
+  };
+
+  // A loaded experiment or preset restarts the run (a fresh trajectory object triggers the reset)
+  const loadExperiment = (experiment: ExperimentConfig) => {
+    setPlayback(null);
+    setConfig(p => ({ ...p, ...experiment, trajectory: { ...experiment.trajectory } }));
+  };
+
+  const resetSim = () => simRef.current?.reset();
+
+  // External controller over rosbridge: it drives the first robot while connected
+  const bridgeRef = useRef<RosBridge | null>(null);
+  const [bridgeStatus, setBridgeStatus] = useState<BridgeStatus | null>(null);
+  const disconnectBridge = () => {
+    bridgeRef.current?.dispose();
+    bridgeRef.current = null;
+    simRef.current?.setExternalCommand(null);
+    setBridgeStatus(null);
+  };
+  const connectBridge = (url: string, options: BridgeOptions) => {
+    bridgeRef.current?.dispose();
+    bridgeRef.current = new RosBridge(url, options, {
+      onStatus: status => {
+        setBridgeStatus(status);
+        // A lost connection gives the robot back to the built-in controllers
+        if (status.state === 'CLOSED') {
+          bridgeRef.current?.dispose();
+          bridgeRef.current = null;
+          simRef.current?.setExternalCommand(null);
+        }
+      },
+      onCommand: command => simRef.current?.setExternalCommand(command),
     });
   };
+  useEffect(() => () => bridgeRef.current?.dispose(), []);
+
+  // The paper's equations show their terms while the built-in controller drives the charted run
+  const builtInInLoop = chartsEstimates && (!!playback || bridgeStatus?.state !== 'CONNECTED');
+  const equations = latest && builtInInLoop ? equationValues(latest, stabilitySpec) : null;
+  const [highlightedParameter, setHighlightedParameter] = useState<number | null>(null);
 
-  const togglePlay = () => setConfig(p => ({ ...p, isPlaying: !p.isPlaying }));
-  const resetSim = () => {
-    setHistory([]);
-    // Toggle trajectory briefly to trigger reset effect in simulation
-    const current = config.trajectory;
-    setConfig(p => ({ ...p, trajectory: current === TrajectoryType.CIRCLE ? TrajectoryType.FIGURE_EIGHT : TrajectoryType.CIRCLE }));
-    setTimeout(() => setConfig(p => ({ ...p, trajectory: current })), 10);
+  const handleFrame = (robots: RobotFrame[]) => {
+    bridgeRef.current?.publish(robots[0]);
+    const names = robots[0].parameterNames;
+    setParameterNames(p => (p.join() === names.join() ? p : names));
   };
 
   return (
     <div className="flex h-screen w-full bg-slate-50 overflow-hidden">
       {/* Left Panel: Research Paper Content */}
       <div className="w-1/3 hidden md:block border-r border-slate-200 bg-white p-6 shadow-[4px_0_24px_rgba(0,0,0,0.02)] z-10">
-         <PaperContent />
+         <PaperContent live={equations} onRunExperiment={loadExperiment} onHighlightParameter={setHighlightedParameter} />
       </div>
 
       {/* Right Panel: Interactive Simulation */}
@@ -48,12 +308,22 @@ const App: React.FC = () => {
                 Interactive Simulation Lab
             </h2>
             <div className="flex gap-2">
+                 <select
+                    value={config.timeScale}
+                    onChange={e => setConfig(p => ({ ...p, timeScale: Number(e.target.value) }))}
+                    title="Simulation speed"
+                    className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+                 >
+                    {TIME_SCALES.map(scale => (
+                        <option key={scale} value={scale}>{scale}×</option>
+                    ))}
+                 </select>
                  <button 
                     onClick={togglePlay}
                     className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
                  >
-                    {config.isPlaying ? <Pause size={16} /> : <Play size={16} />}
-                    {config.isPlaying ? 'Pause' : 'Resume'}
+                    {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                    {isPlaying ? 'Pause' : playback ? 'Replay' : 'Resume'}
                  </button>
                  <button 
                     onClick={resetSim}
@@ -62,6 +332,11 @@ const App: React.FC = () => {
                     <RefreshCw size={16} />
                     Reset
                  </button>
+                 <RecordingControls
+                    getRecording={getRecording}
+                    canExport={playback !== null || liveSamples.length > 0}
+                    onImport={recording => setPlayback({ recording, time: 0, live: false, playing: false })}
+                 />
             </div>
         </header>
 
@@ -69,10 +344,45 @@ const App: React.FC = () => {
             
             {/* Simulation Canvas Area */}
             <div className="col-span-1 lg:col-span-2 space-y-4">
-                <RobotSimulation config={config} onUpdate={handleUpdate} />
+                <RobotSimulation
+                    ref={simRef}
+                    config={config}
+                    playback={playback}
+                    onUpdate={handleUpdate}
+                    onFrame={handleFrame}
+                    onControllerStatus={setControllerStatus}
+                    onReset={handleReset}
+                    onCanvasClick={handleCanvasClick}
+                    onInitialPoseChange={setInitialPose}
+                    draft={drawing?.points}
+                />
+                {playback && !playback.live && (
+                    <div className="flex items-center justify-between text-xs text-slate-600 bg-white rounded-lg border border-blue-200 px-3 py-2">
+                        <span>
+                            <strong className="text-blue-700">Playback</strong> of a recording from {new Date(playback.recording.createdAt).toLocaleString()}
+                            {' '}({playback.recording.runs.map(r => r.variant.label).join(', ')})
+                        </span>
+                        <button
+                            onClick={goLive}
+                            className="px-3 py-1 bg-slate-100 hover:bg-slate-200 rounded font-medium"
+                        >
+                            Back to live
+                        </button>
+                    </div>
+                )}
+                <Timeline
+                    time={timelineTime}
+                    duration={timelineDuration}
+                    step={SIM_CONSTANTS.SAMPLE_PERIOD}
+                    isLive={!playback}
+                    onSeek={seek}
+                    onStep={stepFrame}
+                    onGoLive={playback?.live ? goLive : undefined}
+                    onResumeHere={playback?.live ? resumeHere : undefined}
+                />
                 <div className="flex items-center justify-between text-xs text-slate-400 font-mono px-2">
-                    <span>Model: Unicycle (Pioneer 3-DX)</span>
-                    <span>Algorithm: Lyapunov-based Adaptive Control</span>
+                    <span>Model: Differential drive ({config.plant.profile === 'PIONEER_3DX' ? 'Pioneer 3-DX' : 'custom robot'})</span>
+                    <span>Algorithm: {bridgeStatus?.state === 'CONNECTED' ? 'External (rosbridge /cmd_vel)' : controllerStatus?.custom ? 'Custom controller' : 'Lyapunov-based Adaptive Control'}</span>
                 </div>
             </div>
 
@@ -84,58 +394,204 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="space-y-6">
+                    {/* Presets, shared links and experiment files */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <FileCog size={12} /> Experiment
+                        </label>
+                        <ExperimentControls config={toExperiment(config)} onLoad={loadExperiment} error={linked.error} />
+                    </div>
+
                     {/* Trajectory Selector */}
                     <div>
                         <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Reference Trajectory</label>
-                        <div className="flex p-1 bg-slate-100 rounded-lg">
-                            <button 
-                                onClick={() => setConfig(p => ({...p, trajectory: TrajectoryType.CIRCLE}))}
-                                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${config.trajectory === TrajectoryType.CIRCLE ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
-                            >
-                                Circular (Fig 4)
-                            </button>
-                            <button 
-                                onClick={() => setConfig(p => ({...p, trajectory: TrajectoryType.FIGURE_EIGHT}))}
-                                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${config.trajectory === TrajectoryType.FIGURE_EIGHT ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
-                            >
-                                Figure-8 (Fig 8)
-                            </button>
-                        </div>
+                        <TrajectoryEditor
+                            trajectory={config.trajectory}
+                            onChange={trajectory => setConfig(p => ({...p, trajectory}))}
+                        />
+                    </div>
+
+                    {/* Start pose of the (first) robot */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Crosshair size={12} /> Initial Conditions
+                        </label>
+                        <InitialPoseEditor pose={config.initialPose} onChange={setInitialPose} isPlaying={config.isPlaying} />
+                    </div>
+
+                    {/* Wheels, motors and traction of the simulated robot */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Bot size={12} /> Robot
+                        </label>
+                        <RobotProfileEditor plant={config.plant} onChange={plant => setConfig(p => ({...p, plant}))} />
+                    </div>
+
+                    {/* Disturbance schedule */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Box size={12} /> Disturbances
+                        </label>
+                        <DisturbanceEditor
+                            events={config.events}
+                            onChange={events => setConfig(p => ({...p, events}))}
+                        />
+                    </div>
+
+                    {/* Obstacles and local avoidance */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Shapes size={12} /> Obstacles
+                        </label>
+                        <ObstacleEditor
+                            obstacles={config.obstacles}
+                            onChange={obstacles => setConfig(p => ({...p, obstacles}))}
+                            avoidance={config.avoidance}
+                            onAvoidanceChange={avoidance => setConfig(p => ({...p, avoidance}))}
+                            tool={drawing?.tool ?? null}
+                            draft={drawing?.points.length ?? 0}
+                            onToolChange={tool => setDrawing(tool ? { tool, points: [] } : null)}
+                            onClosePolygon={closePolygon}
+                        />
+                    </div>
+
+                    {/* Sensors and state estimation */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Radar size={12} /> Sensors &amp; Estimation
+                        </label>
+                        <SensorControls
+                            sensors={config.sensors}
+                            onChange={sensors => setConfig(p => ({...p, sensors}))}
+                        />
+                    </div>
+
+                    {/* External controller */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Network size={12} /> ROS Bridge
+                        </label>
+                        <RosBridgePanel status={bridgeStatus} onConnect={connectBridge} onDisconnect={disconnectBridge} />
+                    </div>
+
+                    {/* User-written control law */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                            <Code2 size={12} /> Custom Controller
+                        </label>
+                        <ControllerEditor status={controllerStatus} onApply={code => simRef.current?.setController(code)} />
                     </div>
 
                     {/* Toggles */}
                     <div className="grid grid-cols-2 gap-4">
-                        <div 
-                            onClick={() => setConfig(p => ({...p, hasLoad: !p.hasLoad}))}
-                            className={`cursor-pointer p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 text-center ${config.hasLoad ? 'border-red-500 bg-red-50' : 'border-slate-200 hover:border-slate-300'}`}
-                        >
-                            <Box className={config.hasLoad ? 'text-red-600' : 'text-slate-400'} />
-                            <div>
-                                <div className={`font-bold text-sm ${config.hasLoad ? 'text-red-700' : 'text-slate-600'}`}>Load Transportation</div>
-                                <div className="text-xs text-slate-500 mt-1">Simulates mass change (disturbances)</div>
-                            </div>
-                        </div>
-
                         <div 
                             onClick={() => setConfig(p => ({...p, isAdaptive: !p.isAdaptive}))}
-                            className={`cursor-pointer p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 text-center ${config.isAdaptive ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:border-slate-300'}`}
+                            className={`${config.runMode !== 'SINGLE' ? 'opacity-50' : ''} col-span-2 cursor-pointer p-3 rounded-xl border-2 transition-all flex items-center gap-3 ${config.isAdaptive ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:border-slate-300'}`}
                         >
                             <Activity className={config.isAdaptive ? 'text-emerald-600' : 'text-slate-400'} />
                             <div>
                                 <div className={`font-bold text-sm ${config.isAdaptive ? 'text-emerald-700' : 'text-slate-600'}`}>Adaptive Controller</div>
-                                <div className="text-xs text-slate-500 mt-1">Enables σ-modification updating law</div>
+                                <div className="text-xs text-slate-500 mt-1">Enables the selected parameter update law</div>
+                            </div>
+                        </div>
+
+                        <div className="col-span-2">
+                            <div className="grid grid-cols-3 gap-1 p-1 bg-slate-100 rounded-lg">
+                                {RUN_MODES.map(({ value, label, icon }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setConfig(p => ({...p, runMode: value}))}
+                                        className={`py-2 text-xs font-medium rounded-md transition-all flex items-center justify-center gap-1 ${config.runMode === value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                                    >
+                                        {icon} {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="text-xs text-slate-500 mt-1">
+                                {config.runMode === 'SINGLE' && 'One robot with the controller above'}
+                                {config.runMode === 'COMPARE' && 'Runs adaptive and fixed-parameter controllers side by side on the same run'}
+                                {config.runMode === 'FORMATION' && 'Several robots, each with its own controller and payload'}
                             </div>
                         </div>
                     </div>
+
+                    {config.runMode === 'FORMATION' && (
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Formation</label>
+                            <FormationEditor
+                                formation={config.formation}
+                                onChange={formation => setConfig(p => ({...p, formation}))}
+                            />
+                        </div>
+                    )}
+
+                    {/* Update law */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Adaptation Law</label>
+                        <AdaptationControls
+                            adaptation={config.adaptation}
+                            onChange={adaptation => setConfig(p => ({...p, adaptation}))}
+                        />
+                    </div>
+
+                    {/* Kinematic Controller Gains */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Kinematic Controller (Eq. 4)</label>
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+                            <ParameterSlider label="a" unit="m" value={config.kinematic.a} min={0.05} max={0.5} step={0.01} onChange={setGain('a')} />
+                            <div />
+                            <ParameterSlider label="kx" unit="1/s" value={config.kinematic.kx} min={0.1} max={5} step={0.1} onChange={setGain('kx')} />
+                            <ParameterSlider label="ky" unit="1/s" value={config.kinematic.ky} min={0.1} max={5} step={0.1} onChange={setGain('ky')} />
+                            <ParameterSlider label="lx" unit="m/s" value={config.kinematic.lx} min={0.05} max={1} step={0.05} onChange={setGain('lx')} />
+                            <ParameterSlider label="ly" unit="m/s" value={config.kinematic.ly} min={0.05} max={1} step={0.05} onChange={setGain('ly')} />
+                        </div>
+                    </div>
+
+                    {/* Solver */}
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Solver</label>
+                        <div className="flex gap-2">
+                            <div className="flex flex-1 p-1 bg-slate-100 rounded-lg">
+                                {(['EULER', 'RK4'] as const).map(integrator => (
+                                    <button
+                                        key={integrator}
+                                        onClick={() => setConfig(p => ({...p, integrator}))}
+                                        className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${config.integrator === integrator ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                                    >
+                                        {integrator === 'EULER' ? 'Euler' : 'RK4'}
+                                    </button>
+                                ))}
+                            </div>
+                            <select
+                                value={config.physicsRate}
+                                onChange={e => setConfig(p => ({...p, physicsRate: Number(e.target.value)}))}
+                                className="px-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-medium"
+                            >
+                                {PHYSICS_RATES.map(rate => (
+                                    <option key={rate} value={rate}>{rate} Hz</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
                 </div>
             </div>
 
             {/* Live Data Visualizations */}
             <div className="col-span-1 space-y-4">
-                 <ErrorChart data={history} />
-                 <ParameterChart data={history} />
+                 <MetricsPanel runs={playbackRuns ?? recordedRuns} formation={formationOf(playbackRuns ?? recordedRuns)} />
+                 <ErrorChart runs={chartRuns} events={chartEvents} formation={formationOf(chartRuns)} />
+                 <ParameterChart data={chartRuns[0].data} events={chartEvents} status={status} names={playback ? undefined : parameterNames} highlight={highlightedParameter} />
+                 <StabilityCharts
+                     data={stability}
+                     events={chartEvents}
+                     delta={velocityDelta}
+                     bound={ultimateBound(stabilitySpec.kinematic, velocityDelta)}
+                 />
+                 <IdentificationPanel sim={config} onUseEstimate={useEstimate} />
+
+                 <BatchPanel base={toSimulationSpec(config)} />
                  <div className="text-xs text-slate-400 italic mt-2">
-                    *Charts update in real-time. Enable "Load" then "Adaptive" to see parameter convergence (similar to Fig. 6).
+                    *Charts update in real-time. Schedule a load event then enable "Adaptive" to see the parameters adapt (cf. Fig. 6).
                  </div>
             </div>
 
@@ -0,0 +1,83 @@
+import React from 'react';
+import { ParameterSlider } from './Controls';
+import { AdaptationSpec } from '../types';
+
+interface AdaptationControlsProps {
+  adaptation: AdaptationSpec;
+  onChange: (adaptation: AdaptationSpec) => void;
+}
+
+const LAWS: { value: AdaptationSpec['law']; label: string; description: string }[] = [
+  { value: 'GRADIENT', label: 'Gradient', description: 'θ̂̇ = Γ⁻¹Gᵀṽ, no robustness term: estimates can drift under noise' },
+  { value: 'SIGMA', label: 'σ-mod', description: 'θ̂̇ = Γ⁻¹(Gᵀṽ − σθ̂), the paper\'s law (Eq. 17)' },
+  { value: 'E_MOD', label: 'e-mod', description: 'θ̂̇ = Γ⁻¹(Gᵀṽ − σ‖ṽ‖θ̂), leakage fades as ṽ → 0' },
+  { value: 'PROJECTION', label: 'Projection', description: 'Gradient law with θ̂ kept inside [min, max]' },
+  { value: 'DEAD_ZONE', label: 'Dead-zone', description: 'Gradient law, frozen while ‖ṽ‖ is below the dead zone' },
+];
+
+const inputClass = 'w-full px-1 py-0.5 border border-slate-200 rounded font-mono text-xs';
+
+export const AdaptationControls: React.FC<AdaptationControlsProps> = ({ adaptation, onChange }) => {
+  const set = <K extends keyof AdaptationSpec>(key: K) => (value: AdaptationSpec[K]) => onChange({ ...adaptation, [key]: value });
+
+  // Per-parameter vectors (Γ⁻¹ diagonal, bounds) edited one entry at a time;
+  // a gain may be zero (that parameter is not adapted) but not negative
+  const setEntry = (key: 'gains' | 'min' | 'max', index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value === '' || !Number.isFinite(value) || (key === 'gains' && value < 0)) return;
+    set(key)(adaptation[key].map((v, i) => (i === index ? value : v)));
+  };
+
+  const law = LAWS.find(l => l.value === adaptation.law)!;
+  const rows: { key: 'gains' | 'min' | 'max'; label: string }[] = [
+    { key: 'gains', label: 'Γ⁻¹' },
+    ...(adaptation.law === 'PROJECTION' ? [{ key: 'min' as const, label: 'min' }, { key: 'max' as const, label: 'max' }] : []),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-5 gap-1 p-1 bg-slate-100 rounded-lg">
+        {LAWS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => set('law')(value)}
+            className={`py-1.5 text-xs font-medium rounded-md transition-all ${adaptation.law === value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="text-xs text-slate-400">{law.description}</div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-400">
+            <th />
+            {adaptation.gains.map((_, i) => (
+              <th key={i} className="font-normal font-mono">θ̂{i + 1}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, label }) => (
+            <tr key={key}>
+              <td className="pr-1 text-slate-500 font-mono">{label}</td>
+              {adaptation[key].map((v, i) => (
+                <td key={i} className="px-0.5">
+                  <input type="number" min={key === 'gains' ? 0 : undefined} step={0.001} value={v} onChange={setEntry(key, i)} className={inputClass} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {(adaptation.law === 'SIGMA' || adaptation.law === 'E_MOD') && (
+        <ParameterSlider label="σ" value={adaptation.sigma} min={0} max={0.05} step={0.0005} digits={4} onChange={set('sigma')} />
+      )}
+      {adaptation.law === 'DEAD_ZONE' && (
+        <ParameterSlider label="dead zone" unit="m/s" value={adaptation.deadZone} min={0} max={0.1} step={0.001} digits={3} onChange={set('deadZone')} />
+      )}
+    </div>
+  );
+};
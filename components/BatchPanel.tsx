@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, X } from 'lucide-react';
+import { BATCH_CONSTANTS, DEFAULT_BATCH } from '../constants';
+import { BatchAxis, BatchParameter, BatchSpec, SimulationSpec } from '../types';
+import { BATCH_PARAMETERS, BatchResult, axisValues, boxStats } from '../simulation/batch';
+import { BatchMessage, BatchRequest } from '../simulation/batch.worker';
+import { BoxPlot, Heatmap } from './Charts';
+
+interface BatchPanelProps {
+  base: SimulationSpec; // Experiment every case starts from
+}
+
+type Metric = 'iae' | 'parameterError';
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: 'iae', label: 'IAE [m·s]' },
+  { value: 'parameterError', label: '‖θ̂ − θ‖ at T' },
+];
+
+const inputClass = 'w-14 px-1 py-0.5 border border-slate-200 rounded font-mono';
+
+const buttonClass = 'px-3 py-1 rounded font-medium';
+
+const labelOf = (parameter: BatchParameter) => {
+  const { label, unit } = BATCH_PARAMETERS.find(p => p.value === parameter)!;
+  return unit ? `${label} [${unit}]` : label;
+};
+
+// Number of runs the batch asks for
+const caseCount = (batch: BatchSpec) =>
+  batch.mode === 'SWEEP' ? batch.axes.reduce((n, axis) => n * axis.steps, 1) : batch.runs;
+
+// Numeric Monte Carlo settings, with units
+const MC_FIELDS: { key: 'runs' | 'poseSpread' | 'headingSpread' | 'loadMin' | 'loadMax'; label: string; unit: string; step: number }[] = [
+  { key: 'runs', label: 'N', unit: '', step: 10 },
+  { key: 'poseSpread', label: 'Δp', unit: 'm', step: 0.05 },
+  { key: 'headingSpread', label: 'Δψ', unit: 'rad', step: 0.1 },
+  { key: 'loadMin', label: 'load', unit: '–', step: 1 },
+  { key: 'loadMax', label: '', unit: 'kg', step: 1 },
+];
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ base }) => {
+  const [batch, setBatch] = useState<BatchSpec>(DEFAULT_BATCH);
+  const [metric, setMetric] = useState<Metric>('iae');
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [ran, setRan] = useState<BatchSpec | null>(null); // Batch the results belong to
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const count = caseCount(batch);
+  const tooLarge = count > BATCH_CONSTANTS.MAX_CASES;
+
+  const setNumber = (update: (value: number) => Partial<BatchSpec>) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value !== '' && Number.isFinite(value)) setBatch(b => ({ ...b, ...update(value) }));
+  };
+
+  const setAxis = (index: number, axis: Partial<BatchAxis>) =>
+    setBatch(b => ({ ...b, axes: b.axes.map((a, i) => (i === index ? { ...a, ...axis } : a)) }));
+
+  const setAxisNumber = (index: number, key: 'min' | 'max' | 'steps') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value === '' || !Number.isFinite(value)) return;
+    setAxis(index, { [key]: key === 'steps' ? Math.max(1, Math.min(BATCH_CONSTANTS.MAX_STEPS, Math.round(value))) : value });
+  };
+
+  const run = () => {
+    stop();
+    const worker = new Worker(new URL('../simulation/batch.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setResults([]);
+    setTotal(count);
+    setRan(batch);
+    setError(null);
+    setRunning(true);
+    worker.addEventListener('message', (e: MessageEvent<BatchMessage>) => {
+      const message = e.data;
+      if (message.type === 'START') setTotal(message.total);
+      else if (message.type === 'RESULT') setResults(r => [...r, message.result]);
+      else {
+        if (message.type === 'ERROR') setError(message.message);
+        stop();
+      }
+    });
+    const request: BatchRequest = { batch, base };
+    worker.postMessage(request);
+  };
+
+  const cancel = () => {
+    stop();
+    setTotal(results.length);
+  };
+
+  const value = (r: BatchResult) => (r.diverged ? null : r[metric]);
+
+  const summary = () => {
+    if (!ran || results.length === 0) return null;
+    if (ran.mode === 'MONTE_CARLO') {
+      const kept = results.filter(r => !r.diverged);
+      return (
+        <BoxPlot
+          rows={METRICS.map(m => ({ label: m.label, stats: boxStats(kept.map(r => r[m.value])), values: kept.map(r => r[m.value]) }))}
+        />
+      );
+    }
+    const [xAxis, yAxis] = ran.axes;
+    const columns = axisValues(xAxis);
+    const rows = yAxis ? axisValues(yAxis) : [0];
+    const cells = rows.map(() => columns.map((): number | null => null));
+    const diverged = rows.map(() => columns.map(() => false));
+    results.forEach(r => {
+      const [c, row = 0] = r.cell;
+      cells[row][c] = value(r);
+      diverged[row][c] = r.diverged;
+    });
+    return (
+      <Heatmap
+        columns={columns}
+        rows={rows}
+        cells={cells}
+        diverged={diverged}
+        xLabel={labelOf(xAxis.parameter)}
+        yLabel={yAxis ? labelOf(yAxis.parameter) : undefined}
+      />
+    );
+  };
+
+  const divergedCount = results.filter(r => r.diverged).length;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-100 space-y-3">
+      <h3 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+        <Grid3x3 size={14} />
+        Batch Runs
+      </h3>
+
+      <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg">
+        {(['SWEEP', 'MONTE_CARLO'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => setBatch(b => ({ ...b, mode }))}
+            className={`py-1.5 text-xs font-medium rounded-md transition-all ${batch.mode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            {mode === 'SWEEP' ? 'Parameter sweep' : 'Monte Carlo'}
+          </button>
+        ))}
+      </div>
+
+      {batch.mode === 'SWEEP' ? (
+        <div className="space-y-1 text-xs text-slate-600">
+          {batch.axes.map((axis, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-3 font-mono text-slate-400">{i === 0 ? 'x' : 'y'}</span>
+              <select
+                value={axis.parameter}
+                onChange={e => setAxis(i, { parameter: e.target.value as BatchParameter })}
+                className="px-2 py-1 bg-slate-100 rounded"
+              >
+                {BATCH_PARAMETERS.map(p => (
+                  <option key={p.value} value={p.value}>{p.label}</option>
+                ))}
+              </select>
+              <input type="number" value={axis.min} step={0.1} onChange={setAxisNumber(i, 'min')} className={inputClass} />
+              –
+              <input type="number" value={axis.max} step={0.1} onChange={setAxisNumber(i, 'max')} className={inputClass} />
+              <input
+                type="number"
+                min={1}
+                max={BATCH_CONSTANTS.MAX_STEPS}
+                value={axis.steps}
+                onChange={setAxisNumber(i, 'steps')}
+                className={inputClass}
+              />
+              steps
+              {i === 1 && (
+                <button onClick={() => setBatch(b => ({ ...b, axes: b.axes.slice(0, 1) }))} className="ml-auto p-1 text-slate-400 hover:text-red-600" title="Remove">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+          {batch.axes.length === 1 && (
+            <button
+              onClick={() => setBatch(b => ({ ...b, axes: [...b.axes, { ...DEFAULT_BATCH.axes[1] }] }))}
+              className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded"
+            >
+              Add second axis
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          {MC_FIELDS.map(({ key, label, unit, step }) => (
+            <label key={key} className="flex items-center gap-1">
+              {label && <span className="font-mono">{label}</span>}
+              <input
+                type="number"
+                min={0}
+                step={step}
+                value={batch[key]}
+                onChange={setNumber(v => ({ [key]: key === 'runs' ? Math.max(1, Math.round(v)) : Math.max(0, v) }))}
+                className={inputClass}
+              />
+              {unit}
+            </label>
+          ))}
+          <label className="flex items-center gap-1">
+            <span className="font-mono">seed</span>
+            <input type="number" step={1} value={batch.seed} onChange={setNumber(seed => ({ seed: Math.round(seed) }))} className={inputClass} />
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-xs text-slate-600">
+        <label className="flex items-center gap-1">
+          <span className="font-mono">T</span>
+          <input type="number" min={1} step={5} value={batch.duration} onChange={setNumber(duration => ({ duration: Math.max(1, duration) }))} className={inputClass} />
+          s
+        </label>
+        <span className={tooLarge ? 'text-red-600' : 'text-slate-400'}>
+          {count} runs{tooLarge ? ` (at most ${BATCH_CONSTANTS.MAX_CASES})` : ''}
+        </span>
+        {running ? (
+          <button onClick={cancel} className={`ml-auto ${buttonClass} bg-slate-100 hover:bg-slate-200`}>
+            Cancel
+          </button>
+        ) : (
+          <button onClick={run} disabled={tooLarge} className={`ml-auto ${buttonClass} bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50`}>
+            Run
+          </button>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <div className="flex-1 h-1.5 bg-slate-100 rounded">
+            <div className="h-full bg-blue-500 rounded" style={{ width: `${(100 * results.length) / total}%` }} />
+          </div>
+          <span className="font-mono">{results.length}/{total}</span>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {ran?.mode === 'SWEEP' && results.length > 0 && (
+        <select value={metric} onChange={e => setMetric(e.target.value as Metric)} className="px-2 py-1 bg-slate-100 rounded text-xs text-slate-600">
+          {METRICS.map(m => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      )}
+      {summary()}
+      {divergedCount > 0 && <div className="text-xs text-amber-600">{divergedCount} run(s) diverged and are left out</div>}
+    </div>
+  );
+};
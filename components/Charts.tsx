@@ -7,16 +7,91 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+  ScatterChart,
+  Scatter,
 } from 'recharts';
-import { SimulationState } from '../types';
+import { DisturbanceEvent, HistorySample } from '../types';
+import { describeEvent } from '../simulation/disturbances';
+import { AdaptationStatus } from '../simulation/adaptation';
+import { BoxStats } from '../simulation/batch';
+import { PARAMETER_NAMES } from '../simulation/controller';
+import { StabilitySample } from '../simulation/lyapunov';
 
 interface ChartsProps {
-  data: SimulationState['history'];
+  data: HistorySample[];
+  events?: DisturbanceEvent[];
+  status?: AdaptationStatus; // Flagged next to the title unless OK
 }
 
-export const ErrorChart: React.FC<ChartsProps> = ({ data }) => {
-  // We only show the last 100 points for performance
-  const displayData = data.slice(-100);
+// A run's samples with the color/label it is drawn with
+export interface RunSeries {
+  id: string;
+  label: string;
+  color: string;
+  data: HistorySample[];
+}
+
+const EVENT_COLORS: Record<DisturbanceEvent['type'], string> = {
+  LOAD: '#dc2626', // red-600
+  SKID: '#f59e0b', // amber-500
+  PUSH: '#7c3aed', // violet-600
+  SATURATION: '#0891b2', // cyan-600
+};
+
+// Scheduled disturbances inside the visible time span: skid windows as bands, the rest as lines
+const eventMarkers = (events: DisturbanceEvent[], data: { time: number }[]) => {
+  if (data.length === 0) return [];
+  const from = data[0].time;
+  const to = data[data.length - 1].time;
+  return events.flatMap((e, i) => {
+    const color = EVENT_COLORS[e.type];
+    if (e.type === 'SKID') {
+      if (e.time > to || e.time + e.duration < from) return [];
+      return [
+        <ReferenceArea
+          key={i}
+          x1={Math.max(e.time, from)}
+          x2={Math.min(e.time + e.duration, to)}
+          fill={color}
+          fillOpacity={0.1}
+          ifOverflow="hidden"
+        />,
+      ];
+    }
+    if (e.time < from || e.time > to) return [];
+    return [
+      <ReferenceLine
+        key={i}
+        x={e.time}
+        stroke={color}
+        strokeDasharray="4 2"
+        label={{ value: describeEvent(e), position: 'insideTopLeft', fontSize: 9, fill: color }}
+      />,
+    ];
+  });
+};
+
+interface ErrorChartProps {
+  runs: RunSeries[];
+  events?: DisturbanceEvent[];
+  formation?: { time: number; error: number }[]; // Formation error, drawn dashed over the robots' errors
+}
+
+const FORMATION_KEY = '__formation';
+
+export const ErrorChart: React.FC<ErrorChartProps> = ({ runs, events = [], formation }) => {
+  // We only show the last 100 points for performance.
+  // Runs advance in lockstep, so their samples are aligned on time.
+  const lookups = runs.map(run => new Map(run.data.slice(-100).map(d => [d.time, d.error])));
+  const formationLookup = new Map(formation?.slice(-100).map(d => [d.time, d.error]));
+  const displayData = (runs[0]?.data.slice(-100) ?? []).map(({ time }) => {
+    const row: Record<string, number | undefined> = { time };
+    runs.forEach((run, i) => { row[run.id] = lookups[i].get(time); });
+    if (formation) row[FORMATION_KEY] = formationLookup.get(time);
+    return row;
+  });
 
   return (
     <div className="h-40 w-full bg-white rounded-lg shadow-sm border border-slate-100 p-2">
@@ -24,62 +99,334 @@ export const ErrorChart: React.FC<ChartsProps> = ({ data }) => {
       <ResponsiveContainer width="100%" height="80%">
         <LineChart data={displayData}>
           <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
-          <XAxis dataKey="time" hide />
+          <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide />
           <YAxis domain={[0, 'auto']} tick={{fontSize: 10}} width={30} />
+          {eventMarkers(events, runs[0]?.data.slice(-100) ?? [])}
           <Tooltip 
             contentStyle={{fontSize: '12px', borderRadius: '4px'}}
             itemStyle={{padding: 0}}
             labelStyle={{display: 'none'}}
           />
-          <Line
-            type="monotone"
-            dataKey="error"
-            stroke="#dc2626"
-            strokeWidth={2}
-            dot={false}
-            isAnimationActive={false}
-          />
+          {runs.map(run => (
+            <Line
+              key={run.id}
+              type="monotone"
+              dataKey={run.id}
+              stroke={run.color}
+              strokeWidth={2}
+              dot={false}
+              name={run.label}
+              isAnimationActive={false}
+            />
+          ))}
+          {formation && (
+            <Line
+              type="monotone"
+              dataKey={FORMATION_KEY}
+              stroke="#0f172a"
+              strokeWidth={1.5}
+              strokeDasharray="5 3"
+              dot={false}
+              name="Formation"
+              isAnimationActive={false}
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export const ParameterChart: React.FC<ChartsProps> = ({ data }) => {
+// One trace per estimated dynamic parameter θ̂1 … θ̂6, or per value a custom controller charts
+const PARAMETER_SERIES: { key: keyof HistorySample; color: string }[] = [
+  { key: 'theta1', color: '#2563eb' },
+  { key: 'theta2', color: '#10b981' },
+  { key: 'theta3', color: '#f59e0b' },
+  { key: 'theta4', color: '#8b5cf6' },
+  { key: 'theta5', color: '#ec4899' },
+  { key: 'theta6', color: '#64748b' },
+];
+
+const STATUS_BADGES: Record<Exclude<AdaptationStatus, 'OK'>, { label: string; className: string }> = {
+  AT_BOUND: { label: 'At projection bound', className: 'bg-amber-100 text-amber-700' },
+  DIVERGING: { label: 'Estimates diverging', className: 'bg-red-100 text-red-700' },
+};
+
+interface ParameterChartProps extends ChartsProps {
+  names?: string[]; // Of the charted values, when a custom controller is in the loop
+  highlight?: number | null; // Trace drawn over the others, dimmed
+}
+
+export const ParameterChart: React.FC<ParameterChartProps> = ({ data, events = [], status = 'OK', names = PARAMETER_NAMES, highlight = null }) => {
   const displayData = data.slice(-100);
+  const builtIn = names.join() === PARAMETER_NAMES.join();
 
   return (
     <div className="h-40 w-full bg-white rounded-lg shadow-sm border border-slate-100 p-2">
-      <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Parameter Adaptation (θ)</h3>
+      <h3 className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center justify-between">
+        {builtIn ? 'Parameter Adaptation (θ̂1 … θ̂6)' : 'Controller Parameters'}
+        {status !== 'OK' && (
+          <span className={`px-2 rounded normal-case font-medium ${STATUS_BADGES[status].className}`}>⚠ {STATUS_BADGES[status].label}</span>
+        )}
+      </h3>
       <ResponsiveContainer width="100%" height="80%">
         <LineChart data={displayData}>
           <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
-          <XAxis dataKey="time" hide />
+          <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide />
           <YAxis domain={['auto', 'auto']} tick={{fontSize: 10}} width={30} />
+          {eventMarkers(events, displayData)}
           <Tooltip 
              contentStyle={{fontSize: '12px', borderRadius: '4px'}}
              labelStyle={{display: 'none'}}
           />
-          <Line
-            type="monotone"
-            dataKey="theta1"
-            stroke="#2563eb"
-            strokeWidth={2}
-            dot={false}
-            name="θ mass"
-            isAnimationActive={false}
-          />
-          <Line
-            type="monotone"
-            dataKey="theta2"
-            stroke="#10b981"
-            strokeWidth={2}
-            dot={false}
-            name="θ inertia"
-            isAnimationActive={false}
-          />
+          {PARAMETER_SERIES.slice(0, names.length).map(({ key, color }, i) => (
+            <Line
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={color}
+              strokeWidth={highlight === i ? 3 : 2}
+              strokeOpacity={highlight === null || highlight === i ? 1 : 0.2}
+              dot={false}
+              name={names[i]}
+              isAnimationActive={false}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// The stability view: time traces of one run's errors and V, and the phase plane of h̃
+interface StabilityChartsProps {
+  data: StabilitySample[]; // Already cut to the visible window
+  events?: DisturbanceEvent[];
+  delta: number; // max ‖A ṽ‖ over the window [m/s]
+  bound: number; // Ultimate bound on ‖h̃‖ for that δ [m], Infinity if there is none
+}
+
+interface TraceSpec {
+  key: keyof StabilitySample;
+  name: string;
+  color: string;
+  right?: boolean; // On a second axis
+}
+
+const TRACE_GROUPS: { title: string; traces: TraceSpec[] }[] = [
+  {
+    title: 'Local Error h̃ [m]',
+    traces: [
+      { key: 'xTilde', name: 'x̃ (ahead)', color: '#2563eb' },
+      { key: 'yTilde', name: 'ỹ (left)', color: '#10b981' },
+    ],
+  },
+  {
+    title: 'Velocity Error ṽ [m/s, rad/s]',
+    traces: [
+      { key: 'uTilde', name: 'ũ', color: '#f59e0b' },
+      { key: 'wTilde', name: 'ω̃', color: '#8b5cf6' },
+    ],
+  },
+  {
+    title: 'Lyapunov Function V and V̇',
+    traces: [
+      { key: 'lyapunov', name: 'V', color: '#0f172a' },
+      { key: 'lyapunovRate', name: 'V̇', color: '#dc2626', right: true },
+    ],
+  },
+];
+
+const CIRCLE_POINTS = 64;
+
+export const StabilityCharts: React.FC<StabilityChartsProps> = ({ data, events = [], delta, bound }) => {
+  // recharts draws NaN as a broken path; null leaves a gap
+  const rows = data.map(d => {
+    const row: Record<string, number | null> = {};
+    (Object.keys(d) as (keyof StabilitySample)[]).forEach(k => { row[k] = Number.isFinite(d[k]) ? d[k] : null; });
+    return row;
+  });
+  const phase = data.map(d => ({ x: d.xTilde, y: d.yTilde }));
+  const last = phase[phase.length - 1];
+  const bounded = Number.isFinite(bound);
+  const extent = Math.max(bounded ? bound * 1.2 : 0, ...phase.map(p => 1.1 * Math.max(Math.abs(p.x), Math.abs(p.y))), 0.01);
+  const circle = bounded
+    ? Array.from({ length: CIRCLE_POINTS + 1 }, (_, i) => {
+        const a = (2 * Math.PI * i) / CIRCLE_POINTS;
+        return { x: bound * Math.cos(a), y: bound * Math.sin(a) };
+      })
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {TRACE_GROUPS.map(({ title, traces }) => (
+        <div key={title} className="h-40 w-full bg-white rounded-lg shadow-sm border border-slate-100 p-2">
+          <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">{title}</h3>
+          <ResponsiveContainer width="100%" height="80%">
+            <LineChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide />
+              <YAxis domain={['auto', 'auto']} tick={{fontSize: 10}} tickFormatter={tickLabel} width={30} />
+              {traces.some(t => t.right) && (
+                <YAxis yAxisId="right" orientation="right" domain={['auto', 'auto']} tick={{fontSize: 10}} tickFormatter={tickLabel} width={30} />
+              )}
+              {eventMarkers(events, data)}
+              <Tooltip
+                contentStyle={{fontSize: '12px', borderRadius: '4px'}}
+                labelStyle={{display: 'none'}}
+                formatter={(v: number) => tickLabel(v)}
+              />
+              {traces.map(({ key, name, color, right }) => (
+                <Line
+                  key={key}
+                  yAxisId={right ? 'right' : 0}
+                  type="monotone"
+                  dataKey={key}
+                  stroke={color}
+                  strokeWidth={right ? 1.5 : 2}
+                  dot={false}
+                  name={name}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+      <div className="w-full bg-white rounded-lg shadow-sm border border-slate-100 p-2">
+        <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Phase Plane x̃ – ỹ [m]</h3>
+        <ResponsiveContainer width="100%" aspect={1}>
+          <ScatterChart margin={{ top: 4, right: 8, bottom: 4, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+            <XAxis type="number" dataKey="x" name="x̃" domain={[-extent, extent]} tick={{fontSize: 10}} tickFormatter={tickLabel} allowDataOverflow />
+            <YAxis type="number" dataKey="y" name="ỹ" domain={[-extent, extent]} tick={{fontSize: 10}} tickFormatter={tickLabel} width={30} allowDataOverflow />
+            <ReferenceLine x={0} stroke="#cbd5e1" />
+            <ReferenceLine y={0} stroke="#cbd5e1" />
+            {bounded && (
+              <Scatter data={circle} line={{ stroke: '#10b981', strokeDasharray: '4 2' }} shape={() => <g />} isAnimationActive={false} />
+            )}
+            <Scatter data={phase} line={{ stroke: '#2563eb', strokeWidth: 1.5 }} shape={() => <g />} isAnimationActive={false} />
+            {last && <Scatter data={[last]} fill="#2563eb" isAnimationActive={false} />}
+          </ScatterChart>
+        </ResponsiveContainer>
+        <div className="text-[11px] text-slate-500 mt-1">
+          δ = max ‖Aṽ‖ = {tickLabel(delta)} m/s ·{' '}
+          {bounded
+            ? <span className="text-emerald-600">ultimate bound ‖h̃‖ ≤ {tickLabel(bound)} m</span>
+            : <span className="text-amber-600">δ ≥ min(lₓ, l_y): the kinematic gains guarantee no bound</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Value → color on a light-to-dark blue scale (t in [0, 1])
+const HEAT_STOPS = ['#eff6ff', '#93c5fd', '#3b82f6', '#1d4ed8', '#172554'];
+const heatColor = (t: number) => {
+  const k = Math.max(0, Math.min(1, t)) * (HEAT_STOPS.length - 1);
+  const i = Math.min(Math.floor(k), HEAT_STOPS.length - 2);
+  const mix = (a: string, b: string, f: number) => Math.round(parseInt(a, 16) + (parseInt(b, 16) - parseInt(a, 16)) * f);
+  const [from, to] = [HEAT_STOPS[i], HEAT_STOPS[i + 1]];
+  const channel = (c: number) => mix(from.slice(1 + 2 * c, 3 + 2 * c), to.slice(1 + 2 * c, 3 + 2 * c), k - i).toString(16).padStart(2, '0');
+  return `#${channel(0)}${channel(1)}${channel(2)}`;
+};
+
+const tickLabel = (v: number) => (Math.abs(v) >= 1000 || (v !== 0 && Math.abs(v) < 0.01) ? v.toExponential(1) : Number(v.toPrecision(3)).toString());
+
+interface HeatmapProps {
+  columns: number[]; // Values along x
+  rows: number[]; // Values along y (a single row for a one-axis sweep)
+  cells: (number | null)[][]; // [row][column]; null while pending or when the run diverged
+  xLabel: string;
+  yLabel?: string;
+  diverged?: boolean[][]; // Cells drawn as ✕
+}
+
+/** Grid of sweep results, darker for larger values. */
+export const Heatmap: React.FC<HeatmapProps> = ({ columns, rows, cells, xLabel, yLabel, diverged }) => {
+  const values = cells.flat().filter((v): v is number => v !== null && Number.isFinite(v));
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const cellW = 280 / columns.length;
+  const cellH = Math.min(28, 160 / rows.length);
+  const left = 44;
+  const top = 4;
+  const height = top + rows.length * cellH + 30;
+
+  return (
+    <svg viewBox={`0 0 ${left + 280 + 4} ${height}`} className="w-full text-[9px] font-mono">
+      {cells.map((row, r) =>
+        row.map((v, c) => {
+          // Largest row value at the top
+          const y = top + (rows.length - 1 - r) * cellH;
+          const x = left + c * cellW;
+          const t = hi > lo && v !== null ? (v - lo) / (hi - lo) : 0.5;
+          return (
+            <g key={`${r}-${c}`}>
+              <rect x={x} y={y} width={cellW - 1} height={cellH - 1} fill={v === null ? '#f1f5f9' : heatColor(t)}>
+                <title>{`${xLabel} ${tickLabel(columns[c])}${yLabel ? `, ${yLabel} ${tickLabel(rows[r])}` : ''}: ${v === null ? '—' : tickLabel(v)}`}</title>
+              </rect>
+              {diverged?.[r]?.[c] && (
+                <text x={x + cellW / 2} y={y + cellH / 2 + 3} textAnchor="middle" fill="#dc2626">✕</text>
+              )}
+            </g>
+          );
+        }),
+      )}
+      {columns.map((v, c) => (
+        <text key={c} x={left + c * cellW + cellW / 2} y={top + rows.length * cellH + 10} textAnchor="middle" fill="#64748b">
+          {tickLabel(v)}
+        </text>
+      ))}
+      {yLabel && rows.map((v, r) => (
+        <text key={r} x={left - 3} y={top + (rows.length - 1 - r) * cellH + cellH / 2 + 3} textAnchor="end" fill="#64748b">
+          {tickLabel(v)}
+        </text>
+      ))}
+      <text x={left + 140} y={height - 6} textAnchor="middle" fill="#334155">{xLabel}</text>
+      {yLabel && <text x={4} y={top + 8} fill="#334155">{yLabel}</text>}
+      {values.length > 0 && (
+        <text x={left + 280} y={height - 6} textAnchor="end" fill="#64748b">{`${tickLabel(lo)} – ${tickLabel(hi)}`}</text>
+      )}
+    </svg>
+  );
+};
+
+interface BoxPlotProps {
+  rows: { label: string; stats: BoxStats | null; values: number[] }[]; // One box per row, each on its own scale
+}
+
+/** Horizontal box-and-whisker plots with the individual values as dots. */
+export const BoxPlot: React.FC<BoxPlotProps> = ({ rows }) => {
+  const left = 70;
+  const width = 210;
+  const rowH = 36;
+  return (
+    <svg viewBox={`0 0 ${left + width + 10} ${rows.length * rowH + 4}`} className="w-full text-[9px] font-mono">
+      {rows.map(({ label, stats, values }, i) => {
+        const y = i * rowH + 14;
+        if (!stats) {
+          return <text key={label} x={0} y={y + 3} fill="#64748b">{label}: —</text>;
+        }
+        const span = stats.max - stats.min || 1;
+        const sx = (v: number) => left + ((v - stats.min) / span) * width;
+        return (
+          <g key={label}>
+            <text x={0} y={y + 3} fill="#334155">{label}</text>
+            <line x1={sx(stats.min)} x2={sx(stats.max)} y1={y} y2={y} stroke="#94a3b8" />
+            <line x1={sx(stats.min)} x2={sx(stats.min)} y1={y - 5} y2={y + 5} stroke="#94a3b8" />
+            <line x1={sx(stats.max)} x2={sx(stats.max)} y1={y - 5} y2={y + 5} stroke="#94a3b8" />
+            <rect x={sx(stats.q1)} y={y - 7} width={Math.max(sx(stats.q3) - sx(stats.q1), 1)} height={14} fill="#dbeafe" stroke="#2563eb" />
+            <line x1={sx(stats.median)} x2={sx(stats.median)} y1={y - 7} y2={y + 7} stroke="#1d4ed8" strokeWidth={2} />
+            {values.map((v, k) => (
+              <circle key={k} cx={sx(v)} cy={y + 11} r={1.5} fill="#64748b" opacity={0.6} />
+            ))}
+            <text x={sx(stats.min)} y={y - 9} textAnchor="start" fill="#64748b">{tickLabel(stats.min)}</text>
+            <text x={sx(stats.max)} y={y - 9} textAnchor="end" fill="#64748b">{tickLabel(stats.max)}</text>
+            <text x={sx(stats.median)} y={y + 21} textAnchor="middle" fill="#1d4ed8">{tickLabel(stats.median)}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Play, RotateCcw } from 'lucide-react';
+import { ControllerStatus } from '../simulation/live';
+import { ControllerLanguage, transpileController } from '../simulation/sandbox';
+
+interface ControllerEditorProps {
+  status: ControllerStatus | null; // As last reported by the simulation
+  onApply: (code: string | null) => void; // JavaScript to swap in, or null for the built-in controller
+}
+
+const LANGUAGES: { value: ControllerLanguage; label: string }[] = [
+  { value: 'TYPESCRIPT', label: 'TypeScript' },
+  { value: 'JAVASCRIPT', label: 'JavaScript' },
+];
+
+const HEADER = `// Runs at every physics step. input: { t, dt,
+//   reference: { x, y, dx, dy, ddx, ddy },  (for the control point)
+//   pose: { x, y, theta }, velocity: { u, w } }  (as measured)
+// Return the commands { u, w } and, to chart them, up to six params.
+`;
+
+// A kinematic-only tracker with an integral of the error, as a starting point
+const TEMPLATES: Record<ControllerLanguage, string> = {
+  TYPESCRIPT: `${HEADER}
+interface State {
+  integral: number;
+}
+
+function init(): State {
+  return { integral: 0 };
+}
+
+function update(input: ControllerInput, state: State): ControllerOutput {
+  const a = 0.15; // Control point ahead of the axle [m]
+  const k = 1; // Gain [1/s]
+  const { pose, reference, dt } = input;
+  const c = Math.cos(pose.theta);
+  const s = Math.sin(pose.theta);
+  const ex = reference.x - (pose.x + a * c);
+  const ey = reference.y - (pose.y + a * s);
+  state.integral += Math.hypot(ex, ey) * dt;
+
+  const vx = reference.dx + k * ex;
+  const vy = reference.dy + k * ey;
+  return {
+    u: c * vx + s * vy,
+    w: (-s * vx + c * vy) / a,
+    params: { 'x̃': ex, 'ỹ': ey, '∫|e|': state.integral },
+  };
+}
+`,
+  JAVASCRIPT: `${HEADER}
+function init() {
+  return { integral: 0 };
+}
+
+function update(input, state) {
+  const a = 0.15; // Control point ahead of the axle [m]
+  const k = 1; // Gain [1/s]
+  const { pose, reference, dt } = input;
+  const c = Math.cos(pose.theta);
+  const s = Math.sin(pose.theta);
+  const ex = reference.x - (pose.x + a * c);
+  const ey = reference.y - (pose.y + a * s);
+  state.integral += Math.hypot(ex, ey) * dt;
+
+  const vx = reference.dx + k * ex;
+  const vy = reference.dy + k * ey;
+  return {
+    u: c * vx + s * vy,
+    w: (-s * vx + c * vy) / a,
+    params: { 'x̃': ex, 'ỹ': ey, '∫|e|': state.integral },
+  };
+}
+`,
+};
+
+const TAB = '  ';
+
+export const ControllerEditor: React.FC<ControllerEditorProps> = ({ status, onApply }) => {
+  const [language, setLanguage] = useState<ControllerLanguage>('TYPESCRIPT');
+  const [sources, setSources] = useState(TEMPLATES);
+  const [compileError, setCompileError] = useState<string | null>(null);
+  const [compiling, setCompiling] = useState(false);
+  const source = sources[language];
+
+  const apply = async () => {
+    setCompiling(true);
+    try {
+      onApply(await transpileController(source, language));
+      setCompileError(null);
+    } catch (err) {
+      setCompileError((err as Error).message);
+    } finally {
+      setCompiling(false);
+    }
+  };
+
+  const builtIn = () => {
+    setCompileError(null);
+    onApply(null);
+  };
+
+  // Tab indents instead of leaving the editor; Ctrl/⌘+Enter applies
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      apply();
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      const target = e.currentTarget;
+      setSources(p => ({ ...p, [language]: source.slice(0, selectionStart) + TAB + source.slice(selectionEnd) }));
+      requestAnimationFrame(() => target.setSelectionRange(selectionStart + TAB.length, selectionStart + TAB.length));
+    }
+  };
+
+  const error = compileError ?? status?.error ?? null;
+
+  return (
+    <div className="space-y-2 text-xs text-slate-600">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 p-1 bg-slate-100 rounded-lg">
+          {LANGUAGES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setLanguage(value)}
+              className={`flex-1 py-1 font-medium rounded-md transition-all ${language === value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setSources(p => ({ ...p, [language]: TEMPLATES[language] }))}
+          disabled={source === TEMPLATES[language]}
+          className="px-2 py-1.5 bg-slate-100 hover:bg-slate-200 rounded disabled:opacity-50"
+        >
+          Template
+        </button>
+      </div>
+      <textarea
+        value={source}
+        onChange={e => {
+          const value = e.target.value;
+          setSources(p => ({ ...p, [language]: value }));
+        }}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        wrap="off"
+        rows={16}
+        className="w-full p-2 bg-slate-900 text-slate-100 rounded font-mono text-[11px] leading-4 resize-y"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={apply}
+          disabled={compiling}
+          title="Ctrl+Enter"
+          className="flex-1 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded flex items-center justify-center gap-1 disabled:opacity-50"
+        >
+          <Play size={12} /> {compiling ? 'Compiling…' : 'Apply to running sim'}
+        </button>
+        <button
+          onClick={builtIn}
+          disabled={!status?.custom}
+          className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded flex items-center gap-1 disabled:opacity-50"
+        >
+          <RotateCcw size={12} /> Built-in
+        </button>
+      </div>
+      <div className={status?.custom ? 'text-emerald-600' : 'text-slate-400'}>
+        {status?.custom ? 'Custom controller in the loop' : 'Built-in adaptive controller in the loop'}
+      </div>
+      {error && <pre className="p-2 bg-red-50 text-red-700 rounded whitespace-pre-wrap font-mono">{error}</pre>}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ParameterSliderProps {
+  label: string;
+  unit?: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  digits?: number; // Decimals shown for the value
+  onChange: (value: number) => void;
+}
+
+export const ParameterSlider: React.FC<ParameterSliderProps> = ({ label, unit, value, min, max, step, digits = 2, onChange }) => {
+  return (
+    <label className="block">
+      <div className="flex justify-between text-xs text-slate-600 mb-1">
+        <span className="font-mono">{label}</span>
+        <span className="font-mono text-slate-400">
+          {value.toFixed(digits)}{unit ? ` ${unit}` : ''}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="w-full accent-blue-600"
+      />
+    </label>
+  );
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { DEFAULT_EVENTS, LOAD_PROFILE } from '../constants';
+import { DisturbanceEvent } from '../types';
+
+interface DisturbanceEditorProps {
+  events: DisturbanceEvent[];
+  onChange: (events: DisturbanceEvent[]) => void;
+}
+
+type EventType = DisturbanceEvent['type'];
+
+const LABELS: Record<EventType, string> = {
+  LOAD: 'Load',
+  SKID: 'Skid',
+  PUSH: 'Push',
+  SATURATION: 'Saturation',
+};
+
+// An editable number, bounded below by min (exclusively when positive) as
+// the experiment schema requires
+interface Field {
+  key: string;
+  unit: string;
+  min?: number;
+  positive?: boolean;
+  step: number;
+}
+
+const TIME_FIELD: Field = { key: 'time', unit: 's', min: 0, step: 1 };
+
+// Editable numbers of each event type, after its time
+const FIELDS: Record<EventType, Field[]> = {
+  LOAD: [{ key: 'mass', unit: 'kg', min: 0, step: 1 }],
+  SKID: [
+    { key: 'duration', unit: 's', min: 0, step: 0.5 },
+    { key: 'factor', unit: '×', min: 0, step: 0.1 },
+  ],
+  PUSH: [{ key: 'distance', unit: 'm', step: 0.05 }],
+  SATURATION: [
+    { key: 'maxLinearVel', unit: 'm/s', min: 0, positive: true, step: 0.1 },
+    { key: 'maxAngularVel', unit: 'rad/s', min: 0, positive: true, step: 0.1 },
+  ],
+};
+
+const inputClass = 'w-14 px-1 py-0.5 border border-slate-200 rounded font-mono';
+
+export const DisturbanceEditor: React.FC<DisturbanceEditorProps> = ({ events, onChange }) => {
+  // Out-of-range entries are ignored, like empty ones, so every edit stays loadable
+  const update = (index: number, { key, min, positive }: Field, raw: string) => {
+    const value = Number(raw);
+    if (raw === '' || !Number.isFinite(value)) return;
+    if (min !== undefined && (positive ? value <= min : value < min)) return;
+    onChange(events.map((e, i) => (i === index ? ({ ...e, [key]: value } as DisturbanceEvent) : e)));
+  };
+
+  const add = (type: EventType) => onChange([...events, { ...DEFAULT_EVENTS[type] }]);
+  const remove = (index: number) => onChange(events.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-2">
+      {events.length === 0 && <div className="text-xs text-slate-400 italic">No disturbances scheduled</div>}
+      {events.map((e, i) => (
+        <div key={i} className="flex items-center gap-2 text-xs text-slate-600">
+          <span className="w-16 font-medium">{LABELS[e.type]}</span>
+          <label className="flex items-center gap-1">
+            t
+            <input
+              type="number"
+              min={TIME_FIELD.min}
+              step={TIME_FIELD.step}
+              value={e.time}
+              onChange={ev => update(i, TIME_FIELD, ev.target.value)}
+              className={inputClass}
+            />
+            s
+          </label>
+          {FIELDS[e.type].map(field => (
+            <label key={field.key} className="flex items-center gap-1">
+              <input
+                type="number"
+                min={field.min}
+                step={field.step}
+                value={(e as unknown as Record<string, number>)[field.key]}
+                onChange={ev => update(i, field, ev.target.value)}
+                className={inputClass}
+              />
+              {field.unit}
+            </label>
+          ))}
+          <button onClick={() => remove(i)} className="ml-auto p-1 text-slate-400 hover:text-red-600" title="Remove event">
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(LABELS) as EventType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => add(type)}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-xs text-slate-600"
+          >
+            <Plus size={12} /> {LABELS[type]}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange(LOAD_PROFILE.map(e => ({ ...e })))}
+          className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-xs text-slate-600"
+          title="Pick up a load and deliver it later, as in the paper's experiments"
+        >
+          Load profile
+        </button>
+        {events.length > 0 && (
+          <button onClick={() => onChange([])} className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-xs text-slate-600">
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { Download, Link, Upload } from 'lucide-react';
+import { ExperimentConfig, experimentToJSON, experimentURL, parseExperiment } from '../simulation/experiment';
+import { EXPERIMENT_PRESETS } from '../simulation/presets';
+
+interface ExperimentControlsProps {
+  config: ExperimentConfig;
+  onLoad: (config: ExperimentConfig) => void; // Replaces the current experiment and restarts the run
+  error?: string | null; // E.g. a shared link that did not validate
+}
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded';
+
+export const ExperimentControls: React.FC<ExperimentControlsProps> = ({ config, onLoad, error: initialError = null }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(initialError);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [presetId, setPresetId] = useState('');
+
+  const selectPreset = (id: string) => {
+    setPresetId(id);
+    const preset = EXPERIMENT_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    onLoad(preset.config);
+    setError(null);
+  };
+
+  // The link also goes into the address bar, so reloading keeps the experiment
+  const share = async () => {
+    const url = experimentURL(new URL(window.location.href), config);
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice('Link copied');
+    } catch {
+      setNotice('Link is in the address bar');
+    }
+    setTimeout(() => setNotice(null), 2000);
+  };
+
+  const save = () => {
+    const url = URL.createObjectURL(new Blob([experimentToJSON(config)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'experiment.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(parseExperiment(await file.text()).config);
+      setPresetId('');
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const preset = EXPERIMENT_PRESETS.find(p => p.id === presetId);
+
+  return (
+    <div className="space-y-2 text-xs text-slate-600">
+      <select value={presetId} onChange={e => selectPreset(e.target.value)} className="w-full px-2 py-1.5 bg-slate-100 rounded">
+        <option value="">Paper figure presets…</option>
+        {EXPERIMENT_PRESETS.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      {preset && <div className="text-slate-400">{preset.description}</div>}
+      <div className="flex items-center gap-2">
+        {error && <span className="flex-1 text-red-600 truncate" title={error}>{error}</span>}
+        {!error && notice && <span className="flex-1 text-emerald-600">{notice}</span>}
+        <div className="ml-auto flex gap-2">
+          <button onClick={share} className={buttonClass} title="Copy a link that reproduces this experiment">
+            <Link size={12} /> Share
+          </button>
+          <button onClick={save} className={buttonClass} title="Save the experiment as JSON">
+            <Download size={12} /> Save
+          </button>
+          <button onClick={() => fileRef.current?.click()} className={buttonClass} title="Load a JSON experiment">
+            <Upload size={12} /> Load
+          </button>
+        </div>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+    </div>
+  );
+};
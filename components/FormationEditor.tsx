@@ -0,0 +1,119 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { FORMATION_PALETTE } from '../constants';
+import { FormationRobot, FormationSpec } from '../types';
+
+interface FormationEditorProps {
+  formation: FormationSpec;
+  onChange: (formation: FormationSpec) => void;
+}
+
+const MODES: { value: FormationSpec['mode']; label: string; description: string }[] = [
+  { value: 'INDEPENDENT', label: 'Independent', description: 'Each robot tracks the trajectory, its phase ahead of robot 1' },
+  { value: 'LEADER_FOLLOWER', label: 'Leader–follower', description: 'Robot 1 tracks the trajectory, the others hold an offset in its frame' },
+];
+
+const inputClass = 'w-12 px-1 py-0.5 border border-slate-200 rounded font-mono text-xs';
+
+export const FormationEditor: React.FC<FormationEditorProps> = ({ formation, onChange }) => {
+  const { mode, robots } = formation;
+
+  const update = (index: number, patch: Partial<FormationRobot>) =>
+    onChange({ ...formation, robots: robots.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  // Numeric fields ignore empty or invalid input while typing
+  const numeric = (apply: (value: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value !== '' && Number.isFinite(value)) apply(value);
+  };
+
+  const addRobot = () => {
+    // Lowest free id, so removing and re-adding keeps ids short and unique
+    let n = robots.length + 1;
+    while (robots.some(r => r.id === `r${n}`)) n++;
+    const last = robots[robots.length - 1];
+    onChange({
+      ...formation,
+      robots: [
+        ...robots,
+        {
+          id: `r${n}`,
+          isAdaptive: true,
+          payload: 0,
+          phase: (last?.phase ?? 0) + 2,
+          offset: { x: (last?.offset.x ?? 0) - 0.4, y: 0 },
+        },
+      ],
+    });
+  };
+
+  const removeRobot = (index: number) => onChange({ ...formation, robots: robots.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg">
+        {MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ ...formation, mode: value })}
+            className={`py-1.5 text-xs font-medium rounded-md transition-all ${mode === value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="text-xs text-slate-400">{MODES.find(m => m.value === mode)!.description}</div>
+
+      <ul className="space-y-1">
+        {robots.map((robot, i) => (
+          <li key={robot.id} className="flex items-center gap-2 text-xs text-slate-600">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: FORMATION_PALETTE[i % FORMATION_PALETTE.length].color }} />
+            <span className="w-4 font-mono">{i + 1}</span>
+            <label className="flex items-center gap-1" title="Adaptive controller">
+              <input type="checkbox" checked={robot.isAdaptive} onChange={e => update(i, { isAdaptive: e.target.checked })} />
+              adapt
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="number" min={0} step={1} value={robot.payload} onChange={numeric(payload => payload >= 0 && update(i, { payload }))} className={inputClass} />
+              kg
+            </label>
+            {mode === 'INDEPENDENT' && (
+              <label className="flex items-center gap-1">
+                <span className="font-mono">φ</span>
+                <input type="number" step={0.5} value={robot.phase} onChange={numeric(phase => update(i, { phase }))} className={inputClass} />
+                s
+              </label>
+            )}
+            {mode === 'LEADER_FOLLOWER' && i > 0 && (
+              <label className="flex items-center gap-1">
+                <span className="font-mono">Δ</span>
+                <input type="number" step={0.1} value={robot.offset.x} onChange={numeric(x => update(i, { offset: { ...robot.offset, x } }))} className={inputClass} />
+                <input type="number" step={0.1} value={robot.offset.y} onChange={numeric(y => update(i, { offset: { ...robot.offset, y } }))} className={inputClass} />
+                m
+              </label>
+            )}
+            {mode === 'LEADER_FOLLOWER' && i === 0 && <span className="text-slate-400">leader</span>}
+            <button
+              onClick={() => removeRobot(i)}
+              disabled={robots.length <= 2}
+              className="ml-auto p-1 text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+              title="Remove robot"
+            >
+              <X size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="text-xs text-slate-400">All robots share the controller gains and adaptation law set above; only adaptation on/off is per robot</div>
+
+      <button
+        onClick={addRobot}
+        disabled={robots.length >= FORMATION_PALETTE.length}
+        className="w-full py-1.5 flex items-center justify-center gap-1 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md disabled:opacity-50"
+      >
+        <Plus size={12} /> Add robot
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { DEFAULT_IDENTIFICATION, PLANT_CONSTANTS } from '../constants';
+import { IdentificationSpec, SimulationSpec } from '../types';
+import { IdentificationResult, identifyParameters, runExcitation } from '../simulation/identification';
+
+interface IdentificationPanelProps {
+  sim: Pick<SimulationSpec, 'plant' | 'integrator' | 'physicsRate' | 'sensors' | 'initialEstimate'>;
+  onUseEstimate: (theta: number[]) => void; // Make it θ̂(0) of the adaptive controller
+}
+
+const fmt = (v: number) => v.toFixed(4);
+const RESOLUTION = 5e-5; // Half the last digit fmt shows; smaller misses cannot be seen
+
+const inputClass = 'w-14 px-1 py-0.5 border border-slate-200 rounded font-mono';
+
+// Numeric experiment settings, with units
+const FIELDS: { key: Exclude<keyof IdentificationSpec, 'signal'>; label: string; unit: string; step: number }[] = [
+  { key: 'duration', label: 'T', unit: 's', step: 10 },
+  { key: 'meanU', label: 'ū', unit: 'm/s', step: 0.05 },
+  { key: 'amplitudeU', label: 'Δu', unit: 'm/s', step: 0.05 },
+  { key: 'amplitudeW', label: 'Δω', unit: 'rad/s', step: 0.1 },
+  { key: 'loadMass', label: 'load', unit: 'kg', step: 1 },
+];
+
+export const IdentificationPanel: React.FC<IdentificationPanelProps> = ({ sim, onUseEstimate }) => {
+  const [spec, setSpec] = useState<IdentificationSpec>(DEFAULT_IDENTIFICATION);
+  const [result, setResult] = useState<IdentificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (key: Exclude<keyof IdentificationSpec, 'signal'>) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value !== '' && Number.isFinite(value)) setSpec(s => ({ ...s, [key]: value }));
+  };
+
+  const identify = () => {
+    const fitted = identifyParameters(runExcitation(spec, sim), sim.plant, spec.loadMass);
+    setResult(fitted);
+    setError(fitted ? null : 'Not enough excitation to determine θ');
+  };
+
+  const isNominal = sim.initialEstimate.every((th, i) => th === PLANT_CONSTANTS.THETA[i]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-100 space-y-3">
+      <h3 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+        <FlaskConical size={14} />
+        Parameter Identification
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+        <select
+          value={spec.signal}
+          onChange={e => setSpec(s => ({ ...s, signal: e.target.value as IdentificationSpec['signal'] }))}
+          className="px-2 py-1 bg-slate-100 rounded"
+        >
+          <option value="CHIRP">Chirp</option>
+          <option value="PRBS">PRBS</option>
+        </select>
+        {FIELDS.map(({ key, label, unit, step }) => (
+          <label key={key} className="flex items-center gap-1">
+            <span className="font-mono">{label}</span>
+            <input type="number" min={0} step={step} value={spec[key]} onChange={setField(key)} className={inputClass} />
+            {unit}
+          </label>
+        ))}
+        <button onClick={identify} className="ml-auto px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium">
+          Run
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {result && (
+        <>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-normal">{result.samples} samples</th>
+                <th className="text-right font-normal">estimate</th>
+                <th className="text-right font-normal">95% CI</th>
+                <th className="text-right font-normal">true</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.theta.map((th, i) => {
+                const [lo, hi] = result.interval[i];
+                const covers = (lo <= result.trueTheta[i] && result.trueTheta[i] <= hi) || Math.abs(th - result.trueTheta[i]) < RESOLUTION;
+                return (
+                  <tr key={i} className="border-t border-slate-50">
+                    <td className="text-slate-500">θ{i + 1}</td>
+                    <td className="text-right text-slate-700">{fmt(th)}</td>
+                    <td className={`text-right ${covers ? 'text-slate-400' : 'text-amber-600'}`}>±{fmt(hi - th)}</td>
+                    <td className="text-right text-slate-400">{fmt(result.trueTheta[i])}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {result.limited > 0 && (
+            <div className="text-xs text-amber-600">
+              The wheels' limits held the robot back during {(100 * result.limited).toFixed(0)}% of the run. There it does not follow the θ model, so the
+              estimates are biased and the intervals can miss; lower Δu, Δω or use the chirp.
+            </div>
+          )}
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>
+              RMS residual: u_r {result.residualStd[0].toExponential(1)}, ω_r {result.residualStd[1].toExponential(1)}
+            </span>
+            <button onClick={() => onUseEstimate(result.theta)} className="px-3 py-1 bg-slate-100 hover:bg-slate-200 rounded font-medium">
+              Use as θ̂(0)
+            </button>
+          </div>
+        </>
+      )}
+
+      {!isNominal && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>Runs start from identified θ̂(0)</span>
+          <button onClick={() => onUseEstimate([...PLANT_CONSTANTS.THETA])} className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded">
+            Back to nominal
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ParameterSlider } from './Controls';
+import { DEFAULT_INITIAL_POSE } from '../constants';
+import { Pose } from '../types';
+
+interface InitialPoseEditorProps {
+  pose: Pose;
+  onChange: (pose: Pose) => void; // Restarts the runs from the new pose
+  isPlaying: boolean;
+}
+
+export const InitialPoseEditor: React.FC<InitialPoseEditorProps> = ({ pose, onChange, isPlaying }) => {
+  const set = (key: keyof Pose) => (value: number) => onChange({ ...pose, [key]: value });
+  const isDefault = (Object.keys(DEFAULT_INITIAL_POSE) as (keyof Pose)[]).every(k => pose[k] === DEFAULT_INITIAL_POSE[k]);
+
+  return (
+    <div className="space-y-2">
+      <ParameterSlider label="x" unit="m" value={pose.x} min={-3} max={3} step={0.05} onChange={set('x')} />
+      <ParameterSlider label="y" unit="m" value={pose.y} min={-2} max={2} step={0.05} onChange={set('y')} />
+      <ParameterSlider label="heading" unit="rad" value={pose.theta} min={-Math.PI} max={Math.PI} step={0.05} onChange={set('theta')} />
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>{isPlaying ? 'Pause to drag the robot on the canvas' : 'Drag the robot or its heading handle on the canvas'}</span>
+        <button
+          onClick={() => onChange({ ...DEFAULT_INITIAL_POSE })}
+          disabled={isDefault}
+          className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded disabled:opacity-50"
+        >
+          Default
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { RunSeries } from './Charts';
+import { PerformanceMetrics, TimeWindow, computeMetrics } from '../simulation/metrics';
+
+interface MetricsPanelProps {
+  runs: RunSeries[]; // Full recordings, not the chart window
+  formation?: { time: number; error: number }[]; // Formation error series of a multi-robot run
+}
+
+// Unset values (e.g. θ̂ slots a custom controller does not chart) are NaN
+const fmt = (v: number, digits = 3) => (Number.isNaN(v) ? '–' : Math.abs(v) >= 1000 ? v.toExponential(2) : v.toFixed(digits));
+
+const ROWS: { label: string; unit: string; value: (m: PerformanceMetrics) => string }[] = [
+  { label: 'IAE', unit: 'm·s', value: m => fmt(m.iae) },
+  { label: 'ISE', unit: 'm²·s', value: m => fmt(m.ise, 4) },
+  { label: 'ITAE', unit: 'm·s²', value: m => fmt(m.itae) },
+  { label: 'RMS error', unit: 'm', value: m => fmt(m.rms, 4) },
+  { label: 'Peak error', unit: 'm', value: m => fmt(m.peak, 4) },
+  {
+    label: 'Settling (load)',
+    unit: 's',
+    value: m => (m.settlingTime === null ? '—' : Number.isFinite(m.settlingTime) ? fmt(m.settlingTime, 1) : 'not settled'),
+  },
+  { label: '∫|u_r| dt', unit: 'm', value: m => fmt(m.effortU, 2) },
+  { label: '∫|ω_r| dt', unit: 'rad', value: m => fmt(m.effortW, 2) },
+  { label: 'Obstacle contact', unit: 's', value: m => fmt(m.contactTime, 1) },
+  ...[0, 1, 2, 3, 4, 5].map(i => ({ label: `θ̂${i + 1} final`, unit: '', value: (m: PerformanceMetrics) => fmt(m.finalTheta[i], 4) })),
+];
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ runs, formation }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const window: TimeWindow = {
+    start: from === '' ? undefined : Number(from),
+    end: to === '' ? undefined : Number(to),
+  };
+  const metrics = runs.map(run => computeMetrics(run.data, window));
+  const span = metrics.find(m => m !== null);
+
+  // Formation error over the same window, at the sample period
+  const inWindow = formation?.filter(d => d.time > (window.start ?? -Infinity) && d.time <= (window.end ?? Infinity)) ?? [];
+  const formationRms = Math.sqrt(inWindow.reduce((acc, d) => acc + d.error * d.error, 0) / Math.max(inWindow.length, 1));
+  const formationPeak = Math.max(0, ...inWindow.map(d => d.error));
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+          <Gauge size={14} />
+          Performance Metrics
+        </h3>
+        <div className="flex items-center gap-1 text-xs text-slate-500">
+          <input
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            placeholder="start"
+            type="number"
+            min={0}
+            className="w-16 px-1 py-0.5 border border-slate-200 rounded font-mono"
+          />
+          <span>–</span>
+          <input
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            placeholder="end"
+            type="number"
+            min={0}
+            className="w-16 px-1 py-0.5 border border-slate-200 rounded font-mono"
+          />
+          <span>s</span>
+        </div>
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-normal pb-1">
+              {span ? `${span.start.toFixed(1)}–${span.end.toFixed(1)} s` : 'no data'}
+            </th>
+            {runs.map(run => (
+              <th key={run.id} className="text-right font-semibold pb-1" style={{ color: run.color }}>
+                {run.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map(row => (
+            <tr key={row.label} className="border-t border-slate-50">
+              <td className="text-slate-500 py-0.5">
+                {row.label} {row.unit && <span className="text-slate-300">[{row.unit}]</span>}
+              </td>
+              {metrics.map((m, i) => (
+                <td key={runs[i].id} className="text-right text-slate-700">
+                  {m ? row.value(m) : '—'}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {formation && (
+        <div className="mt-2 pt-2 border-t border-slate-100 flex justify-between text-xs font-mono text-slate-500">
+          <span>Formation error <span className="text-slate-300">[m]</span></span>
+          <span className="text-slate-700">
+            RMS {inWindow.length ? fmt(formationRms, 4) : '—'} · peak {inWindow.length ? fmt(formationPeak, 4) : '—'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
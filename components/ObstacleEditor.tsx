@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { ParameterSlider } from './Controls';
+import { AvoidanceSpec, Obstacle } from '../types';
+import { parseScene, sceneToJSON } from '../simulation/obstacles';
+
+export type ObstacleTool = Obstacle['type'];
+
+interface ObstacleEditorProps {
+  obstacles: Obstacle[];
+  onChange: (obstacles: Obstacle[]) => void;
+  avoidance: AvoidanceSpec;
+  onAvoidanceChange: (avoidance: AvoidanceSpec) => void;
+  tool: ObstacleTool | null; // Shape placed by clicking the canvas, if any
+  draft: number; // Points clicked so far for the shape being placed
+  onToolChange: (tool: ObstacleTool | null) => void;
+  onClosePolygon: () => void;
+}
+
+const TOOLS: { value: ObstacleTool; label: string; hint: string }[] = [
+  { value: 'CIRCLE', label: 'Circle', hint: 'Click the canvas to place circles' },
+  { value: 'WALL', label: 'Wall', hint: 'Click the two ends of each wall' },
+  { value: 'POLYGON', label: 'Polygon', hint: 'Click the corners, then close the polygon' },
+];
+
+// One-line summary of an obstacle for the list
+const describe = (o: Obstacle) => {
+  const p = (q: { x: number; y: number }) => `(${q.x.toFixed(2)}, ${q.y.toFixed(2)})`;
+  if (o.type === 'CIRCLE') return `Circle at ${p(o.center)}`;
+  if (o.type === 'WALL') return `Wall ${p(o.from)}–${p(o.to)}`;
+  return `Polygon, ${o.points.length} corners`;
+};
+
+const inputClass = 'w-14 px-1 py-0.5 border border-slate-200 rounded font-mono';
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded';
+
+export const ObstacleEditor: React.FC<ObstacleEditorProps> = ({
+  obstacles,
+  onChange,
+  avoidance,
+  onAvoidanceChange,
+  tool,
+  draft,
+  onToolChange,
+  onClosePolygon,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Size of a circle (radius) or wall (thickness), the only numbers not placed by clicking
+  const setSize = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value === '' || !Number.isFinite(value) || value <= 0) return;
+    onChange(obstacles.map((o, i) => {
+      if (i !== index) return o;
+      if (o.type === 'CIRCLE') return { ...o, radius: value };
+      if (o.type === 'WALL') return { ...o, thickness: value };
+      return o;
+    }));
+  };
+
+  const save = () => {
+    const url = URL.createObjectURL(new Blob([sceneToJSON(obstacles)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'scene.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseScene(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const setAvoidance = <K extends keyof AvoidanceSpec>(key: K) => (value: AvoidanceSpec[K]) =>
+    onAvoidanceChange({ ...avoidance, [key]: value });
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-1 p-1 bg-slate-100 rounded-lg">
+        {TOOLS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onToolChange(tool === value ? null : value)}
+            className={`py-1.5 text-xs font-medium rounded-md transition-all ${tool === value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {tool && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>{TOOLS.find(t => t.value === tool)!.hint}</span>
+          {tool === 'POLYGON' && (
+            <button onClick={onClosePolygon} disabled={draft < 3} className={`${buttonClass} disabled:opacity-50`}>
+              Close ({draft})
+            </button>
+          )}
+        </div>
+      )}
+
+      {obstacles.length === 0 && <div className="text-xs text-slate-400 italic">No obstacles placed</div>}
+      {obstacles.map((o, i) => (
+        <div key={i} className="flex items-center gap-2 text-xs text-slate-600">
+          <span className="flex-1 font-mono truncate">{describe(o)}</span>
+          {o.type !== 'POLYGON' && (
+            <label className="flex items-center gap-1">
+              {o.type === 'CIRCLE' ? 'r' : 'w'}
+              <input
+                type="number"
+                min={0.01}
+                step={0.01}
+                value={o.type === 'CIRCLE' ? o.radius : o.thickness}
+                onChange={setSize(i)}
+                className={inputClass}
+              />
+              m
+            </label>
+          )}
+          <button onClick={() => onChange(obstacles.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-600" title="Remove">
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 text-xs text-slate-600">
+        {error && <span className="flex-1 text-red-600 truncate" title={error}>{error}</span>}
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => onChange([])} disabled={obstacles.length === 0} className={`${buttonClass} disabled:opacity-50`}>
+            Clear
+          </button>
+          <button onClick={save} className={buttonClass} title="Save the obstacles as a JSON scene">
+            <Download size={12} /> Save
+          </button>
+          <button onClick={() => fileRef.current?.click()} className={buttonClass} title="Load a JSON scene">
+            <Upload size={12} /> Load
+          </button>
+        </div>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-600 pt-1">
+        <input type="checkbox" checked={avoidance.enabled} onChange={e => setAvoidance('enabled')(e.target.checked)} />
+        Potential-field avoidance on the kinematic command
+      </label>
+      {avoidance.enabled && (
+        <>
+          <ParameterSlider label="η" unit="m³/s" value={avoidance.gain} min={0} max={0.02} step={0.0005} digits={4} onChange={setAvoidance('gain')} />
+          <ParameterSlider label="d₀" unit="m" value={avoidance.range} min={0.05} max={1} step={0.05} onChange={setAvoidance('range')} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,50 @@
 import React from 'react';
+import { Play } from 'lucide-react';
+import { ExperimentConfig } from '../simulation/experiment';
+import { EXPERIMENT_PRESETS } from '../simulation/presets';
+import { EquationValues } from '../simulation/equations';
+import { PARAMETER_NAMES } from '../simulation/controller';
 
-export const PaperContent: React.FC = () => {
+interface PaperContentProps {
+  live: EquationValues | null; // Terms of the equations at the latest sample, while the built-in controller runs
+  onRunExperiment: (config: ExperimentConfig) => void;
+  onHighlightParameter: (index: number | null) => void; // Hovering θ̂i highlights its trace
+}
+
+const format = (v: number) => (Number.isFinite(v) ? v.toFixed(3) : '–');
+
+interface TermProps {
+  symbol: string;
+  value: number;
+  unit?: string;
+  onHover?: (hovered: boolean) => void;
+}
+
+const Term: React.FC<TermProps> = ({ symbol, value, unit, onHover }) => (
+  <span
+    onMouseEnter={onHover && (() => onHover(true))}
+    onMouseLeave={onHover && (() => onHover(false))}
+    className={`font-mono bg-white px-1.5 py-0.5 rounded border border-slate-200 text-[11px] text-slate-700 ${onHover ? 'cursor-help hover:border-blue-400 hover:bg-blue-50' : ''}`}
+  >
+    {symbol} = {format(value)}{unit && <span className="text-slate-400"> {unit}</span>}
+  </span>
+);
+
+// The current values under an equation, or a hint while there are none
+const LiveTerms: React.FC<{ live: EquationValues | null; children: React.ReactNode }> = ({ live, children }) => (
+  <div className="mt-3 pt-2 border-t border-slate-200">
+    {live ? (
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[10px] font-bold text-emerald-600 uppercase mr-1">Live, t = {live.time.toFixed(1)} s</span>
+        {children}
+      </div>
+    ) : (
+      <span className="text-[10px] text-slate-400 italic">Run the built-in controller to see the current values</span>
+    )}
+  </div>
+);
+
+export const PaperContent: React.FC<PaperContentProps> = ({ live, onRunExperiment, onHighlightParameter }) => {
   return (
     <div className="h-full overflow-y-auto paper-scroll pr-4 pb-20">
       <div className="mb-8 border-b border-slate-200 pb-6">
@@ -54,11 +98,56 @@ export const PaperContent: React.FC = () => {
         </p>
       </section>
 
+      <section className="mb-8">
+        <h2 className="text-lg font-bold text-slate-800 mb-3 uppercase tracking-wider text-xs">3. Kinematic Controller</h2>
+        <p className="text-slate-700 leading-relaxed mb-4 text-sm">
+          The kinematic controller steers the point <span className="font-mono bg-slate-100 px-1 rounded">h</span>, a distance <span className="font-mono bg-slate-100 px-1 rounded">a</span> ahead of the wheel axle, onto the desired trajectory. The reference velocity is fed forward, and the saturation of the error terms keeps the commands bounded however large the error gets:
+        </p>
+        <div className="bg-slate-100 p-4 rounded mb-4 overflow-x-auto">
+           <code className="text-xs font-mono text-slate-800 block whitespace-pre">
+{`[u_ref]   [ cos ψ     sin ψ  ] [ẋ_d + l_x tanh(k_x/l_x · x̃)]
+[ω_ref] = [-sin ψ/a  cos ψ/a ] [ẏ_d + l_y tanh(k_y/l_y · ỹ)]`}
+           </code>
+           <LiveTerms live={live}>
+             {live && (
+               <>
+                 <Term symbol="x̃" value={live.xTilde} unit="m" />
+                 <Term symbol="ỹ" value={live.yTilde} unit="m" />
+                 <Term symbol="ẋ_d" value={live.dxd} unit="m/s" />
+                 <Term symbol="ẏ_d" value={live.dyd} unit="m/s" />
+                 <Term symbol="l_x tanh(·)" value={live.correctionX} unit="m/s" />
+                 <Term symbol="l_y tanh(·)" value={live.correctionY} unit="m/s" />
+                 <Term symbol="u_ref" value={live.uRef} unit="m/s" />
+                 <Term symbol="ω_ref" value={live.wRef} unit="rad/s" />
+               </>
+             )}
+           </LiveTerms>
+        </div>
+      </section>
+
       <section className="mb-8">
         <h2 className="text-lg font-bold text-slate-800 mb-3 uppercase tracking-wider text-xs">4. The Adaptive Controller</h2>
         <p className="text-slate-700 leading-relaxed mb-4 text-sm">
           The dynamic controller receives reference velocities from the kinematic controller. To reduce performance degradation, on-line parameter adaptation becomes quite important.
         </p>
+        <p className="text-slate-700 leading-relaxed mb-4 text-sm">
+          It compensates for the robot dynamics with the current parameter estimates, driving the velocity errors <span className="font-mono bg-slate-100 px-1 rounded">ũ = u_ref − u</span> and <span className="font-mono bg-slate-100 px-1 rounded">ω̃ = ω_ref − ω</span> to zero:
+        </p>
+        <div className="bg-slate-100 p-4 rounded mb-4 overflow-x-auto">
+           <code className="text-xs font-mono text-slate-800 block">
+             v_r = Gθ̂,  σ₁ = u̇_ref + k_u ũ,  σ₂ = ω̇_ref + k_ω ω̃
+           </code>
+           <LiveTerms live={live}>
+             {live && (
+               <>
+                 <Term symbol="ũ" value={live.uTilde} unit="m/s" />
+                 <Term symbol="ω̃" value={live.wTilde} unit="rad/s" />
+                 <Term symbol="u_r" value={live.uCmd} unit="m/s" />
+                 <Term symbol="ω_r" value={live.wCmd} unit="rad/s" />
+               </>
+             )}
+           </LiveTerms>
+        </div>
         <p className="text-slate-700 leading-relaxed mb-4 text-sm">
           The update law uses <strong>σ-modification</strong> to prevent parameter drift:
         </p>
@@ -66,12 +155,41 @@ export const PaperContent: React.FC = () => {
            <code className="text-xs font-mono text-slate-800 block">
              θ̇ = Γ⁻¹Gᵀṽ - σΓ⁻¹θ
            </code>
+           <LiveTerms live={live}>
+             {live?.thetaHat.map((value, i) => (
+               <Term
+                 key={i}
+                 symbol={PARAMETER_NAMES[i]}
+                 value={value}
+                 onHover={hovered => onHighlightParameter(hovered ? i : null)}
+               />
+             ))}
+           </LiveTerms>
         </div>
         <p className="text-slate-700 leading-relaxed mb-4 text-sm">
           This equation ensures that even if the robot is carrying an unknown load (changing its mass/inertia), the controller estimates the new parameters in real-time to drive the tracking error to zero.
         </p>
       </section>
       
+      <section className="mb-8">
+        <h2 className="text-lg font-bold text-slate-800 mb-3 uppercase tracking-wider text-xs">5. Simulation Results</h2>
+        <p className="text-slate-700 leading-relaxed mb-4 text-sm">
+          The controller was simulated on the circular and figure-eight trajectories, with a load added to and removed from the robot during the run. Each figure can be approximated in the simulation panel:
+        </p>
+        {EXPERIMENT_PRESETS.map(preset => (
+          <div key={preset.id} className="border border-slate-200 rounded p-3 mb-3">
+            <div className="text-sm font-bold text-slate-800">{preset.name}</div>
+            <p className="text-xs text-slate-600 mt-1 mb-2">{preset.description}</p>
+            <button
+              onClick={() => onRunExperiment(preset.config)}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs flex items-center gap-1"
+            >
+              <Play size={12} /> Run this experiment
+            </button>
+          </div>
+        ))}
+      </section>
+
       <section className="mb-20">
          <h2 className="text-lg font-bold text-slate-800 mb-3 uppercase tracking-wider text-xs">6. Conclusion</h2>
          <p className="text-slate-700 leading-relaxed text-sm">
@@ -0,0 +1,60 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Recording, parseRecording, recordingToCSV, recordingToJSON } from '../simulation/recording';
+
+interface RecordingControlsProps {
+  getRecording: () => Recording; // Built on demand, so exports include every sample so far
+  canExport: boolean; // False before the first sample, as a recording without samples cannot be loaded back
+  onImport: (recording: Recording) => void;
+}
+
+const download = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const buttonClass = 'flex items-center gap-1 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-medium transition-colors';
+
+export const RecordingControls: React.FC<RecordingControlsProps> = ({ getRecording, canExport, onImport }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const recording = getRecording();
+    const stamp = recording.createdAt.replace(/[:.]/g, '-');
+    if (format === 'csv') download(`run-${stamp}.csv`, recordingToCSV(recording), 'text/csv');
+    else download(`run-${stamp}.json`, recordingToJSON(recording), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseRecording(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-600 max-w-48 truncate" title={error}>{error}</span>}
+      <button onClick={() => exportAs('csv')} disabled={!canExport} className={`${buttonClass} disabled:opacity-50`} title="Export all samples as CSV">
+        <Download size={14} /> CSV
+      </button>
+      <button onClick={() => exportAs('json')} disabled={!canExport} className={`${buttonClass} disabled:opacity-50`} title="Export all samples as JSON (re-importable)">
+        <Download size={14} /> JSON
+      </button>
+      <button onClick={() => fileRef.current?.click()} className={buttonClass} title="Load a JSON recording for playback">
+        <Upload size={14} /> Load
+      </button>
+      <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+    </div>
+  );
+};
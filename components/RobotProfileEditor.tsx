@@ -0,0 +1,75 @@
+import React from 'react';
+import { DEFAULT_PLANT } from '../constants';
+import { DriveSpec, PlantSpec } from '../types';
+
+interface RobotProfileEditorProps {
+  plant: PlantSpec;
+  onChange: (plant: PlantSpec) => void;
+}
+
+const PROFILES: { value: PlantSpec['profile']; label: string }[] = [
+  { value: 'PIONEER_3DX', label: 'Pioneer 3-DX' },
+  { value: 'CUSTOM', label: 'Custom robot' },
+];
+
+// Drive settings, with units
+const FIELDS: { key: keyof DriveSpec; label: string; unit: string; step: number }[] = [
+  { key: 'wheelRadius', label: 'r', unit: 'm', step: 0.005 },
+  { key: 'trackWidth', label: 'b', unit: 'm', step: 0.01 },
+  { key: 'maxWheelSpeed', label: 'φ̇ max', unit: 'rad/s', step: 0.5 },
+  { key: 'maxWheelAccel', label: 'φ̈ max', unit: 'rad/s²', step: 1 },
+  { key: 'stallTorque', label: 'τ stall', unit: 'N·m', step: 0.5 },
+  { key: 'noLoadSpeed', label: 'φ̇ no-load', unit: 'rad/s', step: 0.5 },
+  { key: 'longitudinalSlip', label: 'slip ∥', unit: 's²/m', step: 0.01 },
+  { key: 'lateralSlip', label: 'slip ⊥', unit: 's', step: 0.01 },
+];
+
+const inputClass = 'w-16 px-1 py-0.5 border border-slate-200 rounded font-mono';
+
+export const RobotProfileEditor: React.FC<RobotProfileEditorProps> = ({ plant, onChange }) => {
+  // The 3-DX brings back its own drive and mass; any edit makes the robot a custom one
+  const selectProfile = (profile: PlantSpec['profile']) =>
+    onChange(profile === 'PIONEER_3DX' ? { ...DEFAULT_PLANT, theta: [...DEFAULT_PLANT.theta] } : { ...plant, profile });
+
+  // Slip may be zero; sizes, limits and mass may not
+  const setNumber = (update: (value: number) => Partial<PlantSpec>, allowZero = false) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value === '' || !Number.isFinite(value) || value < 0 || (value === 0 && !allowZero)) return;
+    onChange({ ...plant, ...update(value), profile: 'CUSTOM' });
+  };
+
+  return (
+    <div className="space-y-2 text-xs text-slate-600">
+      <select
+        value={plant.profile}
+        onChange={e => selectProfile(e.target.value as PlantSpec['profile'])}
+        className="w-full px-2 py-1.5 bg-slate-100 rounded"
+      >
+        {PROFILES.map(p => (
+          <option key={p.value} value={p.value}>{p.label}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+        {FIELDS.map(({ key, label, unit, step }) => (
+          <label key={key} className="flex items-center gap-1">
+            <span className="flex-1 font-mono">{label}</span>
+            <input
+              type="number"
+              min={0}
+              step={step}
+              value={plant.drive[key]}
+              onChange={setNumber(value => ({ drive: { ...plant.drive, [key]: value } }), key.endsWith('Slip'))}
+              className={inputClass}
+            />
+            <span className="w-10 text-slate-400">{unit}</span>
+          </label>
+        ))}
+        <label className="flex items-center gap-1">
+          <span className="flex-1 font-mono">mass</span>
+          <input type="number" min={1} step={0.5} value={plant.mass} onChange={setNumber(mass => ({ mass }))} className={inputClass} />
+          <span className="w-10 text-slate-400">kg</span>
+        </label>
+      </div>
+    </div>
+  );
+};
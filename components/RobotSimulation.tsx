@@ -1,220 +1,371 @@
-import React, { useEffect, useRef } from 'react';
-import { SIM_CONSTANTS, TrajectoryType, COLORS } from '../constants';
-import { ControlConfig, SimulationState } from '../types';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Home, LocateFixed, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { SIM_CONSTANTS, COLORS, SENSOR_CONSTANTS, CAMERA_CONSTANTS, WORKSPACE_CONSTANTS } from '../constants';
+import { ControlConfig, DriveSpec, HistorySample, Obstacle, Point, Pose, PoseEstimate, RunVariant, SensorSpec, TrajectorySpec } from '../types';
+import { activeVariants } from '../simulation/comparison';
+import { WheelSpeeds, wheelSpeeds } from '../simulation/drive';
+import { VelocityState } from '../simulation/dynamics';
+import { ControllerStatus, LiveFrame, LiveSimulation } from '../simulation/live';
+import { RobotFrame } from '../simulation/live.worker';
+import { infeasibleSegments } from '../simulation/obstacles';
+import { Recording, sampleIndexAt } from '../simulation/recording';
+import { createTrajectory, samplePath } from '../simulation/trajectory';
 
 interface RobotSimulationProps {
   config: ControlConfig;
-  onUpdate: (data: SimulationState['history'][0]) => void;
+  playback?: { recording: Recording; time: number } | null; // Draw a recording instead of the live runs
+  onUpdate: (samples: Record<string, HistorySample[]>) => void; // New samples per run, batched
+  onFrame?: (robots: RobotFrame[]) => void; // Live robot states, as often as the worker reports them
+  onControllerStatus?: (status: ControllerStatus) => void; // Custom control code went in or out of the loop
+  onReset?: () => void; // The runs restarted from t = 0
+  onCanvasClick?: (p: Point) => void; // World coordinates [m]
+  onInitialPoseChange?: (pose: Pose) => void; // The robot was dragged to a new start while paused
+  draft?: Point[]; // Points of an obstacle being placed
 }
 
-export const RobotSimulation: React.FC<RobotSimulationProps> = ({ config, onUpdate }) => {
+/**
+ * Imperative control of the live runs, for the page around the canvas.
+ * Playing and pausing otherwise follow `config.isPlaying`.
+ */
+export interface SimulationController {
+  reset(): void; // Restart from t = 0 with the config of the next render, so it may follow a config change
+  pause(): void; // Stop the runs at once, e.g. before freezing what has been recorded
+  step(steps: number): void; // Pause and advance by whole physics steps
+  seek(time: number): void; // Rerun from t = 0 to `time` with the current settings, replacing the samples
+  setInitialPose(pose: Pose): void; // Restart from `pose` at once (the config's start pose is left as is)
+  setExternalCommand(command: VelocityState | null): void; // Drive the first robot from outside, or null for its own controllers
+  setController(code: string | null): void; // Hot-swap every robot's control law for compiled user code, or null for the built-in one
+}
+
+interface CanvasRun {
+  variant: RunVariant;
+  trail: Point[];
+}
+
+// Everything drawn on the canvas at one instant, from live engines or a recording
+interface CanvasFrame {
+  robots: { variant: RunVariant; pose: Pose; estimate: PoseEstimate | null; trail: Point[]; reference: Point; colliding: boolean; wheels: WheelSpeeds }[];
+  reference: Point;
+  refTrail: Point[];
+  trajectory: TrajectorySpec;
+  obstacles: Obstacle[];
+  a: number; // Control point offset
+  drive: DriveSpec;
+}
+
+// What the canvas looks at: the world point at its centre, and the zoom over SIM_CONSTANTS.SCALE
+interface Camera {
+  center: Point;
+  zoom: number;
+}
+
+// MANUAL: wherever the user panned and zoomed; FOLLOW: centred on the first robot;
+// FIT: framing the path, the obstacles and the robots
+type CameraMode = 'MANUAL' | 'FOLLOW' | 'FIT';
+
+const HOME_CAMERA: Camera = { center: { x: 0, y: 0 }, zoom: 1 };
+
+// World-to-canvas mapping: a point (x, y) [m] is drawn at (cx + x·s, cy − y·s) [CSS px]
+interface View {
+  cx: number;
+  cy: number;
+  s: number; // Pixels per meter
+}
+
+const clampZoom = (zoom: number) => Math.max(CAMERA_CONSTANTS.MIN_ZOOM, Math.min(zoom, CAMERA_CONSTANTS.MAX_ZOOM));
+
+// Pixels per meter at `zoom`, so that a resized canvas keeps showing the same area
+const pixelsPerMeter = (zoom: number, width: number) => zoom * SIM_CONSTANTS.SCALE * (width / SIM_CONSTANTS.CANVAS_WIDTH);
+
+const viewOf = ({ center, zoom }: Camera, width: number, height: number): View => {
+  const s = pixelsPerMeter(zoom, width);
+  return { cx: width / 2 - center.x * s, cy: height / 2 + center.y * s, s };
+};
+
+// Grid spacing [m]: the smallest 1, 2 or 5 × 10ⁿ at least GRID_SPACING pixels apart
+const gridStep = (s: number) => {
+  const min = CAMERA_CONSTANTS.GRID_SPACING / s;
+  const decade = 10 ** Math.floor(Math.log10(min));
+  return [1, 2, 5, 10].map(m => m * decade).find(step => step >= min)!;
+};
+
+// Camera showing all of `points` with a margin, or null when there are none
+const fitCamera = (points: Point[], width: number, height: number): Camera | null => {
+  if (points.length === 0) return null;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const margin = 1 + 2 * CAMERA_CONSTANTS.FIT_MARGIN;
+  // Pixels per meter that fit each extent, as a zoom (a single point keeps the zoom at 1)
+  const fits = [width / ((maxX - minX) * margin), height / ((maxY - minY) * margin)].filter(Number.isFinite);
+  const zoom = fits.length ? Math.min(...fits) / pixelsPerMeter(1, width) : 1;
+  return { center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, zoom: clampZoom(zoom) };
+};
+
+// Extent of an obstacle, as a few points
+const obstacleExtent = (o: Obstacle): Point[] => {
+  if (o.type === 'CIRCLE') return [{ x: o.center.x - o.radius, y: o.center.y - o.radius }, { x: o.center.x + o.radius, y: o.center.y + o.radius }];
+  if (o.type === 'WALL') return [o.from, o.to];
+  return o.points;
+};
+
+// Canvas position of the handle that turns a robot's start heading
+const headingHandle = (pose: Pose, { cx, cy, s }: View): Point => ({
+  x: cx + pose.x * s + CAMERA_CONSTANTS.HEADING_HANDLE * Math.cos(pose.theta),
+  y: cy - pose.y * s - CAMERA_CONSTANTS.HEADING_HANDLE * Math.sin(pose.theta),
+});
+
+// The estimated pose is only worth drawing when it can differ from the true one
+const showsEstimate = (sensors: SensorSpec) =>
+  sensors.estimator !== 'DIRECT' || sensors.poseNoise > 0 || sensors.headingNoise > 0;
+
+const recordedFrame = ({ spec, runs }: Recording, time: number): CanvasFrame => {
+  const robots = runs.map(({ variant, samples }) => {
+    const i = sampleIndexAt(samples, time);
+    const trail = samples.slice(Math.max(0, i - SIM_CONSTANTS.TRAIL_LENGTH + 1), i + 1);
+    const s = samples[i];
+    const estimate: PoseEstimate = {
+      x: s.estX,
+      y: s.estY,
+      theta: s.estHeading,
+      covariance: spec.sensors.estimator === 'EKF' ? [s.estVarX, s.estCovXY, s.estVarY] : null,
+    };
+    return {
+      variant,
+      pose: { x: s.x, y: s.y, theta: s.heading },
+      estimate: showsEstimate(spec.sensors) ? estimate : null,
+      trail,
+      reference: { x: s.refX, y: s.refY },
+      colliding: s.collision > 0,
+      wheels: wheelSpeeds(s, spec.plant.drive),
+    };
+  });
+  const first = runs[0].samples;
+  const i = sampleIndexAt(first, time);
+  return {
+    robots,
+    reference: { x: first[i].refX, y: first[i].refY },
+    refTrail: first.slice(Math.max(0, i - SIM_CONSTANTS.TRAIL_LENGTH + 1), i + 1).map(s => ({ x: s.refX, y: s.refY })),
+    trajectory: spec.trajectory,
+    obstacles: spec.obstacles,
+    a: spec.kinematic.a,
+    drive: spec.plant.drive,
+  };
+};
+
+export const RobotSimulation = forwardRef<SimulationController, RobotSimulationProps>(({
+  config,
+  playback,
+  onUpdate,
+  onFrame,
+  onControllerStatus,
+  onReset,
+  onCanvasClick,
+  onInitialPoseChange,
+  draft,
+}, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   
-  // Simulation State Refs (Mutable for loop performance)
-  const timeRef = useRef(0);
-  const robotRef = useRef({ x: 0, y: 0, theta: 0, v: 0, w: 0 });
-  const adaptiveParamsRef = useRef({ thetaM: 1.0, thetaI: 1.0 }); // Estimated Mass/Inertia factors
-  const trailRef = useRef<{x: number, y: number}[]>([]);
+  // The runs themselves live in a worker; the canvas keeps the latest robot
+  // states it reported and builds the trails from the samples
+  const simRef = useRef<LiveSimulation | null>(null);
+  const createRuns = (): CanvasRun[] => activeVariants(config).map(variant => ({ variant, trail: [] }));
+  const runsRef = useRef<CanvasRun[] | null>(null);
+  if (!runsRef.current) runsRef.current = createRuns();
+  const robotsRef = useRef<RobotFrame[] | null>(null);
   const refTrailRef = useRef<{x: number, y: number}[]>([]);
-
-  // Reset simulation when trajectory changes
-  useEffect(() => {
-    timeRef.current = 0;
-    robotRef.current = { x: 0.2, y: 0, theta: 0, v: 0, w: 0 };
-    adaptiveParamsRef.current = { thetaM: 1.0, thetaI: 1.0 };
-    trailRef.current = [];
-    refTrailRef.current = [];
-  }, [config.trajectory]);
-
-  const getReferencePoint = (t: number): { x: number; y: number; dx: number; dy: number } => {
-    const speed = 0.5; // rad/s
-    
-    if (config.trajectory === TrajectoryType.CIRCLE) {
-      const R = 0.8;
-      return {
-        x: R * Math.cos(t * speed),
-        y: R * Math.sin(t * speed),
-        dx: -R * speed * Math.sin(t * speed),
-        dy: R * speed * Math.cos(t * speed),
-      };
-    } else {
-      // Figure 8 (Lemniscate)
-      const a = 1.0;
-      const sint = Math.sin(t * speed);
-      const cost = Math.cos(t * speed);
-      const den = 1 + sint * sint;
-      return {
-        x: (a * cost) / den,
-        y: (a * cost * sint) / den,
-        dx: (-a * sint * (3 + sint * sint)) / (den * den) * speed, // approx derivative for viz
-        dy: (a * (1 - 3 * sint * sint)) / (den * den) * speed
-      };
+  // Samples not yet handed to the charts, flushed every CHART_PERIOD
+  const pendingRef = useRef<Record<string, HistorySample[]>>({});
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  const onControllerStatusRef = useRef(onControllerStatus);
+  onControllerStatusRef.current = onControllerStatus;
+  const onResetRef = useRef(onReset);
+  onResetRef.current = onReset;
+  const [error, setError] = useState<string | null>(null);
+  // Requested resets; each one reruns the reset effect after the render that follows it
+  const [resets, setResets] = useState(0);
+  // The draw loop is started once and reads the config through this ref
+  const configRef = useRef(config);
+  configRef.current = config;
+  const playbackRef = useRef(playback);
+  playbackRef.current = playback;
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+
+  // Camera, read by the draw loop every frame; the mode is also state for the buttons
+  const cameraRef = useRef<Camera>({ ...HOME_CAMERA });
+  const [cameraMode, setCameraMode] = useState<CameraMode>('MANUAL');
+  const cameraModeRef = useRef(cameraMode);
+  cameraModeRef.current = cameraMode;
+  // Canvas size in CSS pixels; the backing store is larger by devicePixelRatio
+  const sizeRef = useRef({ width: SIM_CONSTANTS.CANVAS_WIDTH, height: SIM_CONSTANTS.CANVAS_HEIGHT });
+  // Pointer pressed on the canvas: where, the camera centre then, and whether it has become a pan;
+  // or the robot (body or heading handle) grabbed to place its start, with the pose it is given
+  const dragRef = useRef<{ x: number; y: number; center: Point; panning: boolean } | null>(null);
+  const placeRef = useRef<{ part: 'BODY' | 'HEADING'; grab: Point; pose: Pose } | null>(null);
+
+  // Path of the reference, for framing it; recomputed only when the trajectory changes
+  const pathRef = useRef<{ trajectory: TrajectorySpec; points: Point[] } | null>(null);
+  const pathFor = (trajectory: TrajectorySpec) => {
+    if (pathRef.current?.trajectory !== trajectory) {
+      const { FEASIBILITY_HORIZON, FEASIBILITY_STEP } = WORKSPACE_CONSTANTS;
+      pathRef.current = { trajectory, points: samplePath(createTrajectory(trajectory), FEASIBILITY_HORIZON, FEASIBILITY_STEP) };
     }
+    return pathRef.current.points;
   };
 
-  const updatePhysics = () => {
-    if (!config.isPlaying) return;
-
-    const dt = 1 / SIM_CONSTANTS.FPS;
-    timeRef.current += dt;
-    const t = timeRef.current;
-
-    // 1. Get Desired State (Global Coordinates)
-    const ref = getReferencePoint(t);
-    const refX = ref.x;
-    const refY = ref.y;
-
-    // 2. Kinematic Controller Layer
-    // The paper uses a transformation to Local Robot Frame (Eq 4).
-    // dx_local = cos(theta)*(dx) + sin(theta)*(dy)
-    
-    const dx_global = refX - robotRef.current.x;
-    const dy_global = refY - robotRef.current.y;
-    
-    // Distance Error for visualization
-    const distError = Math.sqrt(dx_global * dx_global + dy_global * dy_global);
-
-    // Simplified Kinematic Control Law for visualization stability:
-    // Ideally this implements Eq 4: u_ref = x_dot_d + lx * tanh(kx * error_local_x) ...
-    const kv = 2.0;
-    const kw = 4.0;
-    const targetTheta = Math.atan2(dy_global, dx_global);
-    let angleDiff = targetTheta - robotRef.current.theta;
-    
-    // Normalize angle [-PI, PI]
-    while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
-    while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
-
-    let cmdV = kv * distError;
-    let cmdW = kw * angleDiff;
-
-    // Limit command velocities (saturation)
-    if (cmdV > 1.0) cmdV = 1.0; 
-
-    // 3. Dynamic & Adaptive Layer (Eq 7 & 17 in Paper)
-    // Controller Type: Adaptive Feedback Linearization with σ-modification
-    
-    // "Real" physics parameters (Unknown to controller initially)
-    const baseMass = 1.0;
-    const loadMass = config.hasLoad ? 2.5 : 0.0; // Adding load increases inertia/mass
-    const realMass = baseMass + loadMass;
-    
-    // "Estimated" parameters (Updated by Adaptive Law)
-    let { thetaM } = adaptiveParamsRef.current; 
-
-    // Adaptation Law (Sigma-Modification - Eq 17)
-    // theta_dot = Gamma * Error - sigma * theta
-    // This prevents parameter drift (bursting) in the presence of noise/skid.
-    if (config.isAdaptive) {
-        const gamma = 0.5; // Adaptation gain
-        const sigma = 0.01; // Leakage term
-        
-        // Simplified error driving term for visualization:
-        // In the paper, 'v_tilde' (velocity error) drives adaptation.
-        // Here we map position error to velocity effort mismatch.
-        const adaptationError = (distError > 0.05) ? (realMass - thetaM) : 0;
-        
-        // Update estimated parameter
-        adaptiveParamsRef.current.thetaM += dt * (gamma * adaptationError - sigma * thetaM); 
-    } else {
-        // Without adaptation, parameters are static (and wrong if load exists)
-        adaptiveParamsRef.current.thetaM = 1.0; 
-    }
+  // Infeasible stretches of the reference, recomputed only when the trajectory or obstacles change
+  const feasibilityRef = useRef<{ trajectory: TrajectorySpec; obstacles: Obstacle[]; segments: Point[][] } | null>(null);
+  const infeasibleFor = (trajectory: TrajectorySpec, obstacles: Obstacle[]) => {
+    const cached = feasibilityRef.current;
+    if (cached?.trajectory === trajectory && cached.obstacles === obstacles) return cached.segments;
+    const segments = infeasibleSegments(createTrajectory(trajectory), obstacles);
+    feasibilityRef.current = { trajectory, obstacles, segments };
+    return segments;
+  };
 
-    // Apply Dynamics (Plant Model)
-    // Modeled as: Acceleration = Force / Mass
-    // The controller sends 'Force' based on Estimated Mass (thetaM)
-    // The Robot responds based on Real Mass.
-    
-    // Efficiency factor simulating the lag/slip caused by parameter mismatch
-    // If Controller estimates 1kg but Robot is 3kg, it under-powers actuators -> Tracking Error.
-    const dynamicsFactor = adaptiveParamsRef.current.thetaM / realMass;
-    
-    // Skidding is treated as unmodeled disturbance reducing efficiency further
-    const skidFactor = 1.0; 
-
-    const actualV = cmdV * dynamicsFactor * skidFactor;
-    const actualW = cmdW * dynamicsFactor * skidFactor;
-
-    // Update Position (Euler integration)
-    robotRef.current.x += actualV * Math.cos(robotRef.current.theta) * dt;
-    robotRef.current.y += actualV * Math.sin(robotRef.current.theta) * dt;
-    robotRef.current.theta += actualW * dt;
-
-    // Update Trails
-    if (timeRef.current % 0.1 < dt) {
-        trailRef.current.push({ x: robotRef.current.x, y: robotRef.current.y });
-        refTrailRef.current.push({ x: refX, y: refY });
-        
-        if (trailRef.current.length > SIM_CONSTANTS.TRAIL_LENGTH) trailRef.current.shift();
-        if (refTrailRef.current.length > SIM_CONSTANTS.TRAIL_LENGTH) refTrailRef.current.shift();
-
-        onUpdate({
-            time: Number(t.toFixed(1)),
-            error: distError,
-            theta1: adaptiveParamsRef.current.thetaM,
-            theta2: adaptiveParamsRef.current.thetaI
+  const liveFrame = (): CanvasFrame | null => {
+    const config = configRef.current;
+    const states = robotsRef.current;
+    if (!states) return null;
+    const robots = runsRef.current!.map(({ variant, trail }, i) => ({
+        variant,
+        pose: states[i].robot,
+        estimate: showsEstimate(config.sensors) ? states[i].estimate : null,
+        trail,
+        reference: states[i].reference,
+        colliding: states[i].colliding,
+        wheels: wheelSpeeds({ u: states[i].robot.linearVel, w: states[i].robot.angularVel }, config.plant.drive),
+    }));
+    return {
+        robots,
+        reference: robots[0].reference,
+        refTrail: refTrailRef.current,
+        trajectory: config.trajectory,
+        obstacles: config.obstacles,
+        a: config.kinematic.a,
+        drive: config.plant.drive,
+    };
+  };
+
+  const currentFrame = () => (playbackRef.current ? recordedFrame(playbackRef.current.recording, playbackRef.current.time) : liveFrame());
+
+  // Trails follow the samples as they arrive (the reference is shared, so take it from the first run)
+  const receiveFrame = ({ robots, samples }: LiveFrame) => {
+    robotsRef.current = robots;
+    onFrameRef.current?.(robots);
+    runsRef.current!.forEach((run, i) => {
+        samples[i].forEach(sample => {
+            run.trail.push({ x: sample.x, y: sample.y });
+            if (run.trail.length > SIM_CONSTANTS.TRAIL_LENGTH) run.trail.shift();
+            if (i === 0) {
+                refTrailRef.current.push({ x: sample.refX, y: sample.refY });
+                if (refTrailRef.current.length > SIM_CONSTANTS.TRAIL_LENGTH) refTrailRef.current.shift();
+            }
         });
-    }
+        if (samples[i].length > 0) (pendingRef.current[run.variant.id] ??= []).push(...samples[i]);
+    });
   };
 
-  const draw = (ctx: CanvasRenderingContext2D) => {
-    const { width, height } = ctx.canvas;
-    const cx = width / 2;
-    const cy = height / 2;
-    const s = SIM_CONSTANTS.SCALE;
+  const flushSamples = () => {
+    if (Object.keys(pendingRef.current).length === 0) return;
+    onUpdateRef.current(pendingRef.current);
+    pendingRef.current = {};
+  };
 
-    ctx.clearRect(0, 0, width, height);
-    
-    // Grid
-    ctx.strokeStyle = COLORS.grid;
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    for(let i=-5; i<=5; i++) {
-        ctx.moveTo(0, cy + i*s*0.5); ctx.lineTo(width, cy + i*s*0.5);
-        ctx.moveTo(cx + i*s*0.5, 0); ctx.lineTo(cx + i*s*0.5, height);
-    }
-    ctx.stroke();
+  useEffect(() => () => {
+    simRef.current?.dispose();
+    simRef.current = null;
+  }, []);
 
-    // Reference Trail
-    ctx.strokeStyle = COLORS.trailRef;
-    ctx.lineWidth = 2;
-    ctx.setLineDash([5, 5]);
-    ctx.beginPath();
-    refTrailRef.current.forEach((p, i) => {
-        const px = cx + p.x * s;
-        const py = cy - p.y * s;
-        if (i===0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
-    });
-    ctx.stroke();
-    ctx.setLineDash([]);
+  // Forgets what the canvas has drawn of the current runs
+  const clearRuns = () => {
+    runsRef.current = createRuns();
+    robotsRef.current = null;
+    refTrailRef.current = [];
+    pendingRef.current = {};
+    setError(null);
+  };
 
-    // Actual Trail
-    ctx.strokeStyle = COLORS.trailReal;
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    trailRef.current.forEach((p, i) => {
-        const px = cx + p.x * s;
-        const py = cy - p.y * s;
-        if (i===0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+  // Reset simulation when trajectory, start pose or the set of runs (comparison, formation) changes, or on request
+  useEffect(() => {
+    clearRuns();
+    onReset?.();
+    if (simRef.current) simRef.current.reset(config);
+    else simRef.current = new LiveSimulation(config, {
+      onFrame: receiveFrame,
+      onError: setError,
+      onController: status => onControllerStatusRef.current?.(status),
+      // A worker stuck in user code was replaced, and its runs with it
+      onRestart: () => {
+        clearRuns();
+        onResetRef.current?.();
+      },
     });
-    ctx.stroke();
+  }, [config.trajectory, config.initialPose, config.runMode, config.formation, resets]);
+
+  useImperativeHandle(ref, () => ({
+    reset: () => setResets(n => n + 1),
+    pause: () => simRef.current?.pause(),
+    step: steps => simRef.current?.step(steps),
+    seek: time => {
+      clearRuns();
+      onReset?.();
+      simRef.current?.seek(configRef.current, time);
+    },
+    setInitialPose: pose => {
+      clearRuns();
+      onReset?.();
+      simRef.current?.reset({ ...configRef.current, initialPose: pose });
+    },
+    setExternalCommand: command => simRef.current?.setExternalCommand(command),
+    setController: code => simRef.current?.setController(code),
+  }));
+
+  // The start pose can be dragged while the live runs are paused
+  const placeable = !!onInitialPoseChange && !config.isPlaying && !playback;
+  const placeableRef = useRef(placeable);
+  placeableRef.current = placeable;
+
+  // Load changes, adaptation toggles and the time scale apply mid-run
+  useEffect(() => {
+    simRef.current!.configure(config);
+  }, [config]);
+
+  // The worker only runs while the live simulation is shown and playing
+  const running = config.isPlaying && !playback;
+  useEffect(() => {
+    if (running) simRef.current!.start();
+    else simRef.current!.pause();
+  }, [running]);
 
-    // Draw Robot
-    const rx = cx + robotRef.current.x * s;
-    const ry = cy - robotRef.current.y * s;
-    const rt = -robotRef.current.theta;
+  const drawRobot = (ctx: CanvasRenderingContext2D, robot: Pose, color: string, a: number, colliding: boolean, cx: number, cy: number, s: number) => {
+    const rx = cx + robot.x * s;
+    const ry = cy - robot.y * s;
+    const rt = -robot.theta;
 
+    // The body is drawn in pixels at zoom 1 and scaled with the view
     ctx.save();
     ctx.translate(rx, ry);
     ctx.rotate(rt);
+    ctx.scale(s / SIM_CONSTANTS.SCALE, s / SIM_CONSTANTS.SCALE);
 
-    ctx.fillStyle = COLORS.robot;
+    ctx.fillStyle = color;
     ctx.beginPath();
     ctx.arc(0, 0, SIM_CONSTANTS.ROBOT_RADIUS, 0, Math.PI * 2);
     ctx.fill();
 
+    // Footprint overlapping an obstacle
+    if (colliding) {
+        ctx.strokeStyle = COLORS.danger;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+    }
+
     ctx.strokeStyle = 'white';
     ctx.lineWidth = 2;
     ctx.beginPath();
@@ -226,15 +377,235 @@ export const RobotSimulation: React.FC<RobotSimulationProps> = ({ config, onUpda
     ctx.fillRect(-5, -SIM_CONSTANTS.ROBOT_RADIUS - 4, 10, 4);
     ctx.fillRect(-5, SIM_CONSTANTS.ROBOT_RADIUS, 10, 4);
 
+    // Control point h, offset a ahead of the axle (the point that tracks the reference)
+    ctx.fillStyle = COLORS.secondary;
+    ctx.beginPath();
+    ctx.arc(a * SIM_CONSTANTS.SCALE, 0, 3, 0, Math.PI * 2);
+    ctx.fill();
+
     ctx.restore();
+  };
+
+  // Estimated pose as an outline, with its position covariance ellipse when the EKF provides one
+  const drawEstimate = (ctx: CanvasRenderingContext2D, estimate: PoseEstimate, color: string, cx: number, cy: number, s: number) => {
+    const ex = cx + estimate.x * s;
+    const ey = cy - estimate.y * s;
+    const r = WORKSPACE_CONSTANTS.FOOTPRINT_RADIUS * s;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([3, 3]);
+    ctx.beginPath();
+    ctx.arc(ex, ey, r, 0, Math.PI * 2);
+    ctx.moveTo(ex, ey);
+    ctx.lineTo(ex + r * Math.cos(estimate.theta), ey - r * Math.sin(estimate.theta));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    if (!estimate.covariance) return;
+    // Principal axes of the 2×2 covariance
+    const [xx, xy, yy] = estimate.covariance;
+    const mean = (xx + yy) / 2;
+    const spread = Math.sqrt(((xx - yy) / 2) ** 2 + xy * xy);
+    const k = s * SENSOR_CONSTANTS.ELLIPSE_SIGMAS;
+    ctx.fillStyle = `${color}22`;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.ellipse(
+        ex,
+        ey,
+        k * Math.sqrt(mean + spread),
+        k * Math.sqrt(Math.max(mean - spread, 0)),
+        -Math.atan2(2 * xy, xx - yy) / 2,
+        0,
+        Math.PI * 2,
+    );
+    ctx.fill();
+    ctx.stroke();
+  };
+
+  // Moves the camera for the follow and fit modes
+  const updateCamera = (frame: CanvasFrame) => {
+    const { width, height } = sizeRef.current;
+    if (cameraModeRef.current === 'FOLLOW') {
+        const { x, y } = frame.robots[0].pose;
+        cameraRef.current = { ...cameraRef.current, center: { x, y } };
+    } else if (cameraModeRef.current === 'FIT') {
+        const points = [
+            ...pathFor(frame.trajectory),
+            ...frame.obstacles.flatMap(obstacleExtent),
+            ...frame.robots.map(r => r.pose),
+        ];
+        cameraRef.current = fitCamera(points, width, height) ?? cameraRef.current;
+    }
+  };
+
+  // Grid lines every `step` meters, with the axes darker and tick labels along them
+  const drawGrid = (ctx: CanvasRenderingContext2D, { cx, cy, s }: View, width: number, height: number) => {
+    const step = gridStep(s);
+    const digits = Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let i = Math.ceil(-cx / s / step); i * step <= (width - cx) / s; i++) xs.push(i);
+    for (let i = Math.ceil((cy - height) / s / step); i * step <= cy / s; i++) ys.push(i);
+
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = COLORS.grid;
+    ctx.beginPath();
+    xs.forEach(i => { ctx.moveTo(cx + i * step * s, 0); ctx.lineTo(cx + i * step * s, height); });
+    ys.forEach(i => { ctx.moveTo(0, cy - i * step * s); ctx.lineTo(width, cy - i * step * s); });
+    ctx.stroke();
+
+    ctx.strokeStyle = COLORS.axis;
+    ctx.beginPath();
+    ctx.moveTo(cx, 0); ctx.lineTo(cx, height);
+    ctx.moveTo(0, cy); ctx.lineTo(width, cy);
+    ctx.stroke();
+
+    // Labels follow the axes, kept on screen (and clear of the overlays) when an axis is not
+    const labelY = Math.max(60, Math.min(cy - 4, height - 36));
+    const labelX = Math.max(4, Math.min(cx + 4, width - 40));
+    ctx.fillStyle = COLORS.axis;
+    ctx.font = '10px monospace';
+    xs.forEach(i => { if (i !== 0) ctx.fillText((i * step).toFixed(digits), cx + i * step * s + 2, labelY); });
+    ys.forEach(i => { if (i !== 0) ctx.fillText((i * step).toFixed(digits), labelX, cy - i * step * s - 2); });
+    ctx.fillText('0 m', labelX, labelY);
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, frame: CanvasFrame) => {
+    const { width, height } = sizeRef.current;
+    const dpr = ctx.canvas.width / width;
+    const view = viewOf(cameraRef.current, width, height);
+    const { cx, cy, s } = view;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    drawGrid(ctx, view, width, height);
+
+    // Obstacles
+    ctx.fillStyle = COLORS.obstacle;
+    ctx.strokeStyle = COLORS.obstacle;
+    frame.obstacles.forEach(o => {
+        ctx.beginPath();
+        if (o.type === 'CIRCLE') {
+            ctx.arc(cx + o.center.x * s, cy - o.center.y * s, o.radius * s, 0, Math.PI * 2);
+            ctx.fill();
+        } else if (o.type === 'WALL') {
+            ctx.lineWidth = o.thickness * s;
+            ctx.lineCap = 'round';
+            ctx.moveTo(cx + o.from.x * s, cy - o.from.y * s);
+            ctx.lineTo(cx + o.to.x * s, cy - o.to.y * s);
+            ctx.stroke();
+            ctx.lineCap = 'butt';
+        } else {
+            o.points.forEach((p, i) => (i === 0 ? ctx.moveTo(cx + p.x * s, cy - p.y * s) : ctx.lineTo(cx + p.x * s, cy - p.y * s)));
+            ctx.closePath();
+            ctx.fill();
+        }
+    });
+
+    // Stretches of the reference a robot could not follow without touching an obstacle
+    ctx.strokeStyle = COLORS.danger;
+    ctx.lineWidth = 4;
+    infeasibleFor(frame.trajectory, frame.obstacles).forEach(segment => {
+        ctx.beginPath();
+        segment.forEach((p, i) => (i === 0 ? ctx.moveTo(cx + p.x * s, cy - p.y * s) : ctx.lineTo(cx + p.x * s, cy - p.y * s)));
+        ctx.stroke();
+    });
+
+    // Corners of an obstacle being placed
+    const pending = draftRef.current ?? [];
+    if (pending.length > 0) {
+        ctx.strokeStyle = COLORS.obstacle;
+        ctx.fillStyle = COLORS.obstacle;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        pending.forEach((p, i) => (i === 0 ? ctx.moveTo(cx + p.x * s, cy - p.y * s) : ctx.lineTo(cx + p.x * s, cy - p.y * s)));
+        ctx.stroke();
+        ctx.setLineDash([]);
+        pending.forEach(p => {
+            ctx.beginPath();
+            ctx.arc(cx + p.x * s, cy - p.y * s, 3, 0, Math.PI * 2);
+            ctx.fill();
+        });
+    }
+
+    // Waypoints of a user-defined spline
+    if (frame.trajectory.type === 'WAYPOINTS') {
+        ctx.fillStyle = COLORS.primary;
+        frame.trajectory.waypoints.forEach((p, i) => {
+            ctx.beginPath();
+            ctx.arc(cx + p.x * s, cy - p.y * s, 4, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.fillText(String(i + 1), cx + p.x * s + 6, cy - p.y * s - 6);
+        });
+    }
+
+    // Reference Trail
+    ctx.strokeStyle = COLORS.trailRef;
+    ctx.lineWidth = 2;
+    ctx.setLineDash([5, 5]);
+    ctx.beginPath();
+    frame.refTrail.forEach((p, i) => {
+        const px = cx + p.x * s;
+        const py = cy - p.y * s;
+        if (i===0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Actual Trails and Robots
+    frame.robots.forEach(({ variant, pose, estimate, trail, colliding }) => {
+        ctx.strokeStyle = variant.trailColor;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        trail.forEach((p, i) => {
+            const px = cx + p.x * s;
+            const py = cy - p.y * s;
+            if (i===0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+        });
+        ctx.stroke();
+
+        drawRobot(ctx, pose, variant.color, frame.a, colliding, cx, cy, s);
+        if (estimate) drawEstimate(ctx, estimate, variant.color, cx, cy, s);
+    });
+
+    // Own references of phase-shifted robots and followers
+    frame.robots.forEach(({ variant, reference }) => {
+        if (!variant.phase && !variant.follows) return;
+        ctx.strokeStyle = variant.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(cx + reference.x * s, cy - reference.y * s, 5, 0, Math.PI * 2);
+        ctx.stroke();
+    });
 
     // Reference Point
-    const t = timeRef.current;
-    const ref = getReferencePoint(t);
     ctx.fillStyle = COLORS.primary;
     ctx.beginPath();
-    ctx.arc(cx + ref.x * s, cy - ref.y * s, 5, 0, Math.PI*2);
+    ctx.arc(cx + frame.reference.x * s, cy - frame.reference.y * s, 5, 0, Math.PI*2);
     ctx.fill();
+
+    // Handle turning the start heading of the first robot
+    if (placeableRef.current && !playbackRef.current) {
+        const { x, y } = headingHandle(frame.robots[0].pose, { cx, cy, s });
+        ctx.strokeStyle = COLORS.secondary;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([3, 3]);
+        ctx.beginPath();
+        ctx.moveTo(cx + frame.robots[0].pose.x * s, cy - frame.robots[0].pose.y * s);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'white';
+        ctx.beginPath();
+        ctx.arc(x, y, CAMERA_CONSTANTS.HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+    }
   };
 
   useEffect(() => {
@@ -243,33 +614,255 @@ export const RobotSimulation: React.FC<RobotSimulationProps> = ({ config, onUpda
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const loop = () => {
-        updatePhysics();
-        draw(ctx);
+    // Physics runs in the worker; this loop only draws, and hands the
+    // charts what arrived at a fixed rate so fast time scales do not
+    // re-render them on every frame
+    let lastFlush = performance.now();
+    const loop = (now: number) => {
+        if (now - lastFlush >= SIM_CONSTANTS.CHART_PERIOD * 1000) {
+            lastFlush = now;
+            flushSamples();
+        }
+        const frame = currentFrame();
+        if (frame) {
+            updateCamera(frame);
+            draw(ctx, frame);
+        }
         requestRef.current = requestAnimationFrame(loop);
     };
     requestRef.current = requestAnimationFrame(loop);
 
     return () => cancelAnimationFrame(requestRef.current!);
-  }, [config]);
+  }, []);
+
+  // Backing store follows the displayed size and the device pixel ratio
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+        const width = canvas.clientWidth || SIM_CONSTANTS.CANVAS_WIDTH;
+        const height = (width * SIM_CONSTANTS.CANVAS_HEIGHT) / SIM_CONSTANTS.CANVAS_WIDTH;
+        const dpr = window.devicePixelRatio || 1;
+        sizeRef.current = { width, height };
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    // Moving the window to a screen with another pixel ratio does not resize
+    // the element. The query matches one ratio only, so it is rebuilt for the
+    // new ratio after every change.
+    let media: MediaQueryList | null = null;
+    const watchRatio = () => {
+        media?.removeEventListener('change', ratioChanged);
+        media = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+        media.addEventListener('change', ratioChanged);
+    };
+    const ratioChanged = () => {
+        resize();
+        watchRatio();
+    };
+    watchRatio();
+    return () => {
+        observer.disconnect();
+        media?.removeEventListener('change', ratioChanged);
+    };
+  }, []);
+
+  // Pointer position in CSS pixels relative to the canvas
+  const canvasPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const toWorld = (p: Point): Point => {
+    const { width, height } = sizeRef.current;
+    const { cx, cy, s } = viewOf(cameraRef.current, width, height);
+    return { x: (p.x - cx) / s, y: (cy - p.y) / s };
+  };
+
+  // Zooms by `factor` keeping the world point under `anchor` in place (the centre when following)
+  const zoomBy = (factor: number, anchor?: Point) => {
+    const { width, height } = sizeRef.current;
+    const camera = cameraRef.current;
+    const zoom = clampZoom(camera.zoom * factor);
+    if (!anchor || cameraModeRef.current === 'FOLLOW') {
+        cameraRef.current = { ...camera, zoom };
+    } else {
+        const world = toWorld(anchor);
+        const s = pixelsPerMeter(zoom, width);
+        cameraRef.current = { zoom, center: { x: world.x - (anchor.x - width / 2) / s, y: world.y + (anchor.y - height / 2) / s } };
+    }
+    if (cameraModeRef.current === 'FIT') setCameraMode('MANUAL');
+  };
+
+  // The wheel listener must not be passive to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+        zoomBy(CAMERA_CONSTANTS.WHEEL_ZOOM ** -pixels, canvasPoint(e));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Part of the first robot under the pointer, when its start pose can be dragged
+  const grabbedPart = (p: Point): 'BODY' | 'HEADING' | null => {
+    const pose = robotsRef.current?.[0]?.robot;
+    if (!placeable || !pose) return null;
+    const { width, height } = sizeRef.current;
+    const view = viewOf(cameraRef.current, width, height);
+    const handle = headingHandle(pose, view);
+    if (Math.hypot(p.x - handle.x, p.y - handle.y) <= CAMERA_CONSTANTS.HANDLE_RADIUS + 2) return 'HEADING';
+    const body = { x: view.cx + pose.x * view.s, y: view.cy - pose.y * view.s };
+    return Math.hypot(p.x - body.x, p.y - body.y) <= WORKSPACE_CONSTANTS.FOOTPRINT_RADIUS * view.s ? 'BODY' : null;
+  };
+
+  // A press on the robot (while paused) places its start; elsewhere, a press
+  // that moves becomes a pan and one that does not is a click at that world point
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = canvasPoint(e);
+    const part = grabbedPart(p);
+    if (part) {
+        const { x, y, theta } = robotsRef.current![0].robot;
+        const world = toWorld(p);
+        placeRef.current = { part, grab: { x: world.x - x, y: world.y - y }, pose: { x, y, theta } };
+    } else {
+        dragRef.current = { ...p, center: cameraRef.current.center, panning: false };
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  // The runs restart from the dragged pose as it moves; the config follows when it is dropped
+  const placeRobot = (p: Point) => {
+    const place = placeRef.current!;
+    const world = toWorld(p);
+    const { pose } = place;
+    place.pose = place.part === 'BODY'
+        ? { ...pose, x: world.x - place.grab.x, y: world.y - place.grab.y }
+        : { ...pose, theta: Math.atan2(world.y - pose.y, world.x - pose.x) };
+    clearRuns();
+    simRef.current?.reset({ ...configRef.current, initialPose: place.pose });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (placeRef.current) {
+        placeRobot(canvasPoint(e));
+        return;
+    }
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = canvasPoint(e);
+    if (!drag.panning && Math.hypot(p.x - drag.x, p.y - drag.y) < CAMERA_CONSTANTS.DRAG_THRESHOLD) return;
+    drag.panning = true;
+    const s = pixelsPerMeter(cameraRef.current.zoom, sizeRef.current.width);
+    cameraRef.current = {
+        ...cameraRef.current,
+        center: { x: drag.center.x - (p.x - drag.x) / s, y: drag.center.y + (p.y - drag.y) / s },
+    };
+    if (cameraModeRef.current !== 'MANUAL') setCameraMode('MANUAL');
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const place = placeRef.current;
+    placeRef.current = null;
+    if (place) {
+        onInitialPoseChange?.(place.pose);
+        return;
+    }
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.panning) onCanvasClick?.(toWorld(canvasPoint(e)));
+  };
+
+  const selectCamera = (mode: CameraMode) => setCameraMode(cameraMode === mode ? 'MANUAL' : mode);
+  const goHome = () => {
+    cameraRef.current = { ...HOME_CAMERA };
+    setCameraMode('MANUAL');
+  };
+
+  const cameraButton = (active: boolean) =>
+    `p-1.5 rounded transition-colors ${active ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`;
+
+  const frame = currentFrame();
+  const robots = frame?.robots ?? [];
+  const robot = robots[0]?.pose;
 
   return (
     <div className="relative rounded-xl overflow-hidden shadow-lg border border-slate-200 bg-white">
-      <div className="absolute top-4 left-4 bg-white/90 backdrop-blur px-3 py-1 rounded shadow text-xs font-mono text-slate-600 z-10">
-        <div>x: {robotRef.current.x.toFixed(2)}m</div>
-        <div>y: {robotRef.current.y.toFixed(2)}m</div>
-        <div>θ: {robotRef.current.theta.toFixed(2)}rad</div>
-      </div>
+      {robot && (
+        <div className="absolute top-4 left-4 bg-white/90 backdrop-blur px-3 py-1 rounded shadow text-xs font-mono text-slate-600 z-10">
+          <div>x: {robot.x.toFixed(2)}m</div>
+          <div>y: {robot.y.toFixed(2)}m</div>
+          <div>θ: {robot.theta.toFixed(2)}rad</div>
+          {frame && (['left', 'right'] as const).map(side => {
+            // Wheel speed against its limit, red when saturated
+            const speed = robots[0].wheels[side];
+            const fraction = Math.min(Math.abs(speed) / frame.drive.maxWheelSpeed, 1);
+            return (
+              <div key={side} className="flex items-center gap-1" title={`${side} wheel speed`}>
+                <span>φ̇{side === 'left' ? 'L' : 'R'}:</span>
+                <span className="w-10 h-1.5 bg-slate-200 rounded overflow-hidden">
+                  <span
+                    className={`block h-full ${fraction > 0.99 ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${100 * fraction}%` }}
+                  />
+                </span>
+                <span>{speed.toFixed(1)}rad/s</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {error && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-50 border border-red-200 px-3 py-1 rounded shadow text-xs text-red-600 z-10">
+          Simulation stopped: {error}
+        </div>
+      )}
+      {robots.length > 1 && (
+        <div className="absolute top-4 right-4 bg-white/90 backdrop-blur px-3 py-1 rounded shadow text-xs text-slate-600 z-10 space-y-1">
+          {robots.map(({ variant }) => (
+            <div key={variant.id} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: variant.color }} />
+              {variant.label}
+            </div>
+          ))}
+        </div>
+      )}
       <canvas 
         ref={canvasRef} 
-        width={SIM_CONSTANTS.CANVAS_WIDTH} 
-        height={SIM_CONSTANTS.CANVAS_HEIGHT} 
-        className="w-full h-auto bg-slate-50 cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; placeRef.current = null; }}
+        style={{ aspectRatio: `${SIM_CONSTANTS.CANVAS_WIDTH} / ${SIM_CONSTANTS.CANVAS_HEIGHT}` }}
+        className="block w-full bg-slate-50 cursor-crosshair touch-none"
       />
+      <div className="absolute bottom-10 right-4 bg-white/90 backdrop-blur rounded shadow flex items-center gap-0.5 p-0.5 z-10">
+        <button onClick={() => zoomBy(CAMERA_CONSTANTS.BUTTON_ZOOM)} className={cameraButton(false)} title="Zoom in">
+          <ZoomIn size={14} />
+        </button>
+        <button onClick={() => zoomBy(1 / CAMERA_CONSTANTS.BUTTON_ZOOM)} className={cameraButton(false)} title="Zoom out">
+          <ZoomOut size={14} />
+        </button>
+        <button onClick={() => selectCamera('FIT')} className={cameraButton(cameraMode === 'FIT')} title="Fit the path, obstacles and robots">
+          <Maximize2 size={14} />
+        </button>
+        <button onClick={() => selectCamera('FOLLOW')} className={cameraButton(cameraMode === 'FOLLOW')} title="Follow the robot">
+          <LocateFixed size={14} />
+        </button>
+        <button onClick={goHome} className={cameraButton(false)} title="Reset the view">
+          <Home size={14} />
+        </button>
+      </div>
       <div className="absolute bottom-0 left-0 right-0 bg-white/90 border-t border-slate-100 p-2 flex justify-between text-[10px] text-slate-500 font-mono">
-        <span>Method: Adaptive Feedback Linearization (with σ-mod)</span>
+        <span>Method: Kinematic (Eq. 4) + Adaptive Dynamic Compensation (σ-mod)</span>
         <span>Coord: Local Robot Frame</span>
       </div>
     </div>
   );
-};
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Plug, Unplug } from 'lucide-react';
+import { ROSBRIDGE_CONSTANTS } from '../constants';
+import { BridgeOptions, BridgeStatus } from '../simulation/rosbridge';
+
+interface RosBridgePanelProps {
+  status: BridgeStatus | null; // Null when no connection was asked for
+  onConnect: (url: string, options: BridgeOptions) => void;
+  onDisconnect: () => void;
+}
+
+const STATE_STYLES: Record<BridgeStatus['state'], { label: string; dot: string }> = {
+  CONNECTING: { label: 'Connecting…', dot: 'bg-amber-400' },
+  CONNECTED: { label: 'Connected', dot: 'bg-green-500' },
+  CLOSED: { label: 'Disconnected', dot: 'bg-red-500' },
+};
+
+// Round trips a 1 kHz loop would hardly notice, and ones it would
+const latencyClass = (ms: number) => (ms < 20 ? 'text-green-600' : ms < 100 ? 'text-amber-600' : 'text-red-600');
+
+export const RosBridgePanel: React.FC<RosBridgePanelProps> = ({ status, onConnect, onDisconnect }) => {
+  const [url, setUrl] = useState<string>(ROSBRIDGE_CONSTANTS.URL);
+  const [ros2, setRos2] = useState(false);
+  const active = status !== null && status.state !== 'CLOSED';
+  const valid = /^wss?:\/\/\S+$/.test(url.trim());
+
+  return (
+    <div className="space-y-2 text-xs text-slate-600">
+      <div className="flex gap-2">
+        <input
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          disabled={active}
+          spellCheck={false}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-slate-100 rounded font-mono disabled:opacity-50"
+        />
+        <button
+          onClick={() => (active ? onDisconnect() : onConnect(url.trim(), { ros2 }))}
+          disabled={!active && !valid}
+          title={valid ? undefined : 'A ws:// or wss:// address'}
+          className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded flex items-center gap-1 disabled:opacity-50"
+        >
+          {active ? <><Unplug size={12} /> Disconnect</> : <><Plug size={12} /> Connect</>}
+        </button>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={ros2} disabled={active} onChange={e => setRos2(e.target.checked)} />
+        ROS 2 message headers
+      </label>
+      {status && (
+        <div className="p-2 bg-slate-50 rounded space-y-1 font-mono">
+          <div className="flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${STATE_STYLES[status.state].dot}`} />
+            <span className="flex-1">{STATE_STYLES[status.state].label}</span>
+            {status.state === 'CONNECTED' && (
+              <span className={status.latency === null ? 'text-slate-400' : latencyClass(status.latency)}>
+                {status.latency === null ? '– ms' : `${status.latency.toFixed(0)} ms`}
+              </span>
+            )}
+          </div>
+          {status.state === 'CONNECTED' && (
+            <div className={status.stale ? 'text-amber-600' : 'text-slate-500'}>
+              {status.stale
+                ? `No /cmd_vel for ${ROSBRIDGE_CONSTANTS.COMMAND_TIMEOUT} ms, robot stopped`
+                : `/cmd_vel at ${status.commandRate.toFixed(0)} Hz`}
+            </div>
+          )}
+          {status.error && <div className="text-red-600 font-sans">{status.error}</div>}
+        </div>
+      )}
+      <div className="text-slate-400">
+        {active
+          ? 'The first robot follows /cmd_vel; /odom and /reference are published while it runs.'
+          : 'Connect to rosbridge (or npm run rosbridge) to let a ROS node drive the first robot.'}
+      </div>
+    </div>
+  );
+};
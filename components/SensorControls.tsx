@@ -0,0 +1,54 @@
+import React from 'react';
+import { ParameterSlider } from './Controls';
+import { SensorSpec } from '../types';
+
+interface SensorControlsProps {
+  sensors: SensorSpec;
+  onChange: (sensors: SensorSpec) => void;
+}
+
+const ESTIMATORS: { value: SensorSpec['estimator']; label: string }[] = [
+  { value: 'DIRECT', label: 'Direct' },
+  { value: 'ODOMETRY', label: 'Odometry' },
+  { value: 'EKF', label: 'EKF' },
+];
+
+export const SensorControls: React.FC<SensorControlsProps> = ({ sensors, onChange }) => {
+  const set = <K extends keyof SensorSpec>(key: K) => (value: SensorSpec[K]) => onChange({ ...sensors, [key]: value });
+  const usesOdometry = sensors.estimator !== 'DIRECT';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex p-1 bg-slate-100 rounded-lg">
+        {ESTIMATORS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => set('estimator')(value)}
+            className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${sensors.estimator === value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+        <ParameterSlider label="pose σ" unit="m" value={sensors.poseNoise} min={0} max={0.05} step={0.001} digits={3} onChange={set('poseNoise')} />
+        <ParameterSlider label="heading σ" unit="rad" value={sensors.headingNoise} min={0} max={0.1} step={0.005} digits={3} onChange={set('headingNoise')} />
+        <ParameterSlider label="velocity σ" unit="m/s" value={sensors.velocityNoise} min={0} max={0.1} step={0.005} digits={3} onChange={set('velocityNoise')} />
+        {usesOdometry && (
+          <>
+            <ParameterSlider label="encoder tick" unit="m" value={sensors.encoderResolution} min={0} max={0.005} step={0.0001} digits={4} onChange={set('encoderResolution')} />
+            <ParameterSlider label="odometry drift" unit="" value={sensors.odometryDrift} min={-0.02} max={0.02} step={0.001} digits={3} onChange={set('odometryDrift')} />
+          </>
+        )}
+        {sensors.estimator === 'EKF' && (
+          <ParameterSlider label="fix period" unit="s" value={sensors.fixPeriod} min={0.1} max={5} step={0.1} digits={1} onChange={set('fixPeriod')} />
+        )}
+      </div>
+      <div className="text-xs text-slate-400">
+        {sensors.estimator === 'DIRECT' && 'Controllers see the true pose plus noise.'}
+        {sensors.estimator === 'ODOMETRY' && 'Dead reckoning from wheel encoders; drifts with slip and encoder scale error.'}
+        {sensors.estimator === 'EKF' && 'Odometry fused with absolute position fixes (pose σ); dashed outline and ellipse show the estimate.'}
+      </div>
+    </div>
+  );
+};
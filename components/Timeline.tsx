@@ -0,0 +1,59 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, CornerDownRight, Radio } from 'lucide-react';
+
+interface TimelineProps {
+  time: number;
+  duration: number;
+  step: number; // Slider resolution [s]
+  isLive: boolean; // Following the running simulation rather than a past instant
+  onSeek: (time: number) => void;
+  onStep: (frames: number) => void; // ±1 sample; forward at the live end advances the simulation
+  onGoLive?: () => void;
+  onResumeHere?: () => void; // Continue the running simulation from `time`
+}
+
+const buttonClass = 'p-1 rounded bg-slate-100 hover:bg-slate-200 text-slate-600 disabled:opacity-40';
+
+export const Timeline: React.FC<TimelineProps> = ({ time, duration, step, isLive, onSeek, onStep, onGoLive, onResumeHere }) => {
+  return (
+    <div className="flex items-center gap-2 px-2">
+      <button onClick={() => onStep(-1)} disabled={time <= 0} className={buttonClass} title="Step back one sample">
+        <ChevronLeft size={14} />
+      </button>
+      <button onClick={() => onStep(1)} disabled={!isLive && time >= duration} className={buttonClass} title="Step forward one sample">
+        <ChevronRight size={14} />
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={step}
+        value={Math.min(time, duration)}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="flex-1 accent-blue-600"
+      />
+      <span className="text-xs font-mono text-slate-500 w-28 text-right">
+        {time.toFixed(1)} / {duration.toFixed(1)} s
+      </span>
+      {onResumeHere && (
+        <button
+          onClick={onResumeHere}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-slate-100 hover:bg-slate-200 text-slate-600"
+          title="Rerun the simulation up to this instant and continue from there, dropping what followed"
+        >
+          <CornerDownRight size={12} /> Resume here
+        </button>
+      )}
+      {onGoLive && (
+        <button
+          onClick={onGoLive}
+          disabled={isLive}
+          className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${isLive ? 'text-red-600' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+          title="Return to the running simulation"
+        >
+          <Radio size={12} /> Live
+        </button>
+      )}
+    </div>
+  );
+};
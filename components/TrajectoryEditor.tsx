@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_EXPRESSION, DEFAULT_WAYPOINTS, TrajectoryType } from '../constants';
+import { TrajectorySpec } from '../types';
+import { compileExpression } from '../simulation/expression';
+
+interface TrajectoryEditorProps {
+  trajectory: TrajectorySpec;
+  onChange: (trajectory: TrajectorySpec) => void;
+}
+
+const OPTIONS: { type: TrajectorySpec['type']; label: string }[] = [
+  { type: TrajectoryType.CIRCLE, label: 'Circular (Fig 4)' },
+  { type: TrajectoryType.FIGURE_EIGHT, label: 'Figure-8 (Fig 8)' },
+  { type: TrajectoryType.LINE, label: 'Line' },
+  { type: TrajectoryType.SQUARE, label: 'Rounded Square' },
+  { type: TrajectoryType.LISSAJOUS, label: 'Lissajous' },
+  { type: TrajectoryType.WAYPOINTS, label: 'Waypoints' },
+  { type: TrajectoryType.EXPRESSION, label: 'x(t), y(t)' },
+];
+
+// A closed spline needs two waypoints, and the experiment schema requires them
+const MIN_WAYPOINTS = 2;
+
+const defaultSpec = (type: TrajectorySpec['type']): TrajectorySpec => {
+  if (type === TrajectoryType.WAYPOINTS) return { type, waypoints: DEFAULT_WAYPOINTS };
+  if (type === TrajectoryType.EXPRESSION) return { type, ...DEFAULT_EXPRESSION };
+  return { type } as TrajectorySpec;
+};
+
+export const TrajectoryEditor: React.FC<TrajectoryEditorProps> = ({ trajectory, onChange }) => {
+  // Last spec used per type, so switching away and back keeps edited waypoints/expressions
+  const memory = useRef<Partial<Record<TrajectorySpec['type'], TrajectorySpec>>>({});
+  memory.current[trajectory.type] = trajectory;
+
+  const [exprX, setExprX] = useState(DEFAULT_EXPRESSION.x);
+  const [exprY, setExprY] = useState(DEFAULT_EXPRESSION.y);
+  const [exprError, setExprError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (trajectory.type === TrajectoryType.EXPRESSION) {
+      setExprX(trajectory.x);
+      setExprY(trajectory.y);
+    }
+  }, [trajectory]);
+
+  const select = (type: TrajectorySpec['type']) => onChange(memory.current[type] ?? defaultSpec(type));
+
+  const applyExpression = () => {
+    try {
+      compileExpression(exprX);
+      compileExpression(exprY);
+    } catch (e) {
+      setExprError((e as Error).message);
+      return;
+    }
+    setExprError(null);
+    onChange({ type: TrajectoryType.EXPRESSION, x: exprX, y: exprY });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg">
+        {OPTIONS.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => select(type)}
+            className={`py-2 text-sm font-medium rounded-md transition-all ${trajectory.type === type ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {trajectory.type === TrajectoryType.WAYPOINTS && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>Click the canvas to add waypoints ({trajectory.waypoints.length} placed)</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange({ ...trajectory, waypoints: trajectory.waypoints.slice(0, -1) })}
+              disabled={trajectory.waypoints.length <= MIN_WAYPOINTS}
+              className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded disabled:opacity-50"
+            >
+              Undo
+            </button>
+            <button
+              onClick={() => onChange({ ...trajectory, waypoints: trajectory.waypoints.slice(0, MIN_WAYPOINTS) })}
+              disabled={trajectory.waypoints.length <= MIN_WAYPOINTS}
+              className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded disabled:opacity-50"
+              title={`Keep the first ${MIN_WAYPOINTS} waypoints`}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {trajectory.type === TrajectoryType.EXPRESSION && (
+        <div className="space-y-2">
+          {([['x(t)', exprX, setExprX], ['y(t)', exprY, setExprY]] as const).map(([label, value, set]) => (
+            <label key={label} className="flex items-center gap-2 text-xs">
+              <span className="font-mono text-slate-600 w-8">{label}</span>
+              <input
+                value={value}
+                onChange={e => set(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && applyExpression()}
+                className="flex-1 px-2 py-1 font-mono border border-slate-200 rounded"
+              />
+            </label>
+          ))}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-red-600">{exprError}</span>
+            <button onClick={applyExpression} className="px-3 py-1 text-xs bg-slate-100 hover:bg-slate-200 rounded">
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
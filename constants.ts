@@ -1,17 +1,185 @@
 export const SIM_CONSTANTS = {
-  FPS: 60,
+  PHYSICS_RATE: 1000, // Hz, default fixed step of the physics/control loop
+  MAX_PHYSICS_RATE: 10000, // Hz, beyond which the worker cannot keep up with real time
+  MAX_FRAME_TIME: 0.25, // s, longest wall-clock gap simulated in one frame (throttled tabs)
+  WORKER_PERIOD: 16, // ms of wall-clock time between the simulation worker's frames
+  WATCHDOG_PERIOD: 500, // ms between liveness checks of the worker while custom control code runs
+  WATCHDOG_TIMEOUT: 2000, // ms a check may go unanswered before the worker is restarted
+  CHART_PERIOD: 0.1, // s of wall-clock time between chart updates, whatever the time scale
+  SAMPLE_PERIOD: 0.1, // seconds between history/trail samples
   TRAIL_LENGTH: 200,
   ROBOT_RADIUS: 15,
   WHEEL_WIDTH: 4,
   WHEEL_HEIGHT: 12,
-  CANVAS_WIDTH: 600,
+  CANVAS_WIDTH: 600, // Reference canvas size in CSS pixels; the canvas keeps its aspect ratio when resized
   CANVAS_HEIGHT: 400,
-  SCALE: 100, // pixels per meter
+  SCALE: 100, // pixels per meter at zoom 1 on the reference canvas width
 };
 
+export const CAMERA_CONSTANTS = {
+  MIN_ZOOM: 0.05,
+  MAX_ZOOM: 20,
+  WHEEL_ZOOM: 1.0015, // Zoom factor per pixel of wheel travel
+  BUTTON_ZOOM: 1.5, // Zoom factor of the +/− buttons
+  FIT_MARGIN: 0.15, // Blank space around fitted bounds, as a fraction of their size
+  GRID_SPACING: 50, // Minimum CSS pixels between grid lines
+  DRAG_THRESHOLD: 3, // CSS pixels the pointer moves before a click becomes a pan
+  HEADING_HANDLE: 40, // CSS pixels from the robot to the handle that turns its start heading
+  HANDLE_RADIUS: 6, // CSS pixels
+};
+
+export const DEFAULT_KINEMATIC_GAINS = {
+  a: 0.15,
+  lx: 0.4,
+  ly: 0.4,
+  kx: 1.0,
+  ky: 1.0,
+};
+
+export const DEFAULT_DYNAMIC_GAINS = {
+  ku: 4.0,
+  kw: 4.0,
+};
+
+// Identified dynamic parameters of the Pioneer 3-DX (Martins et al.)
+export const PLANT_CONSTANTS = {
+  THETA: [0.2604, 0.2509, -0.000499, 0.9965, 0.00263, 1.0768],
+  MASS: 9.0, // kg, unloaded robot
+  LOAD_MASS: 20.0, // kg, default payload of a load event
+  MAX_LINEAR_VEL: Infinity, // m/s, command limits unless a saturation event sets them (the wheels have their own)
+  MAX_ANGULAR_VEL: Infinity, // rad/s
+};
+
+// Pioneer 3-DX wheels and motors: 195 mm wheels, 1.2 m/s top speed, and the
+// firmware's 2 m/s² acceleration ceiling; it rolls without slip
+export const PIONEER_3DX_DRIVE = {
+  wheelRadius: 0.0975,
+  trackWidth: 0.33,
+  maxWheelSpeed: 12.3,
+  maxWheelAccel: 20,
+  stallTorque: 5,
+  noLoadSpeed: 20,
+  longitudinalSlip: 0,
+  lateralSlip: 0,
+};
+
+export const DEFAULT_PLANT = {
+  profile: 'PIONEER_3DX' as const,
+  theta: [...PLANT_CONSTANTS.THETA],
+  mass: PLANT_CONSTANTS.MASS,
+  drive: PIONEER_3DX_DRIVE,
+};
+
+// Start slightly off the reference so the transient is visible
+export const DEFAULT_INITIAL_POSE = { x: 0.2, y: 0, theta: 0 };
+
+// Odometry geometry and noise model of the estimators
+export const SENSOR_CONSTANTS = {
+  POSE_RATE: 50, // Hz, update rate of the absolute pose sensor
+  VELOCITY_RATE: 50, // Hz, update rate of the velocity measurements
+  ODOMETRY_NOISE: 0.02, // m/√m, std. dev. of each wheel's travel per √m covered, as assumed by the EKF
+  INITIAL_STD: 0.01, // m and rad, initial pose uncertainty of the EKF
+  ELLIPSE_SIGMAS: 2, // Size of the drawn covariance ellipse (≈ 86% of position errors inside)
+};
+
+// Ideal sensors: the controllers see the true state
+export const DEFAULT_SENSORS = {
+  estimator: 'DIRECT',
+  poseNoise: 0,
+  headingNoise: 0,
+  velocityNoise: 0,
+  encoderResolution: 0,
+  odometryDrift: 0,
+  fixPeriod: 1,
+  seed: 1,
+} as const;
+
+// Field defaults for events added in the disturbance editor
+export const DEFAULT_EVENTS = {
+  LOAD: { type: 'LOAD', time: 20, mass: PLANT_CONSTANTS.LOAD_MASS },
+  SKID: { type: 'SKID', time: 20, duration: 3, factor: 0.6 },
+  PUSH: { type: 'PUSH', time: 20, distance: 0.15 },
+  SATURATION: { type: 'SATURATION', time: 20, maxLinearVel: 0.5, maxAngularVel: 1.5 },
+} as const;
+
+// Load transportation as in the paper's experiments: picked up, then delivered
+export const LOAD_PROFILE = [
+  { type: 'LOAD', time: 20, mass: PLANT_CONSTANTS.LOAD_MASS },
+  { type: 'LOAD', time: 60, mass: 0 },
+] as const;
+
+// σ-modification as in the paper; Γ⁻¹ is smaller for the small θ3, θ5.
+// The gains are low because the start-up transient (the robot at rest while
+// v_ref jumps) moves θ̂ in proportion to Γ⁻¹: with 0.5 it pushed θ̂2 from 0.25
+// to about 1.4, and on a circle nothing excites θ1, θ2 enough to bring it
+// back. With 0.02 θ̂ stays within about 0.07 of the nominal θ.
+// Projection bounds keep θ̂1, θ̂2 (mass/inertia terms) positive and leave
+// room for the loaded plant's values.
+export const DEFAULT_ADAPTATION = {
+  law: 'SIGMA' as const,
+  gains: [0.02, 0.02, 0.002, 0.02, 0.002, 0.02],
+  sigma: 0.001,
+  deadZone: 0.01,
+  min: [0.05, 0.05, -0.1, 0.2, -0.1, 0.2],
+  max: [2, 2, 0.1, 2, 0.1, 2],
+};
+
+export const ADAPTATION_CONSTANTS = {
+  DIVERGENCE_LIMIT: 10, // |θ̂i| beyond which the estimates are flagged as diverging
+  BOUND_TOLERANCE: 1e-6, // Relative distance to a projection bound counted as "at the bound"
+};
+
+export const DEFAULT_IDENTIFICATION = {
+  signal: 'CHIRP' as const,
+  duration: 60,
+  meanU: 0.3,
+  amplitudeU: 0.2,
+  amplitudeW: 0.8,
+  loadMass: 0,
+};
+
+export const IDENTIFICATION_CONSTANTS = {
+  SAMPLE_RATE: 200, // Hz, rate at which the experiment is logged
+  FILTER_BANDWIDTH: 2, // Hz, low-pass applied to both sides of the regression
+  SETTLE_TIME: 2, // s, start-up and filter transients left out of the fit
+  CHIRP_F0: 0.05, // Hz, chirp sweep
+  CHIRP_F1: 1.5,
+  PRBS_HOLD: 0.4, // s, minimum time between PRBS switches
+  CONFIDENCE_Z: 1.96, // 95% confidence intervals
+  IV_ITERATIONS: 2, // Instrumental-variable passes after the least-squares start
+  HAC_LAG: 1, // s, longest lag of residual correlation in the standard errors
+};
+
+// Starting points for the user-defined trajectories
+export const DEFAULT_WAYPOINTS = [
+  { x: 1.0, y: 0.0 },
+  { x: 0.3, y: 0.8 },
+  { x: -1.0, y: 0.4 },
+  { x: -0.6, y: -0.7 },
+  { x: 0.5, y: -0.6 },
+];
+
+export const DEFAULT_EXPRESSION = {
+  x: '0.8*cos(0.4*t)',
+  y: '0.5*sin(0.8*t)',
+};
+
+export const METRIC_CONSTANTS = {
+  SETTLING_BAND: 0.02, // m, error band for the settling time after a load change
+};
+
+export const TIME_SCALES = [0.25, 0.5, 1, 2, 4, 8];
+
+export const PHYSICS_RATES = [100, 250, 500, 1000];
+
 export enum TrajectoryType {
   CIRCLE = 'CIRCLE',
   FIGURE_EIGHT = 'FIGURE_EIGHT',
+  LINE = 'LINE',
+  SQUARE = 'SQUARE',
+  LISSAJOUS = 'LISSAJOUS',
+  WAYPOINTS = 'WAYPOINTS',
+  EXPRESSION = 'EXPRESSION',
 }
 
 export const COLORS = {
@@ -19,6 +187,100 @@ export const COLORS = {
   secondary: '#dc2626', // red-600
   robot: '#1e293b', // slate-800
   grid: '#e2e8f0', // slate-200
+  axis: '#94a3b8', // slate-400, axes and tick labels
   trailRef: '#93c5fd', // blue-300
   trailReal: '#fca5a5', // red-300
-};
\ No newline at end of file
+  obstacle: '#94a3b8', // slate-400
+  danger: '#ef4444', // red-500, collisions and infeasible reference
+};
+
+export const SINGLE_RUN = {
+  id: 'main',
+  label: 'Robot',
+  color: COLORS.robot,
+  trailColor: COLORS.trailReal,
+  overrides: {},
+};
+
+// Adaptive vs. fixed-parameter controller under the same trajectory and load (Figs. 5–6)
+export const COMPARISON_RUNS = [
+  {
+    id: 'adaptive',
+    label: 'Adaptive (σ-mod)',
+    color: '#059669', // emerald-600
+    trailColor: '#6ee7b7', // emerald-300
+    overrides: { isAdaptive: true },
+  },
+  {
+    id: 'fixed',
+    label: 'Fixed θ̂',
+    color: '#dc2626', // red-600
+    trailColor: '#fca5a5', // red-300
+    overrides: { isAdaptive: false },
+  },
+];
+
+// Robot colors of a formation, in order
+export const FORMATION_PALETTE = [
+  { color: '#2563eb', trailColor: '#93c5fd' }, // blue
+  { color: '#059669', trailColor: '#6ee7b7' }, // emerald
+  { color: '#d97706', trailColor: '#fcd34d' }, // amber
+  { color: '#7c3aed', trailColor: '#c4b5fd' }, // violet
+  { color: '#db2777', trailColor: '#f9a8d4' }, // pink
+  { color: '#0891b2', trailColor: '#67e8f9' }, // cyan
+];
+
+export const DEFAULT_BATCH = {
+  mode: 'SWEEP' as const,
+  axes: [
+    { parameter: 'kx' as const, min: 0.2, max: 1.4, steps: 5 },
+    { parameter: 'gamma' as const, min: 0.25, max: 4, steps: 5 },
+  ],
+  runs: 30,
+  poseSpread: 0.3,
+  headingSpread: 0.5,
+  loadMin: 0,
+  loadMax: 30,
+  duration: 30,
+  seed: 1,
+};
+
+export const BATCH_CONSTANTS = {
+  MAX_CASES: 400, // Grid size or Monte Carlo count accepted in one batch
+  MAX_STEPS: 20, // Values per sweep axis
+};
+
+export const WORKSPACE_CONSTANTS = {
+  FOOTPRINT_RADIUS: SIM_CONSTANTS.ROBOT_RADIUS / SIM_CONSTANTS.SCALE, // m, ROBOT_RADIUS is drawn in pixels
+  MIN_DISTANCE: 0.02, // m, floor on the clearance in the repulsive field (avoids 1/0 on contact)
+  MAX_AVOIDANCE_SPEED: 1, // m/s, cap on the repulsive velocity
+  FEASIBILITY_HORIZON: 120, // s of reference checked for infeasible segments
+  FEASIBILITY_STEP: 0.05, // s between checked reference points
+  OBSTACLE_RADIUS: 0.15, // m, circles placed by clicking
+  WALL_THICKNESS: 0.05, // m, walls placed by clicking
+};
+
+export const ROSBRIDGE_CONSTANTS = {
+  URL: 'ws://localhost:9090', // rosbridge_server's default port
+  COMMAND_TIMEOUT: 500, // ms without a /cmd_vel before the robot is stopped
+  WATCHDOG_PERIOD: 100, // ms between checks of the command timeout
+  PROBE_PERIOD: 1000, // ms between latency probes
+  ODOM_FRAME: 'odom',
+  BASE_FRAME: 'base_link',
+};
+
+export const DEFAULT_AVOIDANCE = {
+  enabled: false,
+  gain: 0.005,
+  range: 0.3,
+};
+
+// A leader with two followers in a wedge behind it
+export const DEFAULT_FORMATION = {
+  mode: 'LEADER_FOLLOWER' as const,
+  robots: [
+    { id: 'r1', isAdaptive: true, payload: 0, phase: 0, offset: { x: 0, y: 0 } },
+    { id: 'r2', isAdaptive: true, payload: 0, phase: 2, offset: { x: -0.4, y: 0.3 } },
+    { id: 'r3', isAdaptive: false, payload: 10, phase: 4, offset: { x: -0.4, y: -0.3 } },
+  ],
+};
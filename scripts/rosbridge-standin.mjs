@@ -0,0 +1,216 @@
+// Stand-in for rosbridge_server, for trying the app's ROS bridge without ROS.
+//
+// Relays the rosbridge JSON protocol between its clients (advertise,
+// subscribe, publish), answers /rosapi/get_time for the latency probe and,
+// with --controller, runs a simple external controller of its own: it
+// subscribes to /odom and /reference and publishes /cmd_vel, steering the
+// point `a` ahead of the axle onto the reference.
+//
+//   node scripts/rosbridge-standin.mjs [--port 9090] [--controller]
+//
+// Only what the app uses is implemented: text frames, no extensions, no
+// fragmentation.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const portArg = args.indexOf('--port');
+const PORT = portArg >= 0 ? Number(args[portArg + 1]) : 9090;
+const WITH_CONTROLLER = args.includes('--controller');
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODES = { TEXT: 0x1, CLOSE: 0x8, PING: 0x9, PONG: 0xa };
+
+// --- WebSocket framing (RFC 6455) ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const head = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  head[0] = 0x80 | opcode;
+  if (length < 126) {
+    head[1] = length;
+  } else if (length < 65536) {
+    head[1] = 126;
+    head.writeUInt16BE(length, 2);
+  } else {
+    head[1] = 127;
+    head.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([head, payload]);
+};
+
+// Splits whole frames off the front of `buffer`; returns them and what is left
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let start = offset + 2;
+    if (length === 126) {
+      if (buffer.length < start + 2) break;
+      length = buffer.readUInt16BE(start);
+      start += 2;
+    } else if (length === 127) {
+      if (buffer.length < start + 8) break;
+      length = Number(buffer.readBigUInt64BE(start));
+      start += 8;
+    }
+    const mask = masked ? buffer.subarray(start, start + 4) : null;
+    if (masked) start += 4;
+    if (buffer.length < start + length) break;
+    const payload = Buffer.from(buffer.subarray(start, start + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = start + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// --- rosbridge relay ---
+
+const subscriptions = new Map(); // topic -> Set of clients
+
+const subscribe = (client, topic) => {
+  if (!subscriptions.has(topic)) subscriptions.set(topic, new Set());
+  subscriptions.get(topic).add(client);
+};
+
+const publish = (topic, msg) => {
+  for (const client of subscriptions.get(topic) ?? []) client.send({ op: 'publish', topic, msg });
+};
+
+const handle = (client, message) => {
+  switch (message.op) {
+    case 'subscribe':
+      subscribe(client, message.topic);
+      break;
+    case 'unsubscribe':
+      subscriptions.get(message.topic)?.delete(client);
+      break;
+    case 'publish':
+      publish(message.topic, message.msg);
+      break;
+    case 'call_service': {
+      const ok = message.service === '/rosapi/get_time';
+      const now = Date.now();
+      client.send({
+        op: 'service_response',
+        id: message.id,
+        service: message.service,
+        result: ok,
+        values: ok ? { time: { secs: Math.floor(now / 1000), nsecs: (now % 1000) * 1e6 } } : `Service ${message.service} does not exist`,
+      });
+      break;
+    }
+    case 'advertise':
+    case 'unadvertise':
+      break;
+    default:
+      client.send({ op: 'status', level: 'error', msg: `Unsupported op ${message.op}` });
+  }
+};
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('rosbridge stand-in: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const client = { send: message => socket.writable && socket.write(encodeFrame(OPCODES.TEXT, Buffer.from(JSON.stringify(message)))) };
+  let pending = Buffer.alloc(0);
+  console.log(`Client connected (${req.socket.remoteAddress})`);
+
+  socket.on('data', data => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, data]));
+    pending = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === OPCODES.TEXT) {
+        try {
+          handle(client, JSON.parse(payload.toString('utf8')));
+        } catch (err) {
+          client.send({ op: 'status', level: 'error', msg: err.message });
+        }
+      } else if (opcode === OPCODES.PING) {
+        socket.write(encodeFrame(OPCODES.PONG, payload));
+      } else if (opcode === OPCODES.CLOSE) {
+        socket.end(encodeFrame(OPCODES.CLOSE, Buffer.alloc(0)));
+      }
+    }
+  });
+  socket.on('close', () => {
+    for (const clients of subscriptions.values()) clients.delete(client);
+    console.log('Client disconnected');
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+// --- Demo controller ---
+
+// Drives the control point h, `a` ahead of the axle, onto the reference with
+// the reference velocity (by finite difference) as feedforward, like the
+// app's kinematic controller without its dynamic layer.
+const startController = () => {
+  const a = 0.15; // m
+  const gain = 1; // 1/s
+  const maxSpeed = 0.7; // m/s of correction
+  let odom = null;
+  let reference = null;
+  let previous = null;
+
+  const stampOf = ({ stamp }) => (stamp.secs ?? stamp.sec) + (stamp.nsecs ?? stamp.nanosec) * 1e-9;
+  const yawOf = ({ z, w }) => 2 * Math.atan2(z, w);
+  const self = {
+    send: message => {
+      if (message.topic === '/odom') odom = message.msg;
+      if (message.topic === '/reference') {
+        previous = reference;
+        reference = message.msg;
+      }
+    },
+  };
+  subscribe(self, '/odom');
+  subscribe(self, '/reference');
+
+  setInterval(() => {
+    if (!odom || !reference) return;
+    const { position, orientation } = odom.pose.pose;
+    const theta = yawOf(orientation);
+    const hx = position.x + a * Math.cos(theta);
+    const hy = position.y + a * Math.sin(theta);
+    const ref = reference.pose.position;
+    // Reference velocity from the last two reference poses
+    let vx = 0;
+    let vy = 0;
+    if (previous) {
+      const dt = stampOf(reference.header) - stampOf(previous.header);
+      if (dt > 0) {
+        vx = (ref.x - previous.pose.position.x) / dt;
+        vy = (ref.y - previous.pose.position.y) / dt;
+      }
+    }
+    const ex = ref.x - hx;
+    const ey = ref.y - hy;
+    const hdx = vx + maxSpeed * Math.tanh((gain / maxSpeed) * ex);
+    const hdy = vy + maxSpeed * Math.tanh((gain / maxSpeed) * ey);
+    const u = Math.cos(theta) * hdx + Math.sin(theta) * hdy;
+    const w = (-Math.sin(theta) * hdx + Math.cos(theta) * hdy) / a;
+    publish('/cmd_vel', { linear: { x: u, y: 0, z: 0 }, angular: { x: 0, y: 0, z: w } });
+  }, 50);
+  console.log('Demo controller publishing /cmd_vel at 20 Hz');
+};
+
+server.listen(PORT, () => {
+  console.log(`rosbridge stand-in listening on ws://localhost:${PORT}`);
+  if (WITH_CONTROLLER) startController();
+});
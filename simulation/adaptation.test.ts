@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ADAPTATION_CONSTANTS, DEFAULT_ADAPTATION, PLANT_CONSTANTS } from '../constants';
+import { AdaptationSpec } from '../types';
+import { ADAPTATION_LAWS, adaptationStatus, projectParameters } from './adaptation';
+
+const spec = (changes: Partial<AdaptationSpec>): AdaptationSpec => ({ ...DEFAULT_ADAPTATION, gains: [1, 1, 1, 1, 1, 1], sigma: 0.1, ...changes });
+
+// Regressor with one column per parameter, so Gᵀṽ = [ũ, ω̃, ũ, ω̃, ũ, ω̃]
+const G: [number[], number[]] = [
+  [1, 0, 1, 0, 1, 0],
+  [0, 1, 0, 1, 0, 1],
+];
+const theta = [...PLANT_CONSTANTS.THETA];
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} ≠ ${expected}`);
+
+describe('ADAPTATION_LAWS', () => {
+  it('steps along Γ⁻¹Gᵀṽ with the gradient law, and not at all for a zero gain', () => {
+    const d = ADAPTATION_LAWS.GRADIENT(theta, G, 0.2, -0.1, spec({ gains: [2, 2, 2, 2, 0, 0] }));
+    [0.4, -0.2, 0.4, -0.2, 0, 0].forEach((expected, i) => close(d[i], expected));
+  });
+
+  it('leaks towards zero with σ-modification, in proportion to ‖ṽ‖ with e-modification', () => {
+    const sigma = ADAPTATION_LAWS.SIGMA(theta, G, 0, 0, spec({ law: 'SIGMA' }));
+    sigma.forEach((d, i) => close(d, -0.1 * theta[i]));
+    assert.ok(ADAPTATION_LAWS.E_MOD(theta, G, 0, 0, spec({ law: 'E_MOD' })).every(d => d === 0));
+    const e = ADAPTATION_LAWS.E_MOD(theta, G, 0.3, 0.4, spec({ law: 'E_MOD' }));
+    e.forEach((d, i) => close(d, (i % 2 === 0 ? 0.3 : 0.4) - 0.1 * 0.5 * theta[i]));
+  });
+
+  it('stops components at the projection bounds only when they would leave the box', () => {
+    const bounded = spec({ law: 'PROJECTION', min: theta.map(th => th - 0.1), max: theta.map(th => th + 0.1) });
+    const atMax = theta.map(th => th + 0.1);
+    assert.deepEqual(ADAPTATION_LAWS.PROJECTION(atMax, G, 0.2, -0.1, bounded), [0, -0.1, 0, -0.1, 0, -0.1]);
+    assert.deepEqual(projectParameters(theta.map(th => th + 1), bounded), atMax);
+    assert.deepEqual(projectParameters(theta.map(th => th + 1), spec({ law: 'GRADIENT' })), theta.map(th => th + 1));
+  });
+
+  it('freezes inside the dead zone', () => {
+    const zone = spec({ law: 'DEAD_ZONE', deadZone: 0.05 });
+    assert.ok(ADAPTATION_LAWS.DEAD_ZONE(theta, G, 0.03, 0.04, zone).every(d => d === 0));
+    assert.deepEqual(ADAPTATION_LAWS.DEAD_ZONE(theta, G, 0.06, 0, zone), [0.06, 0, 0.06, 0, 0.06, 0]);
+  });
+});
+
+describe('adaptationStatus', () => {
+  it('flags non-finite, huge or sign-flipped mass terms as diverging', () => {
+    const law = spec({ law: 'SIGMA' });
+    assert.equal(adaptationStatus(theta, law), 'OK');
+    assert.equal(adaptationStatus([NaN, ...theta.slice(1)], law), 'DIVERGING');
+    assert.equal(adaptationStatus([...theta.slice(0, 5), 2 * ADAPTATION_CONSTANTS.DIVERGENCE_LIMIT], law), 'DIVERGING');
+    assert.equal(adaptationStatus([theta[0], -0.1, ...theta.slice(2)], law), 'DIVERGING');
+  });
+
+  it('reports the projection holding a component', () => {
+    const bounded = spec({ law: 'PROJECTION', min: theta.map(th => th - 0.1), max: theta.map(th => th + 0.1) });
+    assert.equal(adaptationStatus(theta, bounded), 'OK');
+    assert.equal(adaptationStatus([theta[0] + 0.1, ...theta.slice(1)], bounded), 'AT_BOUND');
+  });
+});
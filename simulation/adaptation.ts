@@ -0,0 +1,85 @@
+import { ADAPTATION_CONSTANTS } from '../constants';
+import { AdaptationSpec } from '../types';
+import { DynamicParameters } from './dynamics';
+
+/**
+ * Update laws for the parameter estimates θ̂ of the dynamic compensation.
+ * All are driven by the velocity error ṽ = [ũ ω̃]ᵀ through the regressor G;
+ * they differ in how they keep θ̂ bounded when noise or unmodelled effects
+ * would otherwise make it drift. `gains` holds the diagonal of Γ⁻¹.
+ */
+
+export type AdaptationLaw = (
+  thetaHat: DynamicParameters,
+  G: [number[], number[]],
+  uTilde: number,
+  wTilde: number,
+  spec: AdaptationSpec,
+) => DynamicParameters;
+
+// Γ⁻¹ Gᵀ ṽ
+const gradient = (G: [number[], number[]], uTilde: number, wTilde: number, gains: number[]) =>
+  gains.map((g, i) => g * (G[0][i] * uTilde + G[1][i] * wTilde));
+
+/** Plain gradient law θ̂̇ = Γ⁻¹ Gᵀ ṽ; nothing stops the estimates from drifting. */
+export const gradientLaw: AdaptationLaw = (_thetaHat, G, uTilde, wTilde, { gains }) => gradient(G, uTilde, wTilde, gains);
+
+/**
+ * σ-modification (Eq. 17):
+ *
+ *   θ̂̇ = Γ⁻¹ Gᵀ ṽ − σ Γ⁻¹ θ̂
+ *
+ * The leakage keeps θ̂ bounded at the price of a small bias towards zero.
+ */
+export const sigmaModification: AdaptationLaw = (thetaHat, G, uTilde, wTilde, { gains, sigma }) =>
+  gradient(G, uTilde, wTilde, gains).map((d, i) => d - gains[i] * sigma * thetaHat[i]);
+
+/**
+ * e-modification (Narendra & Annaswamy): the leakage scales with ‖ṽ‖, so it
+ * vanishes, and with it the bias, once the velocities are tracked.
+ */
+export const eModification: AdaptationLaw = (thetaHat, G, uTilde, wTilde, { gains, sigma }) => {
+  const norm = Math.hypot(uTilde, wTilde);
+  return gradient(G, uTilde, wTilde, gains).map((d, i) => d - gains[i] * sigma * norm * thetaHat[i]);
+};
+
+/**
+ * Gradient law with parameter projection: components that would leave
+ * [min, max] are stopped at the bound. Together with `projectParameters` after
+ * the integration step, θ̂ never leaves the box.
+ */
+export const projectionLaw: AdaptationLaw = (thetaHat, G, uTilde, wTilde, spec) =>
+  gradient(G, uTilde, wTilde, spec.gains).map((d, i) =>
+    (thetaHat[i] >= spec.max[i] && d > 0) || (thetaHat[i] <= spec.min[i] && d < 0) ? 0 : d,
+  );
+
+/** Gradient law switched off while ‖ṽ‖ is inside the dead zone, where noise dominates. */
+export const deadZoneLaw: AdaptationLaw = (thetaHat, G, uTilde, wTilde, spec) =>
+  Math.hypot(uTilde, wTilde) <= spec.deadZone ? thetaHat.map(() => 0) : gradient(G, uTilde, wTilde, spec.gains);
+
+export const ADAPTATION_LAWS: Record<AdaptationSpec['law'], AdaptationLaw> = {
+  GRADIENT: gradientLaw,
+  SIGMA: sigmaModification,
+  E_MOD: eModification,
+  PROJECTION: projectionLaw,
+  DEAD_ZONE: deadZoneLaw,
+};
+
+/** Clamps θ̂ into the projection bounds (only the projection law uses them). */
+export const projectParameters = (thetaHat: DynamicParameters, spec: AdaptationSpec): DynamicParameters =>
+  spec.law === 'PROJECTION' ? thetaHat.map((th, i) => Math.min(Math.max(th, spec.min[i]), spec.max[i])) : thetaHat;
+
+export type AdaptationStatus = 'OK' | 'AT_BOUND' | 'DIVERGING';
+
+/**
+ * Health of the estimates: diverging when any θ̂ is non-finite or huge, or the
+ * mass/inertia terms θ̂1, θ̂2 lose their sign; at the bound when projection is
+ * holding any component.
+ */
+export const adaptationStatus = (thetaHat: DynamicParameters, spec: AdaptationSpec): AdaptationStatus => {
+  if (thetaHat.some(th => !Number.isFinite(th) || Math.abs(th) > ADAPTATION_CONSTANTS.DIVERGENCE_LIMIT)) return 'DIVERGING';
+  if (thetaHat[0] <= 0 || thetaHat[1] <= 0) return 'DIVERGING';
+  if (spec.law !== 'PROJECTION') return 'OK';
+  const near = (a: number, b: number) => Math.abs(a - b) <= ADAPTATION_CONSTANTS.BOUND_TOLERANCE * Math.max(1, Math.abs(b));
+  return thetaHat.some((th, i) => near(th, spec.min[i]) || near(th, spec.max[i])) ? 'AT_BOUND' : 'OK';
+};
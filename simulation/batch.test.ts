@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_BATCH } from '../constants';
+import { BatchSpec, SimulationSpec } from '../types';
+import { applyParameter, axisValues, batchCases, boxStats, runCase } from './batch';
+import { EXPERIMENT_PRESETS } from './presets';
+import { toSimulationSpec } from './recording';
+
+const spec: SimulationSpec = (() => {
+  const preset = EXPERIMENT_PRESETS.find(p => p.id === 'fig4');
+  assert.ok(preset);
+  return toSimulationSpec({ ...preset.config, isPlaying: false, timeScale: 1 });
+})();
+
+const batch = (changes: Partial<BatchSpec>): BatchSpec => ({ ...DEFAULT_BATCH, ...changes });
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} ≠ ${expected}`);
+
+describe('axisValues', () => {
+  it('spaces the values evenly, ends included', () => {
+    assert.deepEqual(axisValues({ parameter: 'kx', min: 1, max: 2, steps: 5 }), [1, 1.25, 1.5, 1.75, 2]);
+    assert.deepEqual(axisValues({ parameter: 'kx', min: 1, max: 2, steps: 1 }), [1]);
+  });
+});
+
+describe('applyParameter', () => {
+  it('sets gains, scales Γ⁻¹ and carries a load from the start', () => {
+    assert.equal(applyParameter(spec, 'ky', 2).kinematic.ky, 2);
+    assert.equal(applyParameter(spec, 'kw', 3).dynamic.kw, 3);
+    applyParameter(spec, 'gamma', 2).adaptation.gains.forEach((g, i) => close(g, 2 * spec.adaptation.gains[i]));
+    assert.deepEqual(applyParameter(spec, 'loadMass', 15).events[0], { type: 'LOAD', time: 0, mass: 15 });
+  });
+});
+
+describe('batchCases', () => {
+  it('sweeps the product of the axes, the first one fastest', () => {
+    const cases = batchCases(batch({ axes: [{ parameter: 'kx', min: 1, max: 2, steps: 2 }, { parameter: 'sigma', min: 0, max: 0.1, steps: 3 }] }), spec);
+    assert.equal(cases.length, 6);
+    assert.deepEqual(cases.map(c => c.cell), [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2], [1, 2]]);
+    assert.deepEqual(cases[3].values, { kx: 2, sigma: 0.05 });
+    assert.equal(cases[3].spec.kinematic.kx, 2);
+    assert.equal(cases[3].spec.adaptation.sigma, 0.05);
+    assert.ok(cases.every(c => c.pose === spec.initialPose));
+  });
+
+  it('draws Monte Carlo cases within the spreads, the same ones for the same seed', () => {
+    const mc = batch({ mode: 'MONTE_CARLO', runs: 50 });
+    const cases = batchCases(mc, spec);
+    assert.equal(cases.length, 50);
+    const { x, y, theta } = spec.initialPose;
+    for (const c of cases) {
+      assert.ok(Math.hypot(c.pose.x - x, c.pose.y - y) <= mc.poseSpread);
+      assert.ok(Math.abs(c.pose.theta - theta) <= mc.headingSpread);
+      assert.ok(c.values.loadMass! >= mc.loadMin && c.values.loadMass! <= mc.loadMax);
+    }
+    assert.deepEqual(batchCases(mc, spec), cases);
+    assert.notDeepEqual(batchCases({ ...mc, seed: 2 }, spec), cases);
+  });
+});
+
+describe('runCase', () => {
+  it('scores a case by its IAE, and more for a load the controller must adapt to', () => {
+    const [light, heavy] = batchCases(batch({ axes: [{ parameter: 'loadMass', min: 0, max: 30, steps: 2 }] }), spec).map(c => runCase(c, 10));
+    assert.ok(!light.diverged && !heavy.diverged);
+    assert.ok(light.iae > 0 && Number.isFinite(light.parameterError));
+    assert.ok(heavy.iae > light.iae, `IAE ${heavy.iae} with the load, ${light.iae} without`);
+  });
+});
+
+describe('boxStats', () => {
+  it('gives the five-number summary with interpolated quartiles', () => {
+    assert.deepEqual(boxStats([5, 1, 4, 2, 3]), { min: 1, q1: 2, median: 3, q3: 4, max: 5 });
+    assert.deepEqual(boxStats([1, 2, 3, 4]), { min: 1, q1: 1.75, median: 2.5, q3: 3.25, max: 4 });
+    assert.equal(boxStats([]), null);
+  });
+});
@@ -0,0 +1,142 @@
+import { BatchAxis, BatchParameter, BatchSpec, Pose, SimulationSpec } from '../types';
+import { plantParameters } from './dynamics';
+import { SimulationEngine, initialState } from './engine';
+import { computeMetrics } from './metrics';
+import { createRandom } from './random';
+
+/**
+ * Batch runs: many headless closed-loop runs of one experiment, each with a
+ * few values changed, summarized by their IAE and final parameter error.
+ * Cases are deterministic given the batch spec (Monte Carlo draws come from
+ * its seed), so a batch can be rerun and compared exactly.
+ */
+
+export interface BatchCase {
+  index: number;
+  values: Partial<Record<BatchParameter, number>>; // What this case changed
+  cell: number[]; // Sweep: index along each axis; Monte Carlo: empty
+  spec: SimulationSpec;
+  pose: Pose; // Initial pose
+}
+
+export interface BatchResult {
+  index: number;
+  cell: number[];
+  values: Partial<Record<BatchParameter, number>>;
+  iae: number; // ∫|e| dt over the whole case [m·s]
+  parameterError: number; // ‖θ̂(T) − θ(T)‖, estimate against the loaded plant at the end
+  diverged: boolean; // The run blew up (non-finite state), its metrics are meaningless
+}
+
+export const BATCH_PARAMETERS: { value: BatchParameter; label: string; unit: string }[] = [
+  { value: 'kx', label: 'k_x', unit: '1/s' },
+  { value: 'ky', label: 'k_y', unit: '1/s' },
+  { value: 'lx', label: 'l_x', unit: 'm/s' },
+  { value: 'ly', label: 'l_y', unit: 'm/s' },
+  { value: 'ku', label: 'k_u', unit: '1/s' },
+  { value: 'kw', label: 'k_ω', unit: '1/s' },
+  { value: 'gamma', label: 'γ (Γ⁻¹ ×)', unit: '' },
+  { value: 'sigma', label: 'σ', unit: '' },
+  { value: 'loadMass', label: 'load', unit: 'kg' },
+];
+
+/** The spec with one batch parameter set; a load mass is carried from t = 0. */
+export const applyParameter = (spec: SimulationSpec, parameter: BatchParameter, value: number): SimulationSpec => {
+  switch (parameter) {
+    case 'kx':
+    case 'ky':
+    case 'lx':
+    case 'ly':
+      return { ...spec, kinematic: { ...spec.kinematic, [parameter]: value } };
+    case 'ku':
+    case 'kw':
+      return { ...spec, dynamic: { ...spec.dynamic, [parameter]: value } };
+    case 'gamma':
+      return { ...spec, adaptation: { ...spec.adaptation, gains: spec.adaptation.gains.map(g => g * value) } };
+    case 'sigma':
+      return { ...spec, adaptation: { ...spec.adaptation, sigma: value } };
+    case 'loadMass':
+      return { ...spec, events: [{ type: 'LOAD', time: 0, mass: value }, ...spec.events] };
+  }
+};
+
+/** Evenly spaced values of a sweep axis, min and max included. */
+export const axisValues = ({ min, max, steps }: BatchAxis): number[] =>
+  steps <= 1 ? [min] : Array.from({ length: steps }, (_, i) => min + ((max - min) * i) / (steps - 1));
+
+/** Every case of a batch over the experiment `base`, in order. */
+export const batchCases = (batch: BatchSpec, base: SimulationSpec): BatchCase[] => {
+  const pose = base.initialPose;
+  if (batch.mode === 'SWEEP') {
+    // Cartesian product of the axes, the first axis varying fastest
+    let cells: number[][] = [[]];
+    batch.axes.forEach(axis => {
+      cells = axisValues(axis).flatMap((_, i) => cells.map(cell => [...cell, i]));
+    });
+    return cells.map((cell, index) => {
+      const values: BatchCase['values'] = {};
+      let spec = base;
+      cell.forEach((i, a) => {
+        const { parameter } = batch.axes[a];
+        values[parameter] = axisValues(batch.axes[a])[i];
+        spec = applyParameter(spec, parameter, values[parameter]!);
+      });
+      return { index, values, cell, spec, pose };
+    });
+  }
+  const random = createRandom(batch.seed);
+  return Array.from({ length: batch.runs }, (_, index) => {
+    // Uniform over the disk around the experiment's start
+    const r = batch.poseSpread * Math.sqrt(random.uniform());
+    const phi = 2 * Math.PI * random.uniform();
+    const loadMass = batch.loadMin + (batch.loadMax - batch.loadMin) * random.uniform();
+    const heading = pose.theta + batch.headingSpread * (2 * random.uniform() - 1);
+    return {
+      index,
+      values: { loadMass },
+      cell: [],
+      spec: applyParameter(base, 'loadMass', loadMass),
+      pose: { x: pose.x + r * Math.cos(phi), y: pose.y + r * Math.sin(phi), theta: heading },
+    };
+  });
+};
+
+/** Runs one case for `duration` simulated seconds. */
+export const runCase = (batchCase: BatchCase, duration: number): BatchResult => {
+  const { spec, pose } = batchCase;
+  const engine = new SimulationEngine(spec, { ...initialState(spec), ...pose });
+  const { robot, history } = engine.run(Math.round(duration * spec.physicsRate));
+  const metrics = computeMetrics(history);
+  const finalLoad = history[history.length - 1]?.loadMass ?? 0;
+  const truth = plantParameters(spec.plant, finalLoad);
+  const parameterError = Math.hypot(...robot.parameters.map((th, i) => th - truth[i]));
+  const iae = metrics?.iae ?? NaN;
+  return {
+    index: batchCase.index,
+    cell: batchCase.cell,
+    values: batchCase.values,
+    iae,
+    parameterError,
+    diverged: ![robot.x, robot.y, iae, parameterError].every(Number.isFinite),
+  };
+};
+
+export interface BoxStats {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+/** Five-number summary (quartiles by linear interpolation), or null for no values. */
+export const boxStats = (values: number[]): BoxStats | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const quantile = (q: number) => {
+    const k = q * (sorted.length - 1);
+    const i = Math.floor(k);
+    return sorted[i] + (sorted[Math.min(i + 1, sorted.length - 1)] - sorted[i]) * (k - i);
+  };
+  return { min: sorted[0], q1: quantile(0.25), median: quantile(0.5), q3: quantile(0.75), max: sorted[sorted.length - 1] };
+};
@@ -0,0 +1,32 @@
+import { BatchSpec, SimulationSpec } from '../types';
+import { BatchResult, batchCases, runCase } from './batch';
+
+/**
+ * Runs a batch off the UI thread. Protocol: post one BatchRequest; the worker
+ * answers with a RESULT per case as it finishes, then DONE (or ERROR).
+ * Terminate the worker to cancel.
+ */
+
+export interface BatchRequest {
+  batch: BatchSpec;
+  base: SimulationSpec;
+}
+
+export type BatchMessage =
+  | { type: 'START'; total: number }
+  | { type: 'RESULT'; result: BatchResult }
+  | { type: 'DONE' }
+  | { type: 'ERROR'; message: string };
+
+const post = (message: BatchMessage) => self.postMessage(message);
+
+self.addEventListener('message', (e: MessageEvent<BatchRequest>) => {
+  try {
+    const cases = batchCases(e.data.batch, e.data.base);
+    post({ type: 'START', total: cases.length });
+    cases.forEach(c => post({ type: 'RESULT', result: runCase(c, e.data.batch.duration) }));
+    post({ type: 'DONE' });
+  } catch (err) {
+    post({ type: 'ERROR', message: (err as Error).message });
+  }
+});
@@ -0,0 +1,67 @@
+import { COMPARISON_RUNS, SINGLE_RUN } from '../constants';
+import { ControlConfig, HistorySample, RunVariant, SimulationSpec } from '../types';
+import { SimulationEngine, initialState } from './engine';
+import { formationVariants, variantSetup } from './formation';
+import { createTrajectory } from './trajectory';
+
+/** The runs the current configuration asks for: one robot, the comparison set, or the formation. */
+export const activeVariants = (config: Pick<ControlConfig, 'runMode' | 'formation'>): RunVariant[] => {
+  if (config.runMode === 'COMPARE') return COMPARISON_RUNS;
+  if (config.runMode === 'FORMATION') return formationVariants(config.formation);
+  return [SINGLE_RUN];
+};
+
+export const applyVariant = (spec: SimulationSpec, variant: RunVariant): SimulationSpec => ({
+  ...spec,
+  ...variant.overrides,
+  events: variant.payload ? [{ type: 'LOAD', time: 0, mass: variant.payload }, ...spec.events] : spec.events,
+});
+
+export interface ComparisonRun {
+  variant: RunVariant;
+  engine: SimulationEngine;
+}
+
+/**
+ * One engine per variant, all sharing the same trajectory and load and, unless
+ * the variant is phase-shifted or a follower, the same initial state. Leaders
+ * must come before their followers.
+ */
+export const createComparison = (spec: SimulationSpec, variants: RunVariant[]): ComparisonRun[] => {
+  const base = createTrajectory(spec.trajectory);
+  const runs: ComparisonRun[] = [];
+  variants.forEach(variant => {
+    const leader = runs.find(run => run.variant.id === variant.follows?.leader)?.engine;
+    const variantSpec = applyVariant(spec, variant);
+    const { initial, source } = variantSetup(variant, base, initialState(variantSpec), leader);
+    runs.push({ variant, engine: new SimulationEngine(variantSpec, initial, source) });
+  });
+  return runs;
+};
+
+/**
+ * Advances every run by `seconds`, one physics step at a time across all of
+ * them, so that followers read their leader's state at the same instant and
+ * the runs stay in lockstep sample for sample. Returns each run's new samples.
+ */
+export const advanceRuns = (runs: ComparisonRun[], seconds: number): HistorySample[][] => {
+  const samples: HistorySample[][] = runs.map(() => []);
+  const dt = runs[0]?.engine.dt ?? seconds;
+  for (let remaining = seconds; remaining > 0; remaining -= dt) {
+    const slice = Math.min(dt, remaining);
+    runs.forEach((run, i) => samples[i].push(...run.engine.advance(slice)));
+  }
+  return samples;
+};
+
+/** Runs exactly `steps` physics steps of every run, in lockstep. Returns each run's new samples. */
+export const stepRuns = (runs: ComparisonRun[], steps: number): HistorySample[][] => {
+  const samples: HistorySample[][] = runs.map(() => []);
+  for (let n = 0; n < steps; n++) {
+    runs.forEach((run, i) => {
+      const sample = run.engine.step();
+      if (sample) samples[i].push(sample);
+    });
+  }
+  return samples;
+};
@@ -0,0 +1,156 @@
+import { DynamicGains, KinematicGains, Point, Pose, ReferencePoint, RobotState, SimulationSpec } from '../types';
+import { ADAPTATION_LAWS, projectParameters } from './adaptation';
+import { DynamicParameters, VelocityState, regressor } from './dynamics';
+import { repulsiveVelocity } from './obstacles';
+
+/** What a controller is given at each physics step. */
+export interface ControllerInput {
+  t: number; // [s]
+  dt: number; // Physics step [s]
+  reference: ReferencePoint; // Where the control point should be, with its velocity and acceleration
+  pose: Pose; // Measured pose (as estimated, not the true one)
+  velocity: VelocityState; // Measured (u, ω)
+}
+
+export interface ControllerOutput {
+  u: number; // Commands to the robot (u_r, ω_r) [m/s, rad/s]
+  w: number;
+  reference?: VelocityState; // What an outer loop asked the inner one for, if there is one (charted as u_ref, ω_ref)
+  params?: Record<string, number>; // Values to chart, the first six in the parameter chart
+}
+
+/**
+ * A control law from measured state to velocity commands. `init` gives its
+ * internal state at t = 0; `update` runs at every physics step and may change
+ * that state in place.
+ */
+export interface Controller<S = unknown> {
+  init(): S;
+  update(input: ControllerInput, state: S): ControllerOutput;
+}
+
+export interface KinematicCommand {
+  uRef: number; // Reference linear velocity [m/s]
+  wRef: number; // Reference angular velocity [rad/s]
+  xTilde: number; // Control point error, global frame [m]
+  yTilde: number;
+}
+
+/** Position of the control point h, offset `a` ahead of the wheel axle. */
+export const controlPoint = (robot: Pick<RobotState, 'x' | 'y' | 'theta'>, a: number) => ({
+  x: robot.x + a * Math.cos(robot.theta),
+  y: robot.y + a * Math.sin(robot.theta),
+});
+
+/**
+ * Kinematic controller of Martins et al. (Eq. 4):
+ *
+ *   [u_ref]   [ cos ψ        sin ψ     ] [ẋ_d + l_x tanh(k_x/l_x · x̃)]
+ *   [ω_ref] = [-sin ψ / a    cos ψ / a ] [ẏ_d + l_y tanh(k_y/l_y · ỹ)]
+ *
+ * The reference velocity is fed forward and the tanh terms keep the
+ * correction bounded by l_x, l_y no matter how large the error gets.
+ * `extra` is added to the desired control point velocity (e.g. obstacle
+ * avoidance) and goes through the same mapping.
+ */
+export const kinematicController = (
+  robot: Pick<RobotState, 'x' | 'y' | 'theta'>,
+  ref: ReferencePoint,
+  gains: KinematicGains,
+  extra: Point = { x: 0, y: 0 },
+): KinematicCommand => {
+  const { a, lx, ly, kx, ky } = gains;
+  const h = controlPoint(robot, a);
+  const xTilde = ref.x - h.x;
+  const yTilde = ref.y - h.y;
+
+  const vx = ref.dx + lx * Math.tanh((kx / lx) * xTilde) + extra.x;
+  const vy = ref.dy + ly * Math.tanh((ky / ly) * yTilde) + extra.y;
+
+  const c = Math.cos(robot.theta);
+  const s = Math.sin(robot.theta);
+  return {
+    uRef: c * vx + s * vy,
+    wRef: (-s * vx + c * vy) / a,
+    xTilde,
+    yTilde,
+  };
+};
+
+export interface DynamicCommand {
+  uCmd: number; // Velocity commands sent to the robot (u_r, ω_r)
+  wCmd: number;
+  uTilde: number; // Velocity tracking errors ũ = u_ref − u, ω̃ = ω_ref − ω
+  wTilde: number;
+  G: [number[], number[]]; // Regressor used for the command, reused by the update law
+}
+
+/**
+ * Dynamic compensation controller (Eq. 7):
+ *
+ *   v_r = G θ̂,  σ1 = u̇_ref + k_u ũ,  σ2 = ω̇_ref + k_ω ω̃
+ *
+ * Turns the kinematic controller's reference velocities into the commands
+ * that make the robot's actual velocities follow them, using the current
+ * parameter estimates θ̂.
+ */
+export const dynamicController = (
+  ref: VelocityState,
+  refDot: VelocityState,
+  v: VelocityState,
+  thetaHat: DynamicParameters,
+  gains: DynamicGains,
+): DynamicCommand => {
+  const uTilde = ref.u - v.u;
+  const wTilde = ref.w - v.w;
+  const G = regressor(refDot.u + gains.ku * uTilde, refDot.w + gains.kw * wTilde, v);
+  const dot = (row: number[]) => row.reduce((acc, g, i) => acc + g * thetaHat[i], 0);
+  return { uCmd: dot(G[0]), wCmd: dot(G[1]), uTilde, wTilde, G };
+};
+
+export interface AdaptiveState {
+  parameters: DynamicParameters; // θ̂
+  previous: VelocityState | null; // Last (u_ref, ω_ref), for their derivative by finite difference
+}
+
+export const PARAMETER_NAMES = ['θ̂1', 'θ̂2', 'θ̂3', 'θ̂4', 'θ̂5', 'θ̂6'];
+
+/**
+ * The paper's controller on the Controller interface: the kinematic
+ * controller (Eq. 4), pushed away from obstacles when avoidance is on, feeds
+ * the dynamic compensation (Eq. 7). With `spec.isAdaptive` θ̂ follows the
+ * selected update law; otherwise it stays at θ̂(0).
+ */
+export const adaptiveController = (spec: SimulationSpec): Controller<AdaptiveState> => ({
+  init: () => ({ parameters: [...spec.initialEstimate], previous: null }),
+  update: ({ dt, reference, pose, velocity }, state) => {
+    const { obstacles, avoidance, kinematic } = spec;
+    const repulsion = avoidance.enabled && obstacles.length > 0
+      ? repulsiveVelocity(controlPoint(pose, kinematic.a), obstacles, avoidance)
+      : undefined;
+    const { uRef, wRef } = kinematicController(pose, reference, kinematic, repulsion);
+
+    // Reference accelerations for the dynamic layer (zero on the first step)
+    const previous = state.previous ?? { u: uRef, w: wRef };
+    const refDot = { u: (uRef - previous.u) / dt, w: (wRef - previous.w) / dt };
+    state.previous = { u: uRef, w: wRef };
+
+    const dyn = dynamicController(state.previous, refDot, velocity, state.parameters, spec.dynamic);
+
+    // The update law (σ-modification, Eq. 17, or one of the alternatives)
+    if (spec.isAdaptive) {
+      const { adaptation } = spec;
+      const thetaDot = ADAPTATION_LAWS[adaptation.law](state.parameters, dyn.G, dyn.uTilde, dyn.wTilde, adaptation);
+      state.parameters = projectParameters(state.parameters.map((th, i) => th + dt * thetaDot[i]), adaptation);
+    } else {
+      state.parameters = [...spec.initialEstimate];
+    }
+
+    return {
+      u: dyn.uCmd,
+      w: dyn.wCmd,
+      reference: state.previous,
+      params: Object.fromEntries(PARAMETER_NAMES.map((name, i) => [name, state.parameters[i]])),
+    };
+  },
+});
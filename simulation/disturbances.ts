@@ -0,0 +1,62 @@
+import { PLANT_CONSTANTS } from '../constants';
+import { DisturbanceEvent } from '../types';
+
+/**
+ * Disturbance schedule. Events are plain data in the spec, so a run is fully
+ * determined by its spec: replaying the same schedule gives the same run, and
+ * recordings carry the schedule they were made with.
+ */
+
+// Plant conditions in force at a given time
+export interface DisturbanceState {
+  loadMass: number; // [kg]
+  skid: number; // Ground/wheel velocity ratio
+  maxLinearVel: number; // Command limits [m/s], [rad/s]
+  maxAngularVel: number;
+}
+
+const NOMINAL: DisturbanceState = {
+  loadMass: 0,
+  skid: 1,
+  maxLinearVel: PLANT_CONSTANTS.MAX_LINEAR_VEL,
+  maxAngularVel: PLANT_CONSTANTS.MAX_ANGULAR_VEL,
+};
+
+/** Events in time order; ties keep their schedule order (the sort is stable). */
+export const sortEvents = (events: DisturbanceEvent[]): DisturbanceEvent[] => [...events].sort((a, b) => a.time - b.time);
+
+/**
+ * Conditions at time `t` under a time-ordered schedule (see sortEvents): the
+ * latest load and saturation events at or before `t` win, and overlapping
+ * skid windows multiply.
+ */
+export const disturbanceStateAt = (events: DisturbanceEvent[], t: number): DisturbanceState => {
+  const state = { ...NOMINAL };
+  for (const e of events) {
+    if (e.time > t) break;
+    if (e.type === 'LOAD') state.loadMass = e.mass;
+    else if (e.type === 'SATURATION') {
+      state.maxLinearVel = e.maxLinearVel;
+      state.maxAngularVel = e.maxAngularVel;
+    } else if (e.type === 'SKID' && t < e.time + e.duration) state.skid *= e.factor;
+  }
+  return state;
+};
+
+/** Push impulses due in the step (t0, t1]. */
+export const pushesBetween = (events: DisturbanceEvent[], t0: number, t1: number) =>
+  events.filter((e): e is Extract<DisturbanceEvent, { type: 'PUSH' }> => e.type === 'PUSH' && e.time > t0 && e.time <= t1);
+
+/** Short chart/legend label of an event. */
+export const describeEvent = (e: DisturbanceEvent): string => {
+  switch (e.type) {
+    case 'LOAD':
+      return e.mass > 0 ? `Load ${e.mass} kg` : 'Unload';
+    case 'SKID':
+      return `Skid ×${e.factor} (${e.duration} s)`;
+    case 'PUSH':
+      return `Push ${e.distance} m`;
+    case 'SATURATION':
+      return `Limits ${e.maxLinearVel} m/s, ${e.maxAngularVel} rad/s`;
+  }
+};
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PIONEER_3DX_DRIVE, PLANT_CONSTANTS } from '../constants';
+import { DriveSpec } from '../types';
+import { driveDerivative, limitCommand, wheelSpeeds } from './drive';
+import { plantDerivative } from './dynamics';
+
+const theta = PLANT_CONSTANTS.THETA;
+const mass = PLANT_CONSTANTS.MASS;
+
+const drive = (changes: Partial<DriveSpec>): DriveSpec => ({ ...PIONEER_3DX_DRIVE, ...changes });
+
+// Limits far out of reach, so only what a test sets takes effect
+const unlimited = drive({ maxWheelSpeed: 1e6, maxWheelAccel: 1e6, stallTorque: 1e6, noLoadSpeed: 1e6 });
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≠ ${expected}`);
+
+describe('limitCommand', () => {
+  it('leaves commands within the wheel speed limit alone', () => {
+    assert.deepEqual(limitCommand({ u: 0.5, w: 1 }, PIONEER_3DX_DRIVE), { u: 0.5, w: 1 });
+  });
+
+  it('scales both wheels into the limit, keeping the turning radius', () => {
+    const command = { u: 1.5, w: 2 };
+    const limited = limitCommand(command, PIONEER_3DX_DRIVE);
+    const { left, right } = wheelSpeeds(limited, PIONEER_3DX_DRIVE);
+    close(Math.max(Math.abs(left), Math.abs(right)), PIONEER_3DX_DRIVE.maxWheelSpeed);
+    close(limited.u / limited.w, command.u / command.w);
+  });
+});
+
+describe('driveDerivative', () => {
+  const moving = { x: 0, y: 0, theta: 0.3, u: 0.4, w: 0.5 };
+
+  it('is the θ model when no limit is reached and the wheels do not slip', () => {
+    const d = driveDerivative(moving, theta, { u: 0.5, w: 0.2 }, unlimited, mass);
+    const free = plantDerivative(moving, theta, 0.5, 0.2);
+    for (const k of ['x', 'y', 'theta', 'u', 'w'] as const) close(d[k], free[k]);
+  });
+
+  it('caps wheel acceleration at the profile and at what the motor torque can move', () => {
+    const rest = { x: 0, y: 0, theta: 0, u: 0, w: 0 };
+    const profile = driveDerivative(rest, theta, { u: 100, w: 0 }, drive({ stallTorque: 1e6 }), mass);
+    close(profile.u, PIONEER_3DX_DRIVE.maxWheelAccel * PIONEER_3DX_DRIVE.wheelRadius);
+
+    const weak = drive({ maxWheelAccel: 1e6, stallTorque: 0.5 });
+    const light = driveDerivative(rest, theta, { u: 100, w: 0 }, weak, mass);
+    const loaded = driveDerivative(rest, theta, { u: 100, w: 0 }, weak, mass + 20);
+    close(light.u, (2 * 0.5) / (mass * PIONEER_3DX_DRIVE.wheelRadius));
+    close(loaded.u / light.u, mass / (mass + 20));
+  });
+
+  it('stops speeding up at the top wheel speed but still brakes', () => {
+    const top = { x: 0, y: 0, theta: 0, u: PIONEER_3DX_DRIVE.maxWheelSpeed * PIONEER_3DX_DRIVE.wheelRadius, w: 0 };
+    assert.equal(driveDerivative(top, theta, { u: 100, w: 0 }, PIONEER_3DX_DRIVE, mass).u, 0);
+    assert.ok(driveDerivative(top, theta, { u: 0, w: 0 }, PIONEER_3DX_DRIVE, mass).u < 0);
+  });
+
+  it('loses ground speed to longitudinal slip only while the wheels accelerate', () => {
+    const slippery = { ...unlimited, longitudinalSlip: 0.05 };
+    const steady = plantDerivative(moving, theta, 0, 0);
+    // Commands that hold the velocities, so the wheels do not accelerate
+    const hold = { u: -steady.u * theta[0], w: -steady.w * theta[1] };
+    const held = driveDerivative(moving, theta, hold, slippery, mass);
+    close(Math.hypot(held.x, held.y), moving.u);
+    const pushed = driveDerivative(moving, theta, { u: 2, w: 0 }, slippery, mass);
+    assert.ok(Math.hypot(pushed.x, pushed.y) < moving.u);
+  });
+
+  it('drifts outwards in a turn with lateral slip, and scales the ground speed by the skid factor', () => {
+    const turning = { x: 0, y: 0, theta: 0, u: 0.4, w: 0.5 };
+    const d = driveDerivative(turning, theta, { u: 0, w: 0 }, { ...unlimited, lateralSlip: 0.1 }, mass);
+    // Turning left (ω > 0) the body slides to the right
+    close(d.y, -0.1 * 0.4 * 0.5);
+    const skidding = driveDerivative(turning, theta, { u: 0, w: 0 }, unlimited, mass, 0.5);
+    close(skidding.x, 0.2);
+    close(skidding.theta, 0.25);
+  });
+});
@@ -0,0 +1,92 @@
+import { DriveSpec } from '../types';
+import { DynamicParameters, PlantState, VelocityState, plantDerivative } from './dynamics';
+
+/**
+ * Wheel-level differential drive. The θ model describes the robot's
+ * velocity loops; here the commands (u_r, ω_r) become left and right wheel
+ * speeds through the wheel radius r and track width b,
+ *
+ *   φ̇_R = (u + ω b/2) / r,   φ̇_L = (u − ω b/2) / r,
+ *
+ * and the wheels are what is limited: each wheel's speed, its acceleration
+ * (the motor controller's profile) and the torque its motor can give, which
+ * falls linearly with speed and has to move the robot's and the payload's
+ * mass. Between wheels and ground, traction slips longitudinally in
+ * proportion to each wheel's acceleration, and the body drifts outwards in
+ * proportion to the centripetal acceleration of a turn.
+ *
+ * The velocity states u, ω stay those of the wheels, as the encoders see them.
+ */
+
+export interface WheelSpeeds {
+  left: number; // [rad/s]
+  right: number;
+}
+
+export const wheelSpeeds = ({ u, w }: VelocityState, { wheelRadius, trackWidth }: DriveSpec): WheelSpeeds => ({
+  left: (u - (w * trackWidth) / 2) / wheelRadius,
+  right: (u + (w * trackWidth) / 2) / wheelRadius,
+});
+
+const bodyVelocity = ({ left, right }: WheelSpeeds, { wheelRadius, trackWidth }: DriveSpec): VelocityState => ({
+  u: (wheelRadius * (right + left)) / 2,
+  w: (wheelRadius * (right - left)) / trackWidth,
+});
+
+/** Commands with both wheel references scaled into the speed limit, which keeps the turning radius. */
+export const limitCommand = (command: VelocityState, drive: DriveSpec): VelocityState => {
+  const { left, right } = wheelSpeeds(command, drive);
+  const scale = Math.min(1, drive.maxWheelSpeed / Math.max(Math.abs(left), Math.abs(right)));
+  return { u: command.u * scale, w: command.w * scale };
+};
+
+// Acceleration a wheel turning at `speed` can reach towards `accel`: the
+// controller's profile, and the motor torque on its half of the mass `mass`.
+// Speeding up, the torque falls with speed; braking, the full stall torque is available.
+const limitAccel = (speed: number, accel: number, drive: DriveSpec, mass: number): number => {
+  const speedingUp = speed * accel > 0;
+  if (speedingUp && Math.abs(speed) >= drive.maxWheelSpeed) return 0;
+  const torque = drive.stallTorque * (speedingUp ? Math.max(0, 1 - Math.abs(speed) / drive.noLoadSpeed) : 1);
+  const max = Math.min(drive.maxWheelAccel, (2 * torque) / (mass * drive.wheelRadius ** 2));
+  return Math.max(-max, Math.min(accel, max));
+};
+
+/**
+ * Time derivative of the plant state under the commands (u_r, ω_r), with the
+ * wheel limits and slip of `drive` on a robot of total mass `mass` [kg].
+ * `skid` < 1 scales the ground speed further (a slippery patch).
+ */
+export const driveDerivative = (
+  s: PlantState,
+  theta: DynamicParameters,
+  command: VelocityState,
+  drive: DriveSpec,
+  mass: number,
+  skid = 1,
+): PlantState => {
+  // What the velocity loops ask of the wheels, then what the wheels can do
+  const free = plantDerivative(s, theta, command.u, command.w);
+  const speeds = wheelSpeeds(s, drive);
+  const demand = wheelSpeeds({ u: free.u, w: free.w }, drive);
+  const accels = {
+    left: limitAccel(speeds.left, demand.left, drive, mass),
+    right: limitAccel(speeds.right, demand.right, drive, mass),
+  };
+
+  // Ground speed of each wheel's contact point, less what traction loses
+  const traction = (wheel: 'left' | 'right') => 1 - Math.min(1, drive.longitudinalSlip * Math.abs(accels[wheel] * drive.wheelRadius));
+  const ground = bodyVelocity({ left: speeds.left * traction('left'), right: speeds.right * traction('right') }, drive);
+  const u = skid * ground.u;
+  const w = skid * ground.w;
+  // Sideways speed in the body frame (positive to the left); turns push outwards
+  const lateral = -drive.lateralSlip * u * w;
+
+  const acceleration = bodyVelocity(accels, drive);
+  return {
+    x: u * Math.cos(s.theta) - lateral * Math.sin(s.theta),
+    y: u * Math.sin(s.theta) + lateral * Math.cos(s.theta),
+    theta: w,
+    u: acceleration.u,
+    w: acceleration.w,
+  };
+};
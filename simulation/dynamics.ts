@@ -0,0 +1,61 @@
+import { PlantSpec } from '../types';
+
+/**
+ * Dynamic model of the unicycle (De La Cruz & Carelli, used by Martins et al.):
+ *
+ *   u̇ = θ3/θ1 ω² − θ4/θ1 u + u_r/θ1
+ *   ω̇ = −θ5/θ2 u ω − θ6/θ2 ω + ω_r/θ2
+ *
+ * u_r, ω_r are the velocity commands sent to the robot's internal velocity
+ * loops, so θ captures mass, inertia, motor and low-level PD constants.
+ * Written equivalently as v_r = H v̇ + F(v) v, which is linear in θ:
+ *
+ *   v_r = G(v̇, v) θ,   G = [v̇_u  0    −ω²  u  0    0]
+ *                          [0    v̇_ω  0    0  u·ω  ω]
+ */
+
+export type DynamicParameters = number[]; // [θ1 … θ6]
+
+export interface VelocityState {
+  u: number; // Linear velocity [m/s]
+  w: number; // Angular velocity [rad/s]
+}
+
+export interface PlantState extends VelocityState {
+  x: number;
+  y: number;
+  theta: number;
+}
+
+/**
+ * True parameters of the robot `plant` carrying `loadMass` kg. θ1, θ3 and θ5 scale with
+ * total mass and θ2 with the inertia about the vertical axis, which for a load
+ * placed over the robot's centre grows by the same ratio. θ4 and θ6 are
+ * motor/friction terms and do not depend on the payload.
+ */
+export const plantParameters = (plant: PlantSpec, loadMass: number): DynamicParameters => {
+  const ratio = (plant.mass + loadMass) / plant.mass;
+  const [t1, t2, t3, t4, t5, t6] = plant.theta;
+  return [t1 * ratio, t2 * ratio, t3 * ratio, t4, t5 * ratio, t6];
+};
+
+/** Regressor G so that v_r = G θ, evaluated with σ in place of v̇. */
+export const regressor = (sigmaU: number, sigmaW: number, v: VelocityState): [number[], number[]] => [
+  [sigmaU, 0, -v.w * v.w, v.u, 0, 0],
+  [0, sigmaW, 0, 0, v.u * v.w, v.w],
+];
+
+/**
+ * Time derivative of the unicycle's state under the commands (u_r, ω_r),
+ * without wheel limits or slip (see driveDerivative for those).
+ */
+export const plantDerivative = (s: PlantState, theta: DynamicParameters, uCmd: number, wCmd: number): PlantState => {
+  const [t1, t2, t3, t4, t5, t6] = theta;
+  return {
+    x: s.u * Math.cos(s.theta),
+    y: s.u * Math.sin(s.theta),
+    theta: s.w,
+    u: (t3 / t1) * s.w * s.w - (t4 / t1) * s.u + uCmd / t1,
+    w: -(t5 / t2) * s.u * s.w - (t6 / t2) * s.w + wCmd / t2,
+  };
+};
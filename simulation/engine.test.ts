@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SimulationSpec } from '../types';
+import { Controller } from './controller';
+import { plantParameters } from './dynamics';
+import { SimulationEngine } from './engine';
+import { EXPERIMENT_PRESETS } from './presets';
+import { toSimulationSpec } from './recording';
+
+const presetSpec = (id: string): SimulationSpec => {
+  const preset = EXPERIMENT_PRESETS.find(p => p.id === id);
+  assert.ok(preset, `no preset '${id}'`);
+  return toSimulationSpec({ ...preset.config, isPlaying: false, timeScale: 1 });
+};
+
+const history = (spec: SimulationSpec, seconds: number) => new SimulationEngine(spec).run(Math.round(seconds * spec.physicsRate)).history;
+
+describe('SimulationEngine', () => {
+  // Every noise source on, so the seed has something to decide
+  const noisy = (seed: number): SimulationSpec => {
+    const spec = presetSpec('fig4');
+    return { ...spec, sensors: { ...spec.sensors, estimator: 'EKF', poseNoise: 0.01, headingNoise: 0.01, velocityNoise: 0.01, seed } };
+  };
+
+  it('repeats a noisy run exactly for the same seed', () => {
+    assert.deepEqual(history(noisy(7), 10), history(noisy(7), 10));
+  });
+
+  it('draws different noise for another seed', () => {
+    assert.notDeepEqual(history(noisy(7), 10), history(noisy(8), 10));
+  });
+
+  it('converges onto the circle with θ̂ staying near the nominal θ', () => {
+    const spec = presetSpec('fig4');
+    const samples = history(spec, 30);
+    const tail = samples.filter(s => s.time > 25);
+    const meanError = tail.reduce((acc, s) => acc + s.error, 0) / tail.length;
+    assert.ok(meanError < 0.005, `mean error ${meanError} m over the last 5 s`);
+
+    const last = samples[samples.length - 1];
+    const theta = plantParameters(spec.plant, 0);
+    [last.theta1, last.theta2, last.theta3, last.theta4, last.theta5, last.theta6].forEach((th, i) =>
+      assert.ok(Math.abs(th - theta[i]) < 0.1, `θ̂${i + 1} = ${th}, θ${i + 1} = ${theta[i]}`),
+    );
+  });
+
+  // A custom law returning `output` at every step, and the errors it reported over a second
+  const runCustom = (output: unknown) => {
+    const errors: string[] = [];
+    const engine = new SimulationEngine(presetSpec('fig4'));
+    engine.setController({ init: () => null, update: () => output } as unknown as Controller, message => errors.push(message));
+    engine.run(10);
+    return errors;
+  };
+
+  it('takes null params and reference from a custom law as none', () => {
+    assert.deepEqual(runCustom({ u: 0.1, w: 0, params: null, reference: null }), []);
+  });
+
+  it('swaps a custom law that returns malformed output for the built-in one and reports it', () => {
+    for (const output of [{ u: 0.1, w: 0, params: { gain: 'high' } }, { u: 0.1, w: 0, params: { gain: Infinity } }, { u: NaN, w: 0 }, { u: 0.1, w: 0, reference: {} }, null]) {
+      const errors = runCustom(output);
+      assert.equal(errors.length, 1, JSON.stringify(output));
+      assert.match(errors[0], /^Error: update\(\) must return .* \(in update\(\) at t = 0\.\d+ s\)$/);
+    }
+  });
+});
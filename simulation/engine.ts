@@ -0,0 +1,359 @@
+import { SIM_CONSTANTS } from '../constants';
+import { DisturbanceEvent, HistorySample, RobotState, RunningIntegrals, SimulationSpec, SimulationState } from '../types';
+import { Controller, ControllerInput, ControllerOutput, PARAMETER_NAMES, adaptiveController, controlPoint } from './controller';
+import { disturbanceStateAt, pushesBetween, sortEvents } from './disturbances';
+import { PoseEstimator } from './estimator';
+import { driveDerivative, limitCommand } from './drive';
+import { VelocityState, plantParameters } from './dynamics';
+import { INTEGRATORS } from './integrators';
+import { collides } from './obstacles';
+import { Trajectory, createTrajectory } from './trajectory';
+
+/** The robot at rest at the spec's initial pose, with θ̂(0) from the spec. */
+export const initialState = (spec: SimulationSpec): RobotState => ({
+  ...spec.initialPose,
+  linearVel: 0,
+  angularVel: 0,
+  parameters: [...spec.initialEstimate],
+});
+
+const ZERO_INTEGRALS: RunningIntegrals = { iae: 0, ise: 0, itae: 0, effortU: 0, effortW: 0 };
+
+/** Derives a run's reference from the shared trajectory, e.g. phase-shifted or following another robot. */
+export type ReferenceSource = (trajectory: Trajectory) => Trajectory;
+
+const cloneRobot = (robot: RobotState): RobotState => ({ ...robot, parameters: [...robot.parameters] });
+
+// Initial state with θ̂(0) taken from the spec
+const withEstimate = (robot: RobotState, spec: SimulationSpec): RobotState => ({ ...robot, parameters: [...spec.initialEstimate] });
+
+// The first six charted values of a controller stand in the θ̂ columns; unused ones are NaN
+const chartedParameters = (params: Record<string, number> = {}): number[] => {
+  const values = Object.values(params);
+  return PARAMETER_NAMES.map((_, i) => values[i] ?? NaN);
+};
+
+const isFiniteVelocity = (v: unknown): v is VelocityState =>
+  typeof v === 'object' && v !== null && Number.isFinite((v as VelocityState).u) && Number.isFinite((v as VelocityState).w);
+
+// What a custom law returned, checked before any of it reaches the plant or the charts
+const checkOutput = (output: unknown): ControllerOutput => {
+  if (!isFiniteVelocity(output)) throw new Error('update() must return finite commands { u, w }');
+  const { reference, params } = output as ControllerOutput;
+  if (reference != null && !isFiniteVelocity(reference)) throw new Error('update() must return a finite reference { u, w } or none');
+  if (params != null && (typeof params !== 'object' || !Object.values(params).every(Number.isFinite))) {
+    throw new Error('update() must return params as an object of finite numbers or none');
+  }
+  return { ...(output as ControllerOutput), reference: reference ?? undefined, params: params ?? undefined };
+};
+
+/**
+ * Headless closed-loop simulation: reference generation, control law (by
+ * default the paper's kinematic controller and adaptive dynamic layer) and
+ * plant. Contains no React or DOM code, so it can be stepped from a
+ * component, a Node script or a test suite alike, and two engines given the
+ * same spec and initial state produce identical runs.
+ */
+export class SimulationEngine {
+  private spec: SimulationSpec;
+  private trajectory: Trajectory;
+  private source: ReferenceSource;
+  private events: DisturbanceEvent[];
+  private initial: RobotState;
+  private robot: RobotState;
+  private estimator: PoseEstimator;
+  private t = 0;
+  private nextSample = SIM_CONSTANTS.SAMPLE_PERIOD;
+  private accumulator = 0;
+  private history: HistorySample[] = [];
+  private builtin: Controller;
+  private custom: Controller | null = null;
+  private controller: Controller;
+  private controllerState: unknown;
+  private onControllerError: ((message: string) => void) | null = null;
+  private charted = PARAMETER_NAMES;
+  private integrals: RunningIntegrals = { ...ZERO_INTEGRALS };
+  private peakError = 0;
+  private collided = false;
+  private external: VelocityState | null = null;
+
+  constructor(spec: SimulationSpec, initial: RobotState = initialState(spec), source: ReferenceSource = trajectory => trajectory) {
+    this.spec = { ...spec };
+    this.source = source;
+    this.trajectory = source(createTrajectory(spec.trajectory));
+    this.events = sortEvents(spec.events);
+    this.initial = withEstimate(initial, spec);
+    this.robot = cloneRobot(this.initial);
+    this.estimator = new PoseEstimator(spec.sensors, initial, spec.plant.drive.trackWidth);
+    this.builtin = adaptiveController(this.spec);
+    this.controller = this.builtin;
+    this.controllerState = this.controller.init();
+  }
+
+  get time(): number {
+    return this.t;
+  }
+
+  /** The robot as it is now, not copied; cheap enough to read every physics step, e.g. by followers. */
+  get state(): Readonly<RobotState> {
+    return this.robot;
+  }
+
+  /** Fixed physics step, from the configured physics rate. */
+  get dt(): number {
+    return 1 / this.spec.physicsRate;
+  }
+
+  /**
+   * Changes the spec mid-run (e.g. gains or the event schedule) without
+   * resetting the state. Events already in the past keep their effect only
+   * if they are still in the schedule.
+   */
+  configure(spec: SimulationSpec) {
+    if (spec.trajectory !== this.spec.trajectory) this.trajectory = this.source(createTrajectory(spec.trajectory));
+    if (spec.events !== this.spec.events) this.events = sortEvents(spec.events);
+    this.estimator.configure(spec.sensors, spec.plant.drive.trackWidth, this.t);
+    // A new θ̂(0) holds for the fixed controller at once and for the adaptive one from the next reset
+    this.initial = withEstimate(this.initial, spec);
+    this.spec = { ...spec };
+    // The built-in law reads its gains from the spec; its state carries on
+    this.builtin = adaptiveController(this.spec);
+    if (!this.custom) this.controller = this.builtin;
+  }
+
+  /**
+   * Swaps the control law mid-run; null brings back the built-in one. The new
+   * law starts from its initial state. If a custom law throws or returns
+   * non-finite commands, the built-in one takes over and `onError` hears why.
+   */
+  setController(controller: Controller | null, onError: ((message: string) => void) | null = null) {
+    this.custom = controller;
+    this.controller = controller ?? this.builtin;
+    this.onControllerError = onError;
+    this.charted = controller ? [] : PARAMETER_NAMES;
+    this.initController();
+  }
+
+  /** Names of the charted controller values held in `robot.parameters` (θ̂1 … θ̂6 for the built-in law). */
+  get chartedNames(): string[] {
+    return this.charted;
+  }
+
+  /**
+   * Hands the loop to an outside controller: while set, `command` replaces
+   * both controller layers (it still goes through the saturation events and
+   * the wheel limits) and θ̂ holds. Null gives the loop back.
+   */
+  setExternalCommand(command: VelocityState | null) {
+    this.external = command && { ...command };
+  }
+
+  reset(initial: RobotState = this.initial) {
+    this.initial = withEstimate(initial, this.spec);
+    this.robot = cloneRobot(this.initial);
+    this.estimator = new PoseEstimator(this.spec.sensors, initial, this.spec.plant.drive.trackWidth);
+    this.t = 0;
+    this.nextSample = SIM_CONSTANTS.SAMPLE_PERIOD;
+    this.accumulator = 0;
+    this.history = [];
+    this.initController();
+    this.integrals = { ...ZERO_INTEGRALS };
+    this.peakError = 0;
+    this.collided = false;
+  }
+
+  // Errors of the built-in law are bugs and propagate; a custom law that
+  // fails is swapped out for the built-in one
+  private fail(err: unknown, where: string) {
+    if (!this.custom) throw err;
+    const onError = this.onControllerError;
+    this.setController(null);
+    onError?.(`${String(err)} (${where})`);
+  }
+
+  private initController() {
+    try {
+      this.controllerState = this.controller.init();
+    } catch (err) {
+      this.fail(err, 'in init()');
+    }
+  }
+
+  private control(input: ControllerInput): ControllerOutput {
+    try {
+      const output = this.controller.update(input, this.controllerState);
+      return this.custom ? checkOutput(output) : output;
+    } catch (err) {
+      this.fail(err, `in update() at t = ${input.t.toFixed(3)} s`);
+      return this.controller.update(input, this.controllerState);
+    }
+  }
+
+  /**
+   * Advances the closed loop by one step of `dt`.
+   * Returns the history sample when one is recorded on this step, otherwise null.
+   */
+  step(): HistorySample | null {
+    const dt = this.dt;
+    this.t += dt;
+    const t = this.t;
+    const robot = this.robot;
+    const disturbance = disturbanceStateAt(this.events, t);
+
+    // Push impulses displace the robot sideways before the controllers see it
+    for (const push of pushesBetween(this.events, t - dt, t)) {
+      robot.x -= push.distance * Math.sin(robot.theta);
+      robot.y += push.distance * Math.cos(robot.theta);
+    }
+
+    // 1. Get Desired State (Global Coordinates)
+    const ref = this.trajectory(t);
+
+    // True distance error, for visualization and metrics
+    const h = controlPoint(robot, this.spec.kinematic.a);
+    const distError = Math.hypot(ref.x - h.x, ref.y - h.y);
+
+    // 2. Control law (by default the paper's kinematic, dynamic and adaptive layers)
+    // It acts on the measured pose and velocities, not the true ones.
+    // An outside controller's commands go to the plant as they are, and the
+    // law's state holds meanwhile.
+    const pose = this.estimator.measurePose(robot, t, dt);
+    const velocity = { u: robot.linearVel, w: robot.angularVel };
+    const measured = this.estimator.measureVelocity(velocity, t, dt);
+    const output: ControllerOutput = this.external ?? this.control({ t, dt, reference: ref, pose, velocity: measured });
+    const uRef = output.reference?.u ?? output.u;
+    const wRef = output.reference?.w ?? output.w;
+    if (!this.external) {
+      robot.parameters = chartedParameters(output.params);
+      this.charted = Object.keys(output.params ?? {}).slice(0, PARAMETER_NAMES.length);
+    }
+
+    // Limit command velocities (saturation events, then the wheels' top speed)
+    const { drive } = this.spec.plant;
+    const { u: uCmd, w: wCmd } = limitCommand({
+      u: Math.max(-disturbance.maxLinearVel, Math.min(output.u, disturbance.maxLinearVel)),
+      w: Math.max(-disturbance.maxAngularVel, Math.min(output.w, disturbance.maxAngularVel)),
+    }, drive);
+
+    // Performance integrals, accumulated at the physics rate
+    this.integrals.iae += distError * dt;
+    this.integrals.ise += distError * distError * dt;
+    this.integrals.itae += t * distError * dt;
+    this.integrals.effortU += Math.abs(uCmd) * dt;
+    this.integrals.effortW += Math.abs(wCmd) * dt;
+    this.peakError = Math.max(this.peakError, distError);
+
+    // Apply Dynamics (Plant Model)
+    // "Real" physics parameters (Unknown to controller)
+    const { loadMass, skid } = disturbance;
+    const theta = plantParameters(this.spec.plant, loadMass);
+    const plant = { x: robot.x, y: robot.y, theta: robot.theta, ...velocity };
+
+    // Update State (commands held over the step), through the wheels
+    const mass = this.spec.plant.mass + loadMass;
+    const command = { u: uCmd, w: wCmd };
+    const next = INTEGRATORS[this.spec.integrator](plant, s => driveDerivative(s, theta, command, drive, mass, skid), dt);
+    robot.x = next.x;
+    robot.y = next.y;
+    robot.theta = next.theta;
+    robot.linearVel = next.u;
+    robot.angularVel = next.w;
+
+    // Odometry sees the wheels turn over the step; absolute fixes arrive periodically
+    this.estimator.predict(velocity, next, dt);
+    this.estimator.correct(robot, t, dt);
+
+    // Obstacles do not stop the robot; contacts are only detected and recorded
+    const { obstacles } = this.spec;
+    if (obstacles.length > 0 && collides(robot, obstacles)) this.collided = true;
+
+    // Half-step tolerance keeps the sample times exact despite rounding in t
+    if (t < this.nextSample - dt / 2) return null;
+    this.nextSample += SIM_CONSTANTS.SAMPLE_PERIOD;
+
+    const estimate = this.estimator.estimate();
+    const sample: HistorySample = {
+      time: Number(t.toFixed(1)),
+      x: robot.x,
+      y: robot.y,
+      heading: robot.theta,
+      refX: ref.x,
+      refY: ref.y,
+      refHeading: Math.atan2(ref.dy, ref.dx),
+      refDx: ref.dx,
+      refDy: ref.dy,
+      error: distError,
+      uRef,
+      wRef,
+      uCmd,
+      wCmd,
+      u: robot.linearVel,
+      w: robot.angularVel,
+      theta1: robot.parameters[0],
+      theta2: robot.parameters[1],
+      theta3: robot.parameters[2],
+      theta4: robot.parameters[3],
+      theta5: robot.parameters[4],
+      theta6: robot.parameters[5],
+      peakError: this.peakError,
+      loadMass,
+      skid,
+      estX: estimate.x,
+      estY: estimate.y,
+      estHeading: estimate.theta,
+      estVarX: estimate.covariance?.[0] ?? 0,
+      estCovXY: estimate.covariance?.[1] ?? 0,
+      estVarY: estimate.covariance?.[2] ?? 0,
+      measX: pose.x,
+      measY: pose.y,
+      measHeading: pose.theta,
+      measU: measured.u,
+      measW: measured.w,
+      collision: this.collided ? 1 : 0,
+      integrals: { ...this.integrals },
+    };
+    this.peakError = 0;
+    this.collided = false;
+    this.history.push(sample);
+    return sample;
+  }
+
+  /**
+   * Advances simulated time by `seconds` in whole physics steps. The remainder
+   * carries over to the next call, so calling this with wall-clock frame times
+   * runs the physics at its own fixed rate whatever the display refresh rate.
+   * Returns the history samples recorded along the way.
+   */
+  advance(seconds: number): HistorySample[] {
+    const samples: HistorySample[] = [];
+    this.accumulator += seconds;
+    // Tolerance so that e.g. advance(1) at 1 kHz is exactly 1000 steps
+    while (this.accumulator >= this.dt * (1 - 1e-6)) {
+      this.accumulator -= this.dt;
+      const sample = this.step();
+      if (sample) samples.push(sample);
+    }
+    return samples;
+  }
+
+  /** Runs `n` steps back to back, e.g. for batch or test runs. */
+  run(n: number): SimulationState {
+    for (let i = 0; i < n; i++) this.step();
+    return this.snapshot();
+  }
+
+  /**
+   * Current state of the run. The robot is copied; `history` is the engine's
+   * own (append-only) array and grows for as long as the run does.
+   */
+  snapshot(): SimulationState {
+    const ref = this.trajectory(this.time);
+    return {
+      t: this.time,
+      robot: cloneRobot(this.robot),
+      estimate: this.estimator.estimate(),
+      reference: ref,
+      history: this.history,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SimulationEngine } from './engine';
+import { equationValues } from './equations';
+import { EXPERIMENT_PRESETS } from './presets';
+import { toSimulationSpec } from './recording';
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} ≠ ${expected}`);
+
+describe('equationValues', () => {
+  it('rebuilds the kinematic controller output from the terms it shows', () => {
+    for (const preset of EXPERIMENT_PRESETS) {
+      const spec = toSimulationSpec({ ...preset.config, isPlaying: false, timeScale: 1 });
+      const { history } = new SimulationEngine({ ...spec, sensors: { ...spec.sensors, poseNoise: 0.01, headingNoise: 0.01, velocityNoise: 0.01 } }).run(
+        10 * spec.physicsRate,
+      );
+      for (const s of history) {
+        // Eq. 4: [u_ref, ω_ref] = A⁻¹ (ḣ_d + l tanh(k/l · h̃)), A⁻¹ from the measured heading
+        const { dxd, dyd, correctionX, correctionY, uRef, wRef } = equationValues(s, spec);
+        const vx = dxd + correctionX;
+        const vy = dyd + correctionY;
+        const c = Math.cos(s.measHeading);
+        const sn = Math.sin(s.measHeading);
+        close(uRef, c * vx + sn * vy);
+        close(wRef, (-sn * vx + c * vy) / spec.kinematic.a);
+      }
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { HistorySample, SimulationSpec } from '../types';
+
+/**
+ * The terms of the paper's control and update laws at one sample, to show
+ * next to the equations while the simulation runs. They are worked out from
+ * the recorded inputs of the built-in controller at the sample's step (the
+ * measured pose and velocities and the reference velocity); obstacle
+ * repulsion is left out.
+ */
+export interface EquationValues {
+  time: number;
+  xTilde: number; // h̃ = h_d − h in the world frame (Eq. 4) [m]
+  yTilde: number;
+  dxd: number; // Reference velocity ḣ_d [m/s]
+  dyd: number;
+  correctionX: number; // l_x tanh(k_x/l_x · x̃) [m/s]
+  correctionY: number;
+  uRef: number; // Kinematic controller output
+  wRef: number;
+  uTilde: number; // Velocity errors (Eq. 7)
+  wTilde: number;
+  uCmd: number; // Commands v_r = G θ̂
+  wCmd: number;
+  thetaHat: number[];
+}
+
+export const equationValues = (s: HistorySample, { kinematic }: SimulationSpec): EquationValues => {
+  const { a, lx, ly, kx, ky } = kinematic;
+  const xTilde = s.refX - (s.measX + a * Math.cos(s.measHeading));
+  const yTilde = s.refY - (s.measY + a * Math.sin(s.measHeading));
+  return {
+    time: s.time,
+    xTilde,
+    yTilde,
+    dxd: s.refDx,
+    dyd: s.refDy,
+    correctionX: lx * Math.tanh((kx / lx) * xTilde),
+    correctionY: ly * Math.tanh((ky / ly) * yTilde),
+    uRef: s.uRef,
+    wRef: s.wRef,
+    uTilde: s.uRef - s.measU,
+    wTilde: s.wRef - s.measW,
+    uCmd: s.uCmd,
+    wCmd: s.wCmd,
+    thetaHat: [s.theta1, s.theta2, s.theta3, s.theta4, s.theta5, s.theta6],
+  };
+};
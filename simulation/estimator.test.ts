@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SENSORS } from '../constants';
+import { SensorSpec } from '../types';
+import { Pose, PoseEstimator } from './estimator';
+
+const TRACK = 0.33;
+const DT = 0.01;
+
+const sensors = (spec: Partial<SensorSpec>): SensorSpec => ({ ...DEFAULT_SENSORS, ...spec });
+
+// Drives a robot at constant (u, w) from the origin for `seconds` from time
+// `start`, stepping the estimator as the engine does; `each` sees the
+// estimator after every step
+const drive = (estimator: PoseEstimator, u: number, w: number, seconds: number, each?: (t: number) => void, start = 0): Pose => {
+  const truth = { x: 0, y: 0, theta: 0 };
+  const v = { u, w };
+  const steps = Math.round(seconds / DT);
+  for (let k = 1; k <= steps; k++) {
+    const t = start + k * DT;
+    estimator.measurePose(truth, t, DT);
+    // Exact arc over the step
+    const theta = truth.theta + w * DT;
+    if (w === 0) {
+      truth.x += u * DT * Math.cos(truth.theta);
+      truth.y += u * DT * Math.sin(truth.theta);
+    } else {
+      truth.x += (u / w) * (Math.sin(theta) - Math.sin(truth.theta));
+      truth.y -= (u / w) * (Math.cos(theta) - Math.cos(truth.theta));
+    }
+    truth.theta = theta;
+    estimator.predict(v, v, DT);
+    estimator.correct(truth, t, DT);
+    each?.(t);
+  }
+  return truth;
+};
+
+const estimator = (spec: Partial<SensorSpec>) => new PoseEstimator(sensors(spec), { x: 0, y: 0, theta: 0 }, TRACK);
+
+const distance = (a: Pose, b: Pose) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('PoseEstimator', () => {
+  it('dead-reckons an arc from ideal encoders', () => {
+    const e = estimator({ estimator: 'ODOMETRY' });
+    const truth = drive(e, 0.3, 0.5, 10);
+    const pose = e.estimate();
+    assert.ok(distance(pose, truth) < 1e-6, `${distance(pose, truth)} m off`);
+    assert.ok(Math.abs(pose.theta - truth.theta) < 1e-9);
+  });
+
+  it('lags the true travel by less than an encoder tick', () => {
+    const tick = 0.001;
+    const e = estimator({ estimator: 'ODOMETRY', encoderResolution: tick });
+    const truth = drive(e, 0.2345, 0, 3);
+    const lag = truth.x - e.estimate().x;
+    assert.ok(lag >= 0 && lag < tick, `lag ${lag} m`);
+  });
+
+  it('drifts with a scale error on one encoder, and the EKF fixes keep the estimate close', () => {
+    const spec = { odometryDrift: 0.01, fixPeriod: 1 };
+    const odometry = estimator({ ...spec, estimator: 'ODOMETRY' });
+    const ekf = estimator({ ...spec, estimator: 'EKF' });
+    const truthOdometry = drive(odometry, 0.3, 0.2, 60);
+    const truthEkf = drive(ekf, 0.3, 0.2, 60);
+    const drift = distance(odometry.estimate(), truthOdometry);
+    const fixed = distance(ekf.estimate(), truthEkf);
+    assert.ok(drift > 0.1, `odometry only ${drift} m off`);
+    assert.ok(fixed < drift / 10, `EKF ${fixed} m off, odometry ${drift} m`);
+  });
+
+  it('shrinks the EKF covariance at each fix and grows it in between', () => {
+    const e = estimator({ estimator: 'EKF', fixPeriod: 1 });
+    const variances: number[] = [];
+    drive(e, 0.3, 0, 2.5, () => variances.push(e.estimate().covariance![0]));
+    // Samples at 0.99, 1.00 (fix) and 1.01 s
+    assert.ok(variances[99] < variances[98]);
+    assert.ok(variances[100] > variances[99]);
+  });
+
+  it('counts a changed fix period from the time of the change', () => {
+    const e = estimator({ estimator: 'EKF', fixPeriod: 10 });
+    drive(e, 0.3, 0, 3);
+    e.configure(sensors({ estimator: 'EKF', fixPeriod: 1 }), TRACK, 3);
+    const fixes: number[] = [];
+    let last = e.estimate().covariance![0];
+    drive(e, 0.3, 0, 2.5, t => {
+      const v = e.estimate().covariance![0];
+      if (v < last) fixes.push(Number(t.toFixed(2)));
+      last = v;
+    }, 3);
+    assert.deepEqual(fixes, [4, 5]);
+  });
+});
@@ -0,0 +1,188 @@
+import { SENSOR_CONSTANTS } from '../constants';
+import { PoseEstimate, SensorSpec } from '../types';
+import { VelocityState } from './dynamics';
+import { Matrix, add, multiply, transpose } from './matrix';
+import { Random, createRandom } from './random';
+
+/**
+ * Sensor models and pose estimation between the plant and the controllers.
+ *
+ * - DIRECT: an absolute pose sensor (e.g. motion capture) with Gaussian noise.
+ * - ODOMETRY: dead reckoning from quantized wheel encoders. Wheel slip and the
+ *   right encoder's scale error make it drift without bound.
+ * - EKF: the odometry as the process model, corrected by absolute position
+ *   fixes every `fixPeriod` seconds.
+ *
+ * Odometry and EKF are propagated whatever the selected mode, so switching
+ * modes mid-run hands the controllers an estimate with its full history.
+ */
+
+export interface Pose {
+  x: number;
+  y: number;
+  theta: number;
+}
+
+const MIN_FIX_VARIANCE = 1e-6; // m², keeps the innovation covariance invertible for noiseless fixes
+
+export class PoseEstimator {
+  private spec: SensorSpec;
+  private trackWidth: number; // Of the drive the encoders sit on [m]
+  private random: Random;
+  private direct: Pose;
+  private odometry: Pose;
+  private ekf: Pose;
+  private P: Matrix;
+  private travel = { left: 0, right: 0 }; // True wheel travel since the start [m]
+  private counted = { left: 0, right: 0 }; // Travel the encoders have reported so far [m]
+  private nextFix: number;
+  private poseError: Pose = { x: 0, y: 0, theta: 0 };
+  private nextPose = 0;
+  private velocityError: VelocityState = { u: 0, w: 0 };
+  private nextVelocity = 0;
+
+  constructor(spec: SensorSpec, initial: Pose, trackWidth: number) {
+    this.spec = { ...spec };
+    this.trackWidth = trackWidth;
+    this.random = createRandom(spec.seed);
+    this.direct = { ...initial };
+    this.odometry = { ...initial };
+    this.ekf = { ...initial };
+    const v = SENSOR_CONSTANTS.INITIAL_STD ** 2;
+    this.P = [[v, 0, 0], [0, v, 0], [0, 0, v]];
+    this.nextFix = spec.fixPeriod;
+  }
+
+  /** New sensor settings at time `t`; a changed fix period counts from `t`, not from the last fix. */
+  configure(spec: SensorSpec, trackWidth: number, t: number) {
+    if (spec.fixPeriod !== this.spec.fixPeriod) this.nextFix = t + spec.fixPeriod;
+    this.spec = { ...spec };
+    this.trackWidth = trackWidth;
+  }
+
+  /**
+   * Pose the controllers act on at time `t`. The absolute pose sensor's noise
+   * is redrawn at the sensor's own rate rather than every physics step, so
+   * its bandwidth does not depend on the physics rate.
+   */
+  measurePose(truth: Pose, t: number, dt: number): Pose {
+    if (t >= this.nextPose - dt / 2) {
+      this.nextPose += 1 / SENSOR_CONSTANTS.POSE_RATE;
+      const { poseNoise, headingNoise } = this.spec;
+      this.poseError = {
+        x: this.random.gaussian(poseNoise),
+        y: this.random.gaussian(poseNoise),
+        theta: this.random.gaussian(headingNoise),
+      };
+    }
+    this.direct = { x: truth.x + this.poseError.x, y: truth.y + this.poseError.y, theta: truth.theta + this.poseError.theta };
+    const { x, y, theta } = this.estimate();
+    return { x, y, theta };
+  }
+
+  /**
+   * Velocities as seen by the dynamic controller and the update law at time
+   * `t`. Like the pose, their noise is redrawn at the sensor's rate.
+   */
+  measureVelocity(v: VelocityState, t: number, dt: number): VelocityState {
+    if (t >= this.nextVelocity - dt / 2) {
+      this.nextVelocity += 1 / SENSOR_CONSTANTS.VELOCITY_RATE;
+      const { velocityNoise } = this.spec;
+      this.velocityError = { u: this.random.gaussian(velocityNoise), w: this.random.gaussian(velocityNoise) };
+    }
+    return { u: v.u + this.velocityError.u, w: v.w + this.velocityError.w };
+  }
+
+  /**
+   * Propagates odometry and EKF over a step of `dt` in which the wheel
+   * velocities went from `v0` to `v1`. The encoders measure the wheels, not
+   * the ground, so slip shows up as odometry error.
+   */
+  predict(v0: VelocityState, v1: VelocityState, dt: number) {
+    const L = this.trackWidth;
+    const u = (v0.u + v1.u) / 2;
+    const w = (v0.w + v1.w) / 2;
+    this.travel.right += (u + (w * L) / 2) * dt * (1 + this.spec.odometryDrift);
+    this.travel.left += (u - (w * L) / 2) * dt;
+
+    const dR = this.encoderIncrement('right');
+    const dL = this.encoderIncrement('left');
+    const ds = (dR + dL) / 2;
+    const dTheta = (dR - dL) / L;
+
+    this.odometry = integrateOdometry(this.odometry, ds, dTheta);
+
+    // Jacobians of the odometry step w.r.t. the pose (F) and the wheel travels (W)
+    const mid = this.ekf.theta + dTheta / 2;
+    const c = Math.cos(mid);
+    const s = Math.sin(mid);
+    const F = [[1, 0, -ds * s], [0, 1, ds * c], [0, 0, 1]];
+    const k = ds / (2 * L);
+    const W = [
+      [c / 2 - k * s, c / 2 + k * s],
+      [s / 2 + k * c, s / 2 - k * c],
+      [1 / L, -1 / L],
+    ];
+    // Wheel travel variance grows with the distance covered
+    const k2 = SENSOR_CONSTANTS.ODOMETRY_NOISE ** 2;
+    const Q = [[k2 * Math.abs(dR), 0], [0, k2 * Math.abs(dL)]];
+    this.ekf = integrateOdometry(this.ekf, ds, dTheta);
+    this.P = add(multiply(multiply(F, this.P), transpose(F)), multiply(multiply(W, Q), transpose(W)));
+  }
+
+  /** Fuses a noisy absolute position fix of `truth` into the EKF when one is due at `t`. */
+  correct(truth: Pose, t: number, dt: number) {
+    if (t < this.nextFix - dt / 2) return;
+    this.nextFix += this.spec.fixPeriod;
+
+    const r = Math.max(this.spec.poseNoise ** 2, MIN_FIX_VARIANCE);
+    const innovation = [
+      truth.x + this.random.gaussian(this.spec.poseNoise) - this.ekf.x,
+      truth.y + this.random.gaussian(this.spec.poseNoise) - this.ekf.y,
+    ];
+    // H = [I₂ 0], so S = P₂ₓ₂ + R and K = P Hᵀ S⁻¹
+    const P = this.P;
+    const s00 = P[0][0] + r;
+    const s01 = P[0][1];
+    const s11 = P[1][1] + r;
+    const det = s00 * s11 - s01 * s01;
+    const Sinv = [[s11 / det, -s01 / det], [-s01 / det, s00 / det]];
+    const K = multiply(P.map(row => [row[0], row[1]]), Sinv);
+
+    this.ekf = {
+      x: this.ekf.x + K[0][0] * innovation[0] + K[0][1] * innovation[1],
+      y: this.ekf.y + K[1][0] * innovation[0] + K[1][1] * innovation[1],
+      theta: this.ekf.theta + K[2][0] * innovation[0] + K[2][1] * innovation[1],
+    };
+    // P ← (I − K H) P, symmetrized against rounding
+    const updated = P.map((row, i) => row.map((v, j) => v - K[i][0] * P[0][j] - K[i][1] * P[1][j]));
+    this.P = updated.map((row, i) => row.map((v, j) => (v + updated[j][i]) / 2));
+  }
+
+  /** Estimate of the selected mode. */
+  estimate(): PoseEstimate {
+    switch (this.spec.estimator) {
+      case 'DIRECT':
+        return { ...this.direct, covariance: null };
+      case 'ODOMETRY':
+        return { ...this.odometry, covariance: null };
+      case 'EKF':
+        return { ...this.ekf, covariance: [this.P[0][0], this.P[0][1], this.P[1][1]] };
+    }
+  }
+
+  // Travel reported by one wheel's encoder this step, in whole ticks
+  private encoderIncrement(wheel: 'left' | 'right'): number {
+    const res = this.spec.encoderResolution;
+    const reported = res > 0 ? Math.trunc(this.travel[wheel] / res) * res : this.travel[wheel];
+    const increment = reported - this.counted[wheel];
+    this.counted[wheel] = reported;
+    return increment;
+  }
+}
+
+// Midpoint integration of one odometry step
+const integrateOdometry = (pose: Pose, ds: number, dTheta: number): Pose => {
+  const mid = pose.theta + dTheta / 2;
+  return { x: pose.x + ds * Math.cos(mid), y: pose.y + ds * Math.sin(mid), theta: pose.theta + dTheta };
+};
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_EVENTS, DEFAULT_EXPRESSION, DEFAULT_WAYPOINTS, LOAD_PROFILE, TrajectoryType } from '../constants';
+import { DEFAULT_EXPERIMENT, ExperimentConfig, ExperimentError, decodeExperiment, encodeExperiment, validateExperiment } from './experiment';
+import { EXPERIMENT_PRESETS } from './presets';
+
+const roundTrip = (config: ExperimentConfig) => decodeExperiment(encodeExperiment(config, 'test')).config;
+
+// The default with one part replaced, as an editor would leave it
+const edited = (changes: Partial<ExperimentConfig>): ExperimentConfig => ({ ...DEFAULT_EXPERIMENT, ...changes });
+
+describe('encodeExperiment / decodeExperiment', () => {
+  it('brings back the default and every preset unchanged', () => {
+    assert.deepEqual(roundTrip(DEFAULT_EXPERIMENT), DEFAULT_EXPERIMENT);
+    for (const preset of EXPERIMENT_PRESETS) assert.deepEqual(roundTrip(preset.config), preset.config, preset.id);
+  });
+
+  it('brings back what the editors start from', () => {
+    const configs = [
+      edited({ events: Object.values(DEFAULT_EVENTS).map(e => ({ ...e })) }),
+      edited({ events: LOAD_PROFILE.map(e => ({ ...e })) }),
+      edited({ trajectory: { type: TrajectoryType.WAYPOINTS, waypoints: DEFAULT_WAYPOINTS } }),
+      // Undo and Clear stop at two waypoints
+      edited({ trajectory: { type: TrajectoryType.WAYPOINTS, waypoints: DEFAULT_WAYPOINTS.slice(0, 2) } }),
+      edited({ trajectory: { type: TrajectoryType.EXPRESSION, ...DEFAULT_EXPRESSION } }),
+      edited({ runMode: 'FORMATION' }),
+      edited({ adaptation: { ...DEFAULT_EXPERIMENT.adaptation, gains: [0, 0.02, 0, 0.02, 0, 0.02] } }),
+    ];
+    for (const config of configs) assert.deepEqual(roundTrip(config), config);
+  });
+});
+
+describe('validateExperiment', () => {
+  it('rejects values outside the limits the editors keep to', () => {
+    const cases: [Partial<ExperimentConfig>, string][] = [
+      [{ events: [{ type: 'LOAD', time: -1, mass: 20 }] }, 'config.events[0].time'],
+      [{ events: [{ type: 'LOAD', time: 5, mass: -20 }] }, 'config.events[0].mass'],
+      [{ events: [{ type: 'SATURATION', time: 5, maxLinearVel: 0, maxAngularVel: 1 }] }, 'config.events[0].maxLinearVel'],
+      [{ trajectory: { type: TrajectoryType.WAYPOINTS, waypoints: DEFAULT_WAYPOINTS.slice(0, 1) } }, 'config.trajectory.waypoints'],
+      [{ kinematic: { ...DEFAULT_EXPERIMENT.kinematic, kx: 0 } }, 'config.kinematic.kx'],
+      [{ dynamic: { ...DEFAULT_EXPERIMENT.dynamic, kw: -4 } }, 'config.dynamic.kw'],
+      [{ adaptation: { ...DEFAULT_EXPERIMENT.adaptation, gains: [-0.02, 0.02, 0.002, 0.02, 0.002, 0.02] } }, 'config.adaptation.gains[0]'],
+    ];
+    for (const [changes, path] of cases) {
+      assert.throws(() => validateExperiment(edited(changes)), (e: unknown) => e instanceof ExperimentError && e.message.startsWith(`${path}:`), path);
+    }
+  });
+
+  it('fills in left-out fields from the defaults', () => {
+    assert.deepEqual(validateExperiment({ isAdaptive: true }), { ...DEFAULT_EXPERIMENT, isAdaptive: true });
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  DEFAULT_ADAPTATION,
+  DEFAULT_AVOIDANCE,
+  DEFAULT_DYNAMIC_GAINS,
+  DEFAULT_FORMATION,
+  DEFAULT_INITIAL_POSE,
+  DEFAULT_KINEMATIC_GAINS,
+  DEFAULT_PLANT,
+  DEFAULT_SENSORS,
+  PLANT_CONSTANTS,
+  SIM_CONSTANTS,
+  TrajectoryType,
+} from '../constants';
+import { ControlConfig } from '../types';
+import { compileExpression } from './expression';
+
+/**
+ * Experiments: everything that determines a run (trajectory, initial pose,
+ * plant, gains, adaptation law, disturbances, sensors, obstacles, run mode)
+ * as one validated document, so a setup can be shared as a link or a file
+ * and reproduced exactly. Playback settings (playing, time scale) are not
+ * part of it.
+ */
+
+export const EXPERIMENT_FORMAT = 'adaptive-robot-experiment';
+export const EXPERIMENT_VERSION = 1;
+
+// Query/hash parameter holding an encoded experiment
+export const EXPERIMENT_PARAM = 'experiment';
+
+export type ExperimentConfig = Omit<ControlConfig, 'isPlaying' | 'timeScale'>;
+
+export interface Experiment {
+  format: typeof EXPERIMENT_FORMAT;
+  version: number;
+  name?: string;
+  config: ExperimentConfig;
+}
+
+export class ExperimentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExperimentError';
+  }
+}
+
+export const DEFAULT_EXPERIMENT: ExperimentConfig = {
+  isAdaptive: false,
+  adaptation: DEFAULT_ADAPTATION,
+  initialEstimate: [...PLANT_CONSTANTS.THETA],
+  events: [],
+  sensors: { ...DEFAULT_SENSORS },
+  obstacles: [],
+  avoidance: DEFAULT_AVOIDANCE,
+  plant: DEFAULT_PLANT,
+  initialPose: DEFAULT_INITIAL_POSE,
+  trajectory: { type: TrajectoryType.CIRCLE },
+  kinematic: DEFAULT_KINEMATIC_GAINS,
+  dynamic: DEFAULT_DYNAMIC_GAINS,
+  integrator: 'RK4',
+  physicsRate: SIM_CONSTANTS.PHYSICS_RATE,
+  runMode: 'SINGLE',
+  formation: DEFAULT_FORMATION,
+};
+
+/** The experiment part of the UI config. */
+export const toExperiment = ({ isPlaying, timeScale, ...config }: ControlConfig): ExperimentConfig => config;
+
+// Schema of a config value. Objects are closed (unknown keys are errors);
+// unions pick their fields by the value's `type`.
+type Schema =
+  | 'number'
+  | 'positive'
+  | 'nonnegative'
+  | { max: number } // A positive number up to `max`
+  | 'boolean'
+  | 'string'
+  | { enum: readonly string[] }
+  | { array: Schema; length?: number; min?: number }
+  | { object: Record<string, Schema> }
+  | { union: Record<string, Record<string, Schema>> };
+
+const POINT: Schema = { object: { x: 'number', y: 'number' } };
+const THETA: Schema = { array: 'number', length: 6 };
+const TIME: Schema = 'nonnegative';
+
+const SCHEMA: Record<keyof ExperimentConfig, Schema> = {
+  isAdaptive: 'boolean',
+  adaptation: {
+    object: {
+      law: { enum: ['GRADIENT', 'SIGMA', 'E_MOD', 'PROJECTION', 'DEAD_ZONE'] },
+      gains: { array: 'nonnegative', length: 6 }, // Zero leaves that parameter unadapted
+      sigma: 'nonnegative',
+      deadZone: 'nonnegative',
+      min: THETA,
+      max: THETA,
+    },
+  },
+  initialEstimate: THETA,
+  events: {
+    array: {
+      union: {
+        LOAD: { time: TIME, mass: 'nonnegative' },
+        SKID: { time: TIME, duration: 'nonnegative', factor: 'nonnegative' },
+        PUSH: { time: TIME, distance: 'number' },
+        SATURATION: { time: TIME, maxLinearVel: 'positive', maxAngularVel: 'positive' },
+      },
+    },
+  },
+  sensors: {
+    object: {
+      estimator: { enum: ['DIRECT', 'ODOMETRY', 'EKF'] },
+      poseNoise: 'nonnegative',
+      headingNoise: 'nonnegative',
+      velocityNoise: 'nonnegative',
+      encoderResolution: 'nonnegative',
+      odometryDrift: 'number',
+      fixPeriod: 'positive',
+      seed: 'number',
+    },
+  },
+  obstacles: {
+    array: {
+      union: {
+        CIRCLE: { center: POINT, radius: 'positive' },
+        POLYGON: { points: { array: POINT, min: 3 } },
+        WALL: { from: POINT, to: POINT, thickness: 'positive' },
+      },
+    },
+  },
+  avoidance: { object: { enabled: 'boolean', gain: 'nonnegative', range: 'positive' } },
+  plant: {
+    object: {
+      profile: { enum: ['PIONEER_3DX', 'CUSTOM'] },
+      theta: THETA,
+      mass: 'positive',
+      drive: {
+        object: {
+          wheelRadius: 'positive',
+          trackWidth: 'positive',
+          maxWheelSpeed: 'positive',
+          maxWheelAccel: 'positive',
+          stallTorque: 'positive',
+          noLoadSpeed: 'positive',
+          longitudinalSlip: 'nonnegative',
+          lateralSlip: 'nonnegative',
+        },
+      },
+    },
+  },
+  initialPose: { object: { x: 'number', y: 'number', theta: 'number' } },
+  trajectory: {
+    union: {
+      ...Object.fromEntries(['CIRCLE', 'FIGURE_EIGHT', 'LINE', 'SQUARE', 'LISSAJOUS'].map(type => [type, {}])),
+      WAYPOINTS: { waypoints: { array: POINT, min: 2 } },
+      EXPRESSION: { x: 'string', y: 'string' },
+    },
+  },
+  kinematic: { object: { a: 'positive', lx: 'positive', ly: 'positive', kx: 'positive', ky: 'positive' } },
+  dynamic: { object: { ku: 'positive', kw: 'positive' } },
+  integrator: { enum: ['EULER', 'RK4'] },
+  physicsRate: { max: SIM_CONSTANTS.MAX_PHYSICS_RATE },
+  runMode: { enum: ['SINGLE', 'COMPARE', 'FORMATION'] },
+  formation: {
+    object: {
+      mode: { enum: ['INDEPENDENT', 'LEADER_FOLLOWER'] },
+      robots: {
+        array: { object: { id: 'string', isAdaptive: 'boolean', payload: 'nonnegative', phase: 'number', offset: POINT } },
+        min: 1,
+      },
+    },
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Throws an ExperimentError naming the first place where `value` does not match `schema`
+const check = (value: unknown, schema: Schema, path: string): void => {
+  const fail = (expected: string): never => {
+    throw new ExperimentError(`${path}: expected ${expected}`);
+  };
+  if (schema === 'number') {
+    if (typeof value !== 'number' || Number.isNaN(value)) fail('a number');
+  } else if (schema === 'positive') {
+    if (typeof value !== 'number' || !Number.isFinite(value) || !(value > 0)) fail('a positive number');
+  } else if (schema === 'nonnegative') {
+    if (typeof value !== 'number' || !Number.isFinite(value) || !(value >= 0)) fail('a non-negative number');
+  } else if (schema === 'boolean' || schema === 'string') {
+    if (typeof value !== schema) fail(`a ${schema}`);
+  } else if ('max' in schema) {
+    if (typeof value !== 'number' || !(value > 0 && value <= schema.max)) fail(`a positive number up to ${schema.max}`);
+  } else if ('enum' in schema) {
+    if (!schema.enum.includes(value as string)) fail(`one of ${schema.enum.join(', ')}`);
+  } else if ('array' in schema) {
+    if (!Array.isArray(value)) fail('a list');
+    const list = value as unknown[];
+    if (schema.length !== undefined && list.length !== schema.length) fail(`${schema.length} entries`);
+    if (schema.min !== undefined && list.length < schema.min) fail(`at least ${schema.min} entries`);
+    list.forEach((item, i) => check(item, schema.array, `${path}[${i}]`));
+  } else if ('object' in schema) {
+    checkFields(value, schema.object, path);
+  } else {
+    if (!isObject(value)) fail('an object');
+    const fields = schema.union[String((value as Record<string, unknown>).type)];
+    if (!fields) fail(`type to be one of ${Object.keys(schema.union).join(', ')}`);
+    checkFields(value, { ...fields, type: 'string' }, path);
+  }
+};
+
+const checkFields = (value: unknown, fields: Record<string, Schema>, path: string) => {
+  if (!isObject(value)) throw new ExperimentError(`${path}: expected an object`);
+  const unknown = Object.keys(value).find(key => !(key in fields));
+  if (unknown) throw new ExperimentError(`${path}: unknown field '${unknown}'`);
+  Object.entries(fields).forEach(([key, schema]) => {
+    if (!(key in value)) throw new ExperimentError(`${path}: missing '${key}'`);
+    check(value[key], schema, `${path}.${key}`);
+  });
+};
+
+// Fills in missing fields of plain objects from the defaults; lists and unions are taken as given
+const withDefaults = (value: unknown, defaults: unknown, schema: Schema): unknown => {
+  if (value === undefined) return defaults;
+  if (typeof schema !== 'object' || !('object' in schema) || !isObject(value) || !isObject(defaults)) return value;
+  const merged: Record<string, unknown> = { ...value };
+  Object.entries(schema.object).forEach(([key, field]) => {
+    merged[key] = withDefaults(value[key], defaults[key], field);
+  });
+  return merged;
+};
+
+/**
+ * Validates an experiment config. Fields left out take their defaults, so
+ * hand-written experiments and presets only need what differs; anything
+ * present must be well-formed. Throws an ExperimentError otherwise.
+ */
+export const validateExperiment = (config: unknown): ExperimentConfig => {
+  if (!isObject(config)) throw new ExperimentError('config: expected an object');
+  const merged = withDefaults(config, DEFAULT_EXPERIMENT, { object: SCHEMA }) as Record<string, unknown>;
+  checkFields(merged, SCHEMA, 'config');
+  const result = merged as unknown as ExperimentConfig;
+  if (result.trajectory.type === 'EXPRESSION') {
+    try {
+      compileExpression(result.trajectory.x);
+      compileExpression(result.trajectory.y);
+    } catch (e) {
+      throw new ExperimentError(`config.trajectory: ${(e as Error).message}`);
+    }
+  }
+  const ids = result.formation.robots.map(r => r.id);
+  if (new Set(ids).size !== ids.length) throw new ExperimentError('config.formation.robots: ids must be unique');
+  return result;
+};
+
+export const experimentToJSON = (config: ExperimentConfig, name?: string): string => {
+  const experiment: Experiment = { format: EXPERIMENT_FORMAT, version: EXPERIMENT_VERSION, name, config };
+  return JSON.stringify(experiment, null, 2);
+};
+
+/** Parses and validates an experiment file. Throws an ExperimentError if it is not one. */
+export const parseExperiment = (text: string): Experiment => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ExperimentError('Not valid JSON');
+  }
+  if (!isObject(data) || data.format !== EXPERIMENT_FORMAT) throw new ExperimentError('Not an experiment file');
+  if (data.version !== EXPERIMENT_VERSION) throw new ExperimentError(`Unsupported experiment version ${data.version}`);
+  if (data.name !== undefined && typeof data.name !== 'string') throw new ExperimentError('name: expected a string');
+  return { format: EXPERIMENT_FORMAT, version: EXPERIMENT_VERSION, name: data.name, config: validateExperiment(data.config) };
+};
+
+// URL-safe base64 of UTF-8 text (expressions and ids may hold any character)
+const toBase64Url = (text: string) =>
+  btoa(Array.from(new TextEncoder().encode(text), b => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+/** The experiment as a URL parameter value. The full config is encoded, so links keep their meaning if defaults change. */
+export const encodeExperiment = (config: ExperimentConfig, name?: string): string =>
+  toBase64Url(JSON.stringify({ format: EXPERIMENT_FORMAT, version: EXPERIMENT_VERSION, name, config }));
+
+export const decodeExperiment = (encoded: string): Experiment => {
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    throw new ExperimentError('Link does not hold an experiment');
+  }
+  return parseExperiment(text);
+};
+
+/** Experiment in a URL's hash or query (`#experiment=…` or `?experiment=…`), or null if there is none. */
+export const experimentFromURL = (url: URL): Experiment | null => {
+  const encoded = new URLSearchParams(url.hash.slice(1)).get(EXPERIMENT_PARAM) ?? url.searchParams.get(EXPERIMENT_PARAM);
+  return encoded ? decodeExperiment(encoded) : null;
+};
+
+/** `url` carrying the experiment in its hash, the query left as is. */
+export const experimentURL = (url: URL, config: ExperimentConfig, name?: string): string => {
+  const link = new URL(url.href);
+  link.searchParams.delete(EXPERIMENT_PARAM);
+  link.hash = `${EXPERIMENT_PARAM}=${encodeExperiment(config, name)}`;
+  return link.href;
+};
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ExpressionError, compileExpression } from './expression';
+import { variable } from './jet';
+
+const at = (src: string, t = 0) => compileExpression(src)(variable(t));
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} ≠ ${expected}`);
+
+describe('compileExpression', () => {
+  it('follows the usual precedence, with ^ right-associative and above unary minus', () => {
+    assert.equal(at('1 + 2 * 3').v, 7);
+    assert.equal(at('(1 + 2) * 3').v, 9);
+    assert.equal(at('8 / 4 / 2').v, 1);
+    assert.equal(at('2 ^ 3 ^ 2').v, 512);
+    assert.equal(at('-2 ^ 2').v, -4);
+    assert.equal(at('+-3').v, -3);
+    assert.equal(at('1.5e2').v, 150);
+  });
+
+  it('knows t, the constants and the functions, in any case', () => {
+    close(at('t', 2).v, 2);
+    close(at('PI').v, Math.PI);
+    close(at('e').v, Math.E);
+    close(at('Sqrt(t)', 4).v, 2);
+  });
+
+  it('carries exact first and second derivatives', () => {
+    const t = 1;
+    const x = at('0.8*cos(0.5*t)', t);
+    close(x.v, 0.8 * Math.cos(0.5));
+    close(x.d, -0.4 * Math.sin(0.5));
+    close(x.dd, -0.2 * Math.cos(0.5));
+
+    const y = at('t^3 - exp(2*t)', t);
+    close(y.d, 3 - 2 * Math.exp(2));
+    close(y.dd, 6 - 4 * Math.exp(2));
+  });
+
+  it('rejects malformed input with an ExpressionError', () => {
+    for (const src of ['', '2 *', '(1 + t', '1 2', 'foo(t)', 'sin t', '3 $ 4', ')']) {
+      assert.throws(() => compileExpression(src), ExpressionError, `'${src}'`);
+    }
+  });
+});
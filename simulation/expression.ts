@@ -0,0 +1,154 @@
+import * as J from './jet';
+import { Jet } from './jet';
+
+/**
+ * Parser for user-entered trajectory expressions such as `0.8*cos(0.5*t)`.
+ *
+ * Supports numbers, the variable `t`, the constants `pi` and `e`, the
+ * operators + - * / ^ (right-associative) and the functions listed in
+ * FUNCTIONS. Expressions compile to a function over jets, so the trajectory
+ * gets exact first and second derivatives for free.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export type CompiledExpression = (t: Jet) => Jet;
+
+const FUNCTIONS: Record<string, (a: Jet) => Jet> = {
+  sin: J.sin,
+  cos: J.cos,
+  tan: J.tan,
+  exp: J.exp,
+  log: J.log,
+  sqrt: J.sqrt,
+  abs: J.abs,
+  tanh: J.tanh,
+  atan: J.atan,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token = { kind: 'num'; value: number } | { kind: 'id'; name: string } | { kind: 'op'; op: string };
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[0-9.]/.test(c)) {
+      const m = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(src.slice(i));
+      if (!m) throw new ExpressionError(`Invalid number at position ${i + 1}`);
+      tokens.push({ kind: 'num', value: Number(m[0]) });
+      i += m[0].length;
+    } else if (/[a-zA-Z_]/.test(c)) {
+      const m = /^[a-zA-Z_]\w*/.exec(src.slice(i))!;
+      tokens.push({ kind: 'id', name: m[0] });
+      i += m[0].length;
+    } else if ('+-*/^()'.includes(c)) {
+      tokens.push({ kind: 'op', op: c });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected character '${c}' at position ${i + 1}`);
+    }
+  }
+  return tokens;
+};
+
+export const compileExpression = (src: string): CompiledExpression => {
+  const tokens = tokenize(src);
+  let pos = 0;
+
+  const peekOp = (op: string) => {
+    const tok = tokens[pos];
+    return tok !== undefined && tok.kind === 'op' && tok.op === op;
+  };
+  const expectOp = (op: string) => {
+    if (!peekOp(op)) throw new ExpressionError(`Expected '${op}'`);
+    pos++;
+  };
+
+  const parseExpr = (): CompiledExpression => {
+    let left = parseTerm();
+    while (peekOp('+') || peekOp('-')) {
+      const op = (tokens[pos++] as { op: string }).op;
+      const l = left;
+      const r = parseTerm();
+      left = op === '+' ? t => J.add(l(t), r(t)) : t => J.sub(l(t), r(t));
+    }
+    return left;
+  };
+
+  const parseTerm = (): CompiledExpression => {
+    let left = parseUnary();
+    while (peekOp('*') || peekOp('/')) {
+      const op = (tokens[pos++] as { op: string }).op;
+      const l = left;
+      const r = parseUnary();
+      left = op === '*' ? t => J.mul(l(t), r(t)) : t => J.div(l(t), r(t));
+    }
+    return left;
+  };
+
+  const parseUnary = (): CompiledExpression => {
+    if (peekOp('-')) {
+      pos++;
+      const a = parseUnary();
+      return t => J.neg(a(t));
+    }
+    if (peekOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): CompiledExpression => {
+    const base = parsePrimary();
+    if (!peekOp('^')) return base;
+    pos++;
+    const exponent = parseUnary();
+    return t => J.pow(base(t), exponent(t));
+  };
+
+  const parsePrimary = (): CompiledExpression => {
+    const tok = tokens[pos++];
+    if (!tok) throw new ExpressionError('Unexpected end of expression');
+    if (tok.kind === 'num') {
+      const c = J.constant(tok.value);
+      return () => c;
+    }
+    if (tok.kind === 'op') {
+      if (tok.op !== '(') throw new ExpressionError(`Unexpected '${tok.op}'`);
+      const inner = parseExpr();
+      expectOp(')');
+      return inner;
+    }
+    const name = tok.name.toLowerCase();
+    if (name === 't') return t => t;
+    if (name in CONSTANTS) {
+      const c = J.constant(CONSTANTS[name]);
+      return () => c;
+    }
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new ExpressionError(`Unknown name '${tok.name}'`);
+    expectOp('(');
+    const arg = parseExpr();
+    expectOp(')');
+    return t => fn(arg(t));
+  };
+
+  if (tokens.length === 0) throw new ExpressionError('Expression is empty');
+  const compiled = parseExpr();
+  if (pos < tokens.length) throw new ExpressionError('Unexpected input after end of expression');
+  return compiled;
+};
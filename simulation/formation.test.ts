@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_FORMATION } from '../constants';
+import { HistorySample, SimulationSpec } from '../types';
+import { createComparison, stepRuns } from './comparison';
+import { SimulationEngine, initialState } from './engine';
+import { followerReference, formationError, formationErrorSeries, formationModeOf, formationVariants, variantSetup } from './formation';
+import { EXPERIMENT_PRESETS } from './presets';
+import { toSimulationSpec } from './recording';
+import { createTrajectory } from './trajectory';
+
+const spec: SimulationSpec = (() => {
+  const preset = EXPERIMENT_PRESETS.find(p => p.id === 'fig4');
+  assert.ok(preset);
+  return toSimulationSpec({ ...preset.config, isPlaying: false, timeScale: 1 });
+})();
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≠ ${expected}`);
+
+// A sample whose control point, `a` ahead of the pose, is `error` off the reference
+const sampleOff = (error: { x: number; y: number }, a: number, time = 1) =>
+  ({ time, x: -a, y: 0, heading: 0, refX: -error.x, refY: -error.y }) as HistorySample;
+
+describe('formationVariants', () => {
+  it('makes robot 1 the leader and the others follow it at their offsets', () => {
+    const variants = formationVariants(DEFAULT_FORMATION);
+    assert.deepEqual(variants.map(v => v.label), ['Leader 1', 'Robot 2', 'Robot 3']);
+    assert.equal(variants[0].follows, undefined);
+    assert.deepEqual(variants[2].follows, { leader: 'r1', offset: DEFAULT_FORMATION.robots[2].offset });
+    assert.deepEqual(variants[2].overrides, { isAdaptive: false });
+    assert.equal(variants[2].payload, 10);
+    assert.ok(variants.every(v => v.phase === undefined));
+    assert.equal(formationModeOf(variants), 'LEADER_FOLLOWER');
+  });
+
+  it('gives independent robots their phases and no leader', () => {
+    const variants = formationVariants({ ...DEFAULT_FORMATION, mode: 'INDEPENDENT' });
+    assert.deepEqual(variants.map(v => v.phase), [0, 2, 4]);
+    assert.ok(variants.every(v => v.follows === undefined));
+    assert.equal(formationModeOf(variants), 'INDEPENDENT');
+    assert.equal(formationModeOf([]), null);
+  });
+});
+
+describe('followerReference', () => {
+  it('moves with the point fixed in the leader frame', () => {
+    const u = 0.3;
+    const w = 0.4;
+    const start = { ...initialState(spec), x: 1, y: 2, theta: 0.5, linearVel: u, angularVel: w };
+    const offset = { x: -0.4, y: 0.3 };
+    const reference = followerReference(new SimulationEngine(spec, start), offset)(0);
+
+    // The offset point of a leader driving the arc at (u, ω), differentiated numerically
+    const at = (tau: number) => {
+      const theta = start.theta + w * tau;
+      const x = start.x + (u / w) * (Math.sin(theta) - Math.sin(start.theta));
+      const y = start.y - (u / w) * (Math.cos(theta) - Math.cos(start.theta));
+      return { x: x + offset.x * Math.cos(theta) - offset.y * Math.sin(theta), y: y + offset.x * Math.sin(theta) + offset.y * Math.cos(theta) };
+    };
+    const eps = 1e-4;
+    const [before, now, after] = [at(-eps), at(0), at(eps)];
+    close(reference.x, now.x);
+    close(reference.y, now.y);
+    close(reference.dx, (after.x - before.x) / (2 * eps), 1e-7);
+    close(reference.dy, (after.y - before.y) / (2 * eps), 1e-7);
+    close(reference.ddx, (after.x - 2 * now.x + before.x) / eps ** 2, 1e-5);
+    close(reference.ddy, (after.y - 2 * now.y + before.y) / eps ** 2, 1e-5);
+  });
+});
+
+describe('variantSetup', () => {
+  const base = createTrajectory(spec.trajectory);
+  const start = initialState(spec);
+
+  it('starts a follower at its place in the leader frame', () => {
+    const leader = new SimulationEngine(spec, { ...start, x: 1, y: 0, theta: Math.PI / 2 });
+    const [, follower] = formationVariants(DEFAULT_FORMATION);
+    const { initial, source } = variantSetup(follower, base, start, leader);
+    close(initial.x, 1 - 0.3);
+    close(initial.y, -0.4);
+    close(initial.theta, Math.PI / 2);
+    assert.ok(source);
+  });
+
+  it('starts a phase-shifted robot as far along as its reference', () => {
+    const [, second] = formationVariants({ ...DEFAULT_FORMATION, mode: 'INDEPENDENT' });
+    const { initial, source } = variantSetup(second, base, start);
+    close(initial.x - start.x, base(2).x - base(0).x);
+    close(initial.y - start.y, base(2).y - base(0).y);
+    assert.ok(source);
+    close(source(base)(1).x, base(3).x);
+  });
+});
+
+describe('formationError', () => {
+  const a = 0.15;
+
+  it('is the RMS of the followers tracking errors, leaving out the leader', () => {
+    const samples = [sampleOff({ x: 5, y: 5 }, a), sampleOff({ x: 0.3, y: 0 }, a), sampleOff({ x: 0, y: 0.4 }, a)];
+    close(formationError(samples, a, 'LEADER_FOLLOWER'), Math.sqrt((0.09 + 0.16) / 2));
+    assert.equal(formationError(samples.slice(0, 1), a, 'LEADER_FOLLOWER'), 0);
+  });
+
+  it('does not count a lag that independent robots share', () => {
+    const samples = [sampleOff({ x: 0.2, y: 0.1 }, a), sampleOff({ x: 0.2, y: 0.1 }, a)];
+    close(formationError(samples, a, 'INDEPENDENT'), 0);
+  });
+
+  it('holds the default wedge once the followers have caught up', () => {
+    const variants = formationVariants(DEFAULT_FORMATION);
+    const runs = stepRuns(createComparison(spec, variants), 40 * spec.physicsRate);
+    const series = formationErrorSeries(runs, spec.kinematic.a, 'LEADER_FOLLOWER');
+    assert.equal(series.length, runs[0].length);
+    const tail = series.filter(s => s.time > 30);
+    const worst = Math.max(...tail.map(s => s.error));
+    assert.ok(worst < 0.02, `formation error up to ${worst} m after 30 s`);
+  });
+});
@@ -0,0 +1,127 @@
+import { FORMATION_PALETTE } from '../constants';
+import { FormationSpec, HistorySample, Point, RobotState, RunVariant } from '../types';
+import { ReferenceSource, SimulationEngine } from './engine';
+import { Trajectory } from './trajectory';
+
+/**
+ * Multi-robot runs. Every robot is an ordinary run variant with its own
+ * engine; what makes them a formation is where their references come from:
+ *
+ * - INDEPENDENT: each robot tracks the shared trajectory `phase` seconds ahead.
+ * - LEADER_FOLLOWER: robots[0] tracks the trajectory and every other robot
+ *   tracks a point fixed in the leader's frame, read from the leader's engine
+ *   at every physics step (the runs must be advanced in lockstep).
+ */
+
+/** Run variants of a formation; the first robot is the leader. */
+export const formationVariants = ({ mode, robots }: FormationSpec): RunVariant[] =>
+  robots.map((robot, i) => ({
+    id: robot.id,
+    label: `${i === 0 && mode === 'LEADER_FOLLOWER' ? 'Leader' : 'Robot'} ${i + 1}`,
+    ...FORMATION_PALETTE[i % FORMATION_PALETTE.length],
+    overrides: { isAdaptive: robot.isAdaptive },
+    payload: robot.payload,
+    phase: mode === 'INDEPENDENT' ? robot.phase : undefined,
+    follows: mode === 'LEADER_FOLLOWER' && i > 0 ? { leader: robots[0].id, offset: robot.offset } : undefined,
+  }));
+
+// Point fixed at `offset` in the frame of a robot at `pose`
+const inFrame = (pose: Pick<RobotState, 'x' | 'y' | 'theta'>, offset: Point): Point => ({
+  x: pose.x + offset.x * Math.cos(pose.theta) - offset.y * Math.sin(pose.theta),
+  y: pose.y + offset.x * Math.sin(pose.theta) + offset.y * Math.cos(pose.theta),
+});
+
+/**
+ * Reference of a follower: the leader's current pose carried through the
+ * offset, with the velocity and acceleration of that point as feedforward
+ * (the leader's own accelerations are not known, so they are left out).
+ */
+export const followerReference = (leader: SimulationEngine, offset: Point): Trajectory => () => {
+  const robot = leader.state;
+  const { x, y } = inFrame(robot, offset);
+  const c = Math.cos(robot.theta);
+  const s = Math.sin(robot.theta);
+  const u = robot.linearVel;
+  const w = robot.angularVel;
+  // Offset rotated into the world frame, and the same rotated by 90°
+  const rx = offset.x * c - offset.y * s;
+  const ry = offset.x * s + offset.y * c;
+  return {
+    x,
+    y,
+    dx: u * c - w * ry,
+    dy: u * s + w * rx,
+    ddx: -u * w * s - w * w * rx,
+    ddy: u * w * c - w * w * ry,
+  };
+};
+
+/**
+ * Where a variant's reference comes from, and where its robot starts given
+ * the spec's initial state `start`: phase-shifted runs start as far along as
+ * their reference, followers at their place in the leader's frame.
+ */
+export const variantSetup = (
+  variant: RunVariant,
+  base: Trajectory,
+  start: RobotState,
+  leader?: SimulationEngine,
+): { initial: RobotState; source?: ReferenceSource } => {
+  if (variant.follows && leader) {
+    const { offset } = variant.follows;
+    const pose = leader.state;
+    const initial = { ...start, ...inFrame(pose, offset), theta: pose.theta };
+    return { initial, source: () => followerReference(leader, offset) };
+  }
+  const phase = variant.phase ?? 0;
+  if (phase === 0) return { initial: start };
+  const from = base(0);
+  const to = base(phase);
+  const initial = {
+    ...start,
+    x: start.x + to.x - from.x,
+    y: start.y + to.y - from.y,
+    theta: start.theta + Math.atan2(to.dy, to.dx) - Math.atan2(from.dy, from.dx),
+  };
+  return { initial, source: trajectory => t => trajectory(t + phase) };
+};
+
+// Tracking error vector of a sampled robot's control point
+const errorVector = (s: HistorySample, a: number): Point => ({
+  x: s.x + a * Math.cos(s.heading) - s.refX,
+  y: s.y + a * Math.sin(s.heading) - s.refY,
+});
+
+/**
+ * Formation error at one instant, from one sample per robot (leader first):
+ * the RMS over the other robots of how far they are from their place in the
+ * formation. Followers' references are already relative to the leader, so
+ * that is their tracking error; independent robots are compared with the
+ * first one, so that a shared lag does not count as a formation error.
+ */
+export const formationError = (samples: HistorySample[], a: number, mode: FormationSpec['mode']): number => {
+  if (samples.length < 2) return 0;
+  const e0 = mode === 'INDEPENDENT' ? errorVector(samples[0], a) : { x: 0, y: 0 };
+  const squared = samples.slice(1).map(s => {
+    const e = errorVector(s, a);
+    return (e.x - e0.x) ** 2 + (e.y - e0.y) ** 2;
+  });
+  return Math.sqrt(squared.reduce((acc, e) => acc + e, 0) / squared.length);
+};
+
+/** Formation mode of a set of runs (e.g. from a recording), or null if they are not a formation. */
+export const formationModeOf = (variants: RunVariant[]): FormationSpec['mode'] | null => {
+  if (variants.some(v => v.follows)) return 'LEADER_FOLLOWER';
+  if (variants.some(v => v.phase !== undefined)) return 'INDEPENDENT';
+  return null;
+};
+
+/**
+ * Formation error at every sample time of lockstep runs (leader first). It is
+ * instantaneous, so statistics over it resolve to the sample period.
+ */
+export const formationErrorSeries = (runs: HistorySample[][], a: number, mode: FormationSpec['mode']) =>
+  (runs[0] ?? []).map((sample, k) => ({
+    time: sample.time,
+    error: formationError(runs.map(run => run[k]).filter(s => s && s.time === sample.time), a, mode),
+  }));
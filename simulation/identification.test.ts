@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_IDENTIFICATION, PLANT_CONSTANTS } from '../constants';
+import { IdentificationSpec } from '../types';
+import { DEFAULT_EXPERIMENT } from './experiment';
+import { identifyParameters, runExcitation } from './identification';
+
+const sim = (velocityNoise: number, seed: number) => ({ ...DEFAULT_EXPERIMENT, sensors: { ...DEFAULT_EXPERIMENT.sensors, velocityNoise, seed } });
+
+const identify = (spec: Partial<IdentificationSpec>, velocityNoise = 0, seed = 1) => {
+  const experiment = { ...DEFAULT_IDENTIFICATION, ...spec };
+  const s = sim(velocityNoise, seed);
+  return identifyParameters(runExcitation(experiment, s), s.plant, experiment.loadMass);
+};
+
+describe('identifyParameters', () => {
+  it('recovers θ from noise-free chirp data, with and without the load', () => {
+    for (const loadMass of [0, PLANT_CONSTANTS.LOAD_MASS]) {
+      const result = identify({ loadMass });
+      assert.ok(result);
+      assert.equal(result.limited, 0);
+      result.theta.forEach((th, i) => assert.ok(Math.abs(th - result.trueTheta[i]) < 1e-4, `θ${i + 1} = ${th}, true ${result.trueTheta[i]}`));
+    }
+  });
+
+  it('keeps the errors of noisy estimates within a few standard errors', () => {
+    for (let seed = 1; seed <= 3; seed++) {
+      const result = identify({ loadMass: PLANT_CONSTANTS.LOAD_MASS }, 0.01, seed);
+      assert.ok(result);
+      result.theta.forEach((th, i) => {
+        const z = (th - result.trueTheta[i]) / result.std[i];
+        assert.ok(Math.abs(z) < 4, `seed ${seed}: θ${i + 1} is ${z.toFixed(1)} standard errors off`);
+      });
+    }
+  });
+
+  it('reports the share of the run the drive limits held back', () => {
+    const result = identify({ signal: 'PRBS' });
+    assert.ok(result);
+    assert.ok(result.limited > 0);
+  });
+
+  it('gives up on a run too short to fit', () => {
+    assert.equal(identify({ duration: 1 }), null);
+  });
+});
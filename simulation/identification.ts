@@ -0,0 +1,240 @@
+import { IDENTIFICATION_CONSTANTS } from '../constants';
+import { IdentificationSpec, PlantSpec, SimulationSpec } from '../types';
+import { driveDerivative, limitCommand } from './drive';
+import { DynamicParameters, PlantState, plantDerivative, plantParameters } from './dynamics';
+import { INTEGRATORS, rk4Step } from './integrators';
+import { invert, multiply, transpose } from './matrix';
+import { createRandom } from './random';
+
+/**
+ * Offline identification of θ as done in the paper before the adaptive
+ * controller runs: the robot is driven open loop by a persistently exciting
+ * command, the velocities are logged, and the model
+ *
+ *   u_r = θ1 u̇ − θ3 ω² + θ4 u
+ *   ω_r = θ2 ω̇ + θ5 u ω + θ6 ω
+ *
+ * is fitted to the whole log at once. The two rows share no parameters, so
+ * each is a separate three-parameter fit with its own standard errors.
+ */
+
+export interface ExcitationSample {
+  time: number;
+  uCmd: number; // Commands applied until the next sample (their mean, as they change every physics step)
+  wCmd: number;
+  u: number; // Measured velocities
+  w: number;
+  limited: boolean; // The wheels' speed or acceleration limits held the robot back until the next sample
+}
+
+export interface IdentificationResult {
+  theta: DynamicParameters; // Estimates θ1 … θ6
+  std: number[]; // Standard errors
+  interval: [number, number][]; // Confidence intervals (see CONFIDENCE_Z)
+  residualStd: [number, number]; // RMS fit error of the u_r and ω_r rows
+  limited: number; // Fraction of the fitted samples during which the drive limits held (the θ model does not hold there)
+  trueTheta: DynamicParameters; // The simulated plant's parameters, for comparison
+  samples: number;
+}
+
+/** Persistently exciting commands (u_r, ω_r) as a function of time. */
+export const excitationSignal = (spec: IdentificationSpec, seed: number) => {
+  const { CHIRP_F0: f0, CHIRP_F1: f1, PRBS_HOLD } = IDENTIFICATION_CONSTANTS;
+  if (spec.signal === 'CHIRP') {
+    // Linear sweeps, up in u and down in ω, so the two inputs stay uncorrelated
+    const sweep = (t: number, from: number, to: number) => 2 * Math.PI * (from * t + ((to - from) * t * t) / (2 * spec.duration));
+    return (t: number) => ({
+      uCmd: spec.meanU + spec.amplitudeU * Math.sin(sweep(t, f0, f1)),
+      wCmd: spec.amplitudeW * Math.sin(sweep(t, f1, f0)),
+    });
+  }
+  // PRBS: each input flips sign with probability ½ every hold period
+  const random = createRandom(seed);
+  const levels: { u: number; w: number }[] = [];
+  let u = 1;
+  let w = 1;
+  for (let k = 0; k * PRBS_HOLD <= spec.duration; k++) {
+    if (random.uniform() < 0.5) u = -u;
+    if (random.uniform() < 0.5) w = -w;
+    levels.push({ u, w });
+  }
+  return (t: number) => {
+    const level = levels[Math.min(Math.floor(t / PRBS_HOLD), levels.length - 1)];
+    return { uCmd: spec.meanU + spec.amplitudeU * level.u, wCmd: spec.amplitudeW * level.w };
+  };
+};
+
+/**
+ * Runs the excitation experiment on the simulated plant, logged at
+ * SAMPLE_RATE with the velocity sensor's noise.
+ */
+export const runExcitation = (
+  spec: IdentificationSpec,
+  sim: Pick<SimulationSpec, 'plant' | 'integrator' | 'physicsRate' | 'sensors'>,
+): ExcitationSample[] => {
+  const signal = excitationSignal(spec, sim.sensors.seed);
+  const random = createRandom(sim.sensors.seed + 1);
+  const theta = plantParameters(sim.plant, spec.loadMass);
+  const { drive } = sim.plant;
+  const mass = sim.plant.mass + spec.loadMass;
+  const dt = 1 / sim.physicsRate;
+  const logEvery = Math.max(1, Math.round(sim.physicsRate / IDENTIFICATION_CONSTANTS.SAMPLE_RATE));
+  const steps = Math.round(spec.duration * sim.physicsRate);
+
+  let state: PlantState = { x: 0, y: 0, theta: 0, u: 0, w: 0 };
+  const samples: ExcitationSample[] = [];
+  for (let i = 0; i < steps; i++) {
+    const t = i * dt;
+    if (i % logEvery === 0) {
+      const noise = sim.sensors.velocityNoise;
+      samples.push({ time: t, uCmd: 0, wCmd: 0, u: state.u + random.gaussian(noise), w: state.w + random.gaussian(noise), limited: false });
+    }
+    // The wheels' top speed limits what is applied, and the fit uses what was applied
+    const excitation = signal(t);
+    const command = limitCommand({ u: excitation.uCmd, w: excitation.wCmd }, drive);
+    const derivative = (s: PlantState) => driveDerivative(s, theta, command, drive, mass);
+    const sample = samples[samples.length - 1];
+    sample.uCmd += command.u / logEvery;
+    sample.wCmd += command.w / logEvery;
+    // Clipped commands are still fitted as applied, but a clipped acceleration departs from the model
+    const free = plantDerivative(state, theta, command.u, command.w);
+    const actual = derivative(state);
+    if (Math.abs(free.u - actual.u) + Math.abs(free.w - actual.w) > 1e-9 * (1 + Math.abs(free.u) + Math.abs(free.w))) sample.limited = true;
+    state = INTEGRATORS[sim.integrator](state, derivative, dt);
+  }
+  return samples;
+};
+
+// Instrumental-variable fit of y ≈ Φ p, p = (ZᵀΦ)⁻¹ Zᵀ y (least squares when Z = Φ)
+const fit = (phi: number[][], z: number[][], y: number[]) => {
+  const n = phi[0].length;
+  const inverse = invert(Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => z.reduce((acc, row, k) => acc + row[i] * phi[k][j], 0))));
+  if (!inverse) return null;
+  const rhs = Array.from({ length: n }, (_, i) => z.reduce((acc, row, k) => acc + row[i] * y[k], 0));
+  const p = inverse.map(row => row.reduce((acc, v, j) => acc + v * rhs[j], 0));
+  const residuals = phi.map((row, k) => y[k] - row.reduce((a, v, j) => a + v * p[j], 0));
+  return { p, inverse, residuals, rms: Math.sqrt(residuals.reduce((acc, e) => acc + e * e, 0) / residuals.length) };
+};
+
+// Standard errors of a fit. The residuals are filtered noise and model error,
+// correlated over many samples, so the covariance is the Newey–West sandwich
+// A⁻¹ S A⁻ᵀ, with A = ZᵀΦ and S the Bartlett-weighted sum of the scores'
+// autocovariances up to `lags` samples apart.
+const standardErrors = ({ inverse, residuals }: NonNullable<ReturnType<typeof fit>>, z: number[][], lags: number) => {
+  const n = inverse.length;
+  const scores = z.map((row, k) => row.map(v => v * residuals[k]));
+  const S = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let l = 0; l <= Math.min(lags, scores.length - 1); l++) {
+    const weight = 1 - l / (lags + 1);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let k = l; k < scores.length; k++) sum += scores[k][i] * scores[k - l][j];
+        // Lag l and its mirror −l
+        S[i][j] += l === 0 ? sum : weight * sum;
+        if (l > 0) S[j][i] += weight * sum;
+      }
+    }
+  }
+  return multiply(multiply(inverse, S), transpose(inverse)).map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+};
+
+// Second-order low-pass λ²/(s + λ)² of a logged signal, stepped once per
+// logging interval, with the filtered signal's derivative taken from the
+// filter states (no numeric differentiation). That derivative is the slope
+// over the interval, i.e. the mean of the derivative across it, so the values
+// are interval means too: a signal held over the interval (a command) already
+// is one, while one sampled at its start (a velocity) is averaged with the
+// fourth-order rule (−f₋₁ + 13 f₀ + 13 f₁ − f₂) / 24. Misaligned by even half
+// a sample, the fast-changing commands bias the small θ3, θ5 many times over.
+const lowPass = (values: number[], times: number[], held = false) => {
+  const lambda = 2 * Math.PI * IDENTIFICATION_CONSTANTS.FILTER_BANDWIDTH;
+  let x1 = values[0];
+  let x2 = values[0];
+  const states = values.map((v, i) => {
+    const h = (times[i + 1] ?? times[i]) - times[i];
+    const state = { value: x2, derivative: lambda * (x1 - x2) };
+    x2 += h * state.derivative;
+    x1 += h * lambda * (v - x1);
+    return state;
+  });
+  if (held) return states;
+  const y = (i: number) => states[Math.min(Math.max(i, 0), states.length - 1)].value;
+  return states.map(({ derivative }, i) => ({ value: (13 * (y(i) + y(i + 1)) - y(i - 1) - y(i + 2)) / 24, derivative }));
+};
+
+// Noise-free velocities of the model with parameters θ under the logged
+// commands, from the measured start
+const simulate = (data: ExcitationSample[], theta: DynamicParameters) => {
+  let state: PlantState = { x: 0, y: 0, theta: 0, u: data[0].u, w: data[0].w };
+  return data.map((s, i) => {
+    const sample = { u: state.u, w: state.w };
+    const h = (data[i + 1]?.time ?? s.time) - s.time;
+    state = rk4Step(state, x => plantDerivative(x, theta, s.uCmd, s.wCmd), h);
+    return sample;
+  });
+};
+
+// Filtered regressors of the u_r row [u̇ −ω² u] and the ω_r row [ω̇ uω ω]
+const regressors = (velocities: { u: number; w: number }[], times: number[], rows: number[]) => {
+  const filtered = (f: (v: { u: number; w: number }) => number) => lowPass(velocities.map(f), times);
+  const u = filtered(v => v.u);
+  const w = filtered(v => v.w);
+  const w2 = filtered(v => v.w * v.w);
+  const uw = filtered(v => v.u * v.w);
+  return {
+    u: rows.map(i => [u[i].derivative, -w2[i].value, u[i].value]),
+    w: rows.map(i => [w[i].derivative, uw[i].value, w[i].value]),
+  };
+};
+
+/**
+ * Batch fit on a logged experiment. Commands and regressors pass through the
+ * same low-pass filter, which leaves the (linear) model intact while its
+ * states provide the accelerations without differentiating noisy velocities.
+ *
+ * The regressors are built from measured velocities, so their noise biases
+ * least squares. The least-squares estimate is therefore
+ * only the start: the model it describes is run on the logged commands, and
+ * its noise-free velocities give the instruments for an instrumental-variable
+ * fit, repeated IV_ITERATIONS times. Returns null when the data cannot
+ * determine the parameters (too short, or not exciting enough).
+ */
+export const identifyParameters = (data: ExcitationSample[], plant: PlantSpec, loadMass: number): IdentificationResult | null => {
+  const times = data.map(s => s.time);
+  const rows = data.map((_, i) => i).filter(i => times[i] >= IDENTIFICATION_CONSTANTS.SETTLE_TIME);
+  if (rows.length < 10) return null;
+
+  const uCmd = lowPass(data.map(s => s.uCmd), times, true);
+  const wCmd = lowPass(data.map(s => s.wCmd), times, true);
+  const yU = rows.map(i => uCmd[i].value);
+  const yW = rows.map(i => wCmd[i].value);
+  const phi = regressors(data, times, rows);
+  const lags = Math.round(IDENTIFICATION_CONSTANTS.HAC_LAG * IDENTIFICATION_CONSTANTS.SAMPLE_RATE);
+
+  // Back into θ order: u row holds θ1, θ3, θ4 and ω row θ2, θ5, θ6
+  const order = (u: number[], w: number[]) => [u[0], w[0], u[1], u[2], w[1], w[2]];
+  let instruments = phi;
+  let uFit = fit(phi.u, instruments.u, yU);
+  let wFit = fit(phi.w, instruments.w, yW);
+  for (let k = 0; k < IDENTIFICATION_CONSTANTS.IV_ITERATIONS && uFit && wFit; k++) {
+    instruments = regressors(simulate(data, order(uFit.p, wFit.p)), times, rows);
+    if (instruments.u.some(row => !row.every(Number.isFinite)) || instruments.w.some(row => !row.every(Number.isFinite))) return null;
+    uFit = fit(phi.u, instruments.u, yU);
+    wFit = fit(phi.w, instruments.w, yW);
+  }
+  if (!uFit || !wFit) return null;
+
+  const theta = order(uFit.p, wFit.p);
+  const std = order(standardErrors(uFit, instruments.u, lags), standardErrors(wFit, instruments.w, lags));
+  const z = IDENTIFICATION_CONSTANTS.CONFIDENCE_Z;
+  return {
+    theta,
+    std,
+    interval: theta.map((th, i) => [th - z * std[i], th + z * std[i]]),
+    residualStd: [uFit.rms, wFit.rms],
+    limited: rows.filter(i => data[i].limited).length / rows.length,
+    trueTheta: plantParameters(plant, loadMass),
+    samples: rows.length,
+  };
+};
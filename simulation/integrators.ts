@@ -0,0 +1,33 @@
+import { PlantState } from './dynamics';
+
+export type Derivative = (s: PlantState) => PlantState;
+
+const addScaled = (s: PlantState, d: PlantState, h: number): PlantState => ({
+  x: s.x + d.x * h,
+  y: s.y + d.y * h,
+  theta: s.theta + d.theta * h,
+  u: s.u + d.u * h,
+  w: s.w + d.w * h,
+});
+
+export const eulerStep = (s: PlantState, f: Derivative, dt: number): PlantState => addScaled(s, f(s), dt);
+
+/** Classic fourth-order Runge-Kutta; inputs are held constant over the step. */
+export const rk4Step = (s: PlantState, f: Derivative, dt: number): PlantState => {
+  const k1 = f(s);
+  const k2 = f(addScaled(s, k1, dt / 2));
+  const k3 = f(addScaled(s, k2, dt / 2));
+  const k4 = f(addScaled(s, k3, dt));
+  return {
+    x: s.x + (dt / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+    y: s.y + (dt / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y),
+    theta: s.theta + (dt / 6) * (k1.theta + 2 * k2.theta + 2 * k3.theta + k4.theta),
+    u: s.u + (dt / 6) * (k1.u + 2 * k2.u + 2 * k3.u + k4.u),
+    w: s.w + (dt / 6) * (k1.w + 2 * k2.w + 2 * k3.w + k4.w),
+  };
+};
+
+export const INTEGRATORS = {
+  EULER: eulerStep,
+  RK4: rk4Step,
+};
@@ -0,0 +1,85 @@
+/**
+ * Second-order forward-mode automatic differentiation.
+ *
+ * A jet carries a value together with its first and second derivatives with
+ * respect to time. Evaluating a trajectory on the jet (t, 1, 0) therefore gives
+ * position, velocity and acceleration exactly, with no finite differences.
+ */
+export interface Jet {
+  v: number; // f(t)
+  d: number; // f'(t)
+  dd: number; // f''(t)
+}
+
+export const constant = (v: number): Jet => ({ v, d: 0, dd: 0 });
+
+export const variable = (t: number): Jet => ({ v: t, d: 1, dd: 0 });
+
+/** Chain rule for g(f(t)) given g, g' and g'' at f(t). */
+const chain = (f: Jet, g: number, g1: number, g2: number): Jet => ({
+  v: g,
+  d: g1 * f.d,
+  dd: g2 * f.d * f.d + g1 * f.dd,
+});
+
+export const add = (a: Jet, b: Jet): Jet => ({ v: a.v + b.v, d: a.d + b.d, dd: a.dd + b.dd });
+
+export const sub = (a: Jet, b: Jet): Jet => ({ v: a.v - b.v, d: a.d - b.d, dd: a.dd - b.dd });
+
+export const neg = (a: Jet): Jet => ({ v: -a.v, d: -a.d, dd: -a.dd });
+
+export const mul = (a: Jet, b: Jet): Jet => ({
+  v: a.v * b.v,
+  d: a.d * b.v + a.v * b.d,
+  dd: a.dd * b.v + 2 * a.d * b.d + a.v * b.dd,
+});
+
+export const scale = (a: Jet, k: number): Jet => ({ v: a.v * k, d: a.d * k, dd: a.dd * k });
+
+export const div = (a: Jet, b: Jet): Jet => mul(a, chain(b, 1 / b.v, -1 / (b.v * b.v), 2 / (b.v * b.v * b.v)));
+
+export const sin = (a: Jet): Jet => chain(a, Math.sin(a.v), Math.cos(a.v), -Math.sin(a.v));
+
+export const cos = (a: Jet): Jet => chain(a, Math.cos(a.v), -Math.sin(a.v), -Math.cos(a.v));
+
+export const tan = (a: Jet): Jet => {
+  const t = Math.tan(a.v);
+  const sec2 = 1 + t * t;
+  return chain(a, t, sec2, 2 * t * sec2);
+};
+
+export const exp = (a: Jet): Jet => {
+  const e = Math.exp(a.v);
+  return chain(a, e, e, e);
+};
+
+export const log = (a: Jet): Jet => chain(a, Math.log(a.v), 1 / a.v, -1 / (a.v * a.v));
+
+export const sqrt = (a: Jet): Jet => {
+  const r = Math.sqrt(a.v);
+  return chain(a, r, 0.5 / r, -0.25 / (r * a.v));
+};
+
+export const abs = (a: Jet): Jet => (a.v < 0 ? neg(a) : a);
+
+export const tanh = (a: Jet): Jet => {
+  const t = Math.tanh(a.v);
+  const s = 1 - t * t;
+  return chain(a, t, s, -2 * t * s);
+};
+
+export const atan = (a: Jet): Jet => {
+  const q = 1 / (1 + a.v * a.v);
+  return chain(a, Math.atan(a.v), q, -2 * a.v * q * q);
+};
+
+/** a^b. A constant exponent keeps integer powers of negative bases defined. */
+export const pow = (a: Jet, b: Jet): Jet => {
+  if (b.d === 0 && b.dd === 0) {
+    const n = b.v;
+    // Skip vanishing terms so that e.g. t^1 at t = 0 does not produce 0 * Infinity
+    const term = (k: number, e: number) => (k === 0 ? 0 : k * Math.pow(a.v, e));
+    return chain(a, Math.pow(a.v, n), term(n, n - 1), term(n * (n - 1), n - 2));
+  }
+  return exp(mul(b, log(a)));
+};
@@ -0,0 +1,180 @@
+import { SIM_CONSTANTS } from '../constants';
+import { ControlConfig, HistorySample } from '../types';
+import { VelocityState } from './dynamics';
+import { LiveCommand, LiveMessage, RobotFrame } from './live.worker';
+import { unpackSamples } from './recording';
+
+/** What the worker reports after each step: the robots now, and the samples recorded since the last frame. */
+export interface LiveFrame {
+  robots: RobotFrame[];
+  samples: HistorySample[][]; // Per run, in run order
+}
+
+export interface LiveSnapshot {
+  robots: RobotFrame[];
+  history: HistorySample[][]; // Every sample per run since the reset
+}
+
+export interface ControllerStatus {
+  custom: boolean; // User code is in the loop
+  error: string | null; // Why it did not compile, or why it was taken out
+}
+
+export interface LiveHandlers {
+  onFrame: (frame: LiveFrame) => void;
+  onError: (message: string) => void;
+  onController?: (status: ControllerStatus) => void;
+  onRestart?: () => void; // The worker was restarted and its runs began again from t = 0
+}
+
+/**
+ * Main-thread handle on the simulation worker. Frames and snapshots of runs
+ * replaced by a later reset are dropped, so callers only ever see the
+ * current runs.
+ *
+ * User code can hang the worker (an endless loop in update()), so while it
+ * is in the loop a watchdog pings the worker. A ping left unanswered for
+ * WATCHDOG_TIMEOUT means the worker is stuck: it is terminated and replaced
+ * by a fresh one running the built-in controller, from t = 0.
+ */
+export class LiveSimulation {
+  private worker: Worker;
+  private handlers: LiveHandlers;
+  private generation = 0;
+  private snapshots: ((snapshot: LiveSnapshot | null) => void)[] = [];
+  // What a replacement worker needs to carry on
+  private config: ControlConfig;
+  private running = false;
+  private external: VelocityState | null = null;
+  private custom = false; // User code was sent and has not been reported out of the loop
+  private watchdog: ReturnType<typeof setInterval>;
+  private ping: { id: number; sent: number } | null = null;
+  private pings = 0;
+
+  constructor(config: ControlConfig, handlers: LiveHandlers) {
+    this.handlers = handlers;
+    this.config = config;
+    this.worker = this.spawn();
+    this.watchdog = setInterval(this.watch, SIM_CONSTANTS.WATCHDOG_PERIOD);
+    this.reset(config);
+  }
+
+  /** Restarts the runs from t = 0, e.g. with a new trajectory or run mode. */
+  reset(config: ControlConfig) {
+    this.config = config;
+    this.generation++;
+    this.send({ type: 'RESET', config, generation: this.generation });
+  }
+
+  /** Applies a changed config to the running runs without resetting them. */
+  configure(config: ControlConfig) {
+    this.config = config;
+    this.send({ type: 'CONFIGURE', config });
+  }
+
+  /** Restarts the runs and fast-forwards them to `time`; the frame that follows holds every sample up to it. */
+  seek(config: ControlConfig, time: number) {
+    this.config = config;
+    this.generation++;
+    this.send({ type: 'SEEK', config, generation: this.generation, time });
+  }
+
+  start() {
+    this.running = true;
+    this.send({ type: 'START' });
+  }
+
+  pause() {
+    this.running = false;
+    this.send({ type: 'PAUSE' });
+  }
+
+  /** Pauses and advances by `steps` physics steps. */
+  step(steps: number) {
+    this.running = false;
+    this.send({ type: 'STEP', steps });
+  }
+
+  /** Drives the first run with an outside controller's commands; null gives it back to the built-in one. */
+  setExternalCommand(command: VelocityState | null) {
+    this.external = command;
+    this.send({ type: 'EXTERNAL', command });
+  }
+
+  /** Hot-swaps the runs' control law for user code (see sandbox.ts), or back to the built-in one with null. */
+  setController(code: string | null) {
+    this.custom = code !== null;
+    this.send({ type: 'CONTROLLER', code });
+  }
+
+  /** Every sample of the current runs, or null if they were reset before the worker answered. */
+  snapshot(): Promise<LiveSnapshot | null> {
+    return new Promise(resolve => {
+      this.snapshots.push(resolve);
+      this.send({ type: 'SNAPSHOT' });
+    });
+  }
+
+  dispose() {
+    clearInterval(this.watchdog);
+    this.worker.terminate();
+    this.snapshots.forEach(resolve => resolve(null));
+    this.snapshots = [];
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('./live.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (e: MessageEvent<LiveMessage>) => this.receive(e.data));
+    return worker;
+  }
+
+  private send(command: LiveCommand) {
+    this.worker.postMessage(command);
+  }
+
+  // Only user code can keep the worker from answering, so it is only watched while some is in the loop
+  private watch = () => {
+    if (!this.custom) {
+      this.ping = null;
+    } else if (!this.ping) {
+      this.ping = { id: ++this.pings, sent: performance.now() };
+      this.send({ type: 'PING', id: this.ping.id });
+    } else if (performance.now() - this.ping.sent > SIM_CONSTANTS.WATCHDOG_TIMEOUT) {
+      this.restart();
+    }
+  };
+
+  private restart() {
+    this.worker.terminate();
+    this.snapshots.forEach(resolve => resolve(null));
+    this.snapshots = [];
+    this.custom = false;
+    this.ping = null;
+    this.worker = this.spawn();
+    this.handlers.onRestart?.();
+    this.reset(this.config);
+    if (this.external) this.send({ type: 'EXTERNAL', command: this.external });
+    if (this.running) this.send({ type: 'START' });
+    this.handlers.onController?.({
+      custom: false,
+      error: `The controller did not return within ${SIM_CONSTANTS.WATCHDOG_TIMEOUT / 1000} s (an endless loop?). The simulation was restarted with the built-in controller.`,
+    });
+  }
+
+  private receive(message: LiveMessage) {
+    if (message.type === 'ERROR') {
+      this.handlers.onError(message.message);
+    } else if (message.type === 'PONG') {
+      if (message.id === this.ping?.id) this.ping = null;
+    } else if (message.type === 'CONTROLLER') {
+      this.custom = message.custom;
+      this.handlers.onController?.({ custom: message.custom, error: message.error });
+    } else if (message.type === 'SNAPSHOT') {
+      // Snapshots are answered in the order they were asked for
+      const current = message.generation === this.generation;
+      this.snapshots.shift()?.(current ? { robots: message.robots, history: message.history.map(b => unpackSamples(new Float64Array(b))) } : null);
+    } else if (message.generation === this.generation) {
+      this.handlers.onFrame({ robots: message.robots, samples: message.samples.map(b => unpackSamples(new Float64Array(b))) });
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { SIM_CONSTANTS } from '../constants';
+import { ControlConfig, HistorySample, PoseEstimate, ReferencePoint, RobotState } from '../types';
+import { ComparisonRun, activeVariants, advanceRuns, applyVariant, createComparison, stepRuns } from './comparison';
+import { VelocityState } from './dynamics';
+import { collides } from './obstacles';
+import { packSamples } from './recording';
+import { compileController } from './sandbox';
+
+/**
+ * Runs the live simulation off the UI thread. The worker keeps its own clock:
+ * once started it advances the runs every WORKER_PERIOD by the wall-clock
+ * time elapsed (times the time scale) and posts a FRAME with each robot's
+ * state and the samples recorded since the previous frame. Sample buffers
+ * are transferred rather than copied.
+ *
+ * Protocol: RESET (with the config and a generation number) must come first;
+ * RESET and SEEK replace the runs, and every FRAME and SNAPSHOT carries the
+ * generation of the runs it describes, so the UI can drop messages from runs
+ * it has already replaced. EXTERNAL hands the first run's loop to an outside
+ * controller (see SimulationEngine.setExternalCommand) and CONTROLLER swaps in
+ * user code for every run's control law; both hold across resets. A
+ * CONTROLLER message reports whether user code is in the loop, and why not
+ * when it failed to compile or to run. PING is answered with a PONG, which
+ * a worker stuck in user code never sends.
+ */
+
+export type LiveCommand =
+  | { type: 'RESET'; config: ControlConfig; generation: number } // New runs from t = 0
+  | { type: 'SEEK'; config: ControlConfig; generation: number; time: number } // New runs, fast-forwarded to `time`
+  | { type: 'CONFIGURE'; config: ControlConfig } // Mid-run changes (gains, events, sensors, time scale)
+  | { type: 'START' }
+  | { type: 'PAUSE' }
+  | { type: 'STEP'; steps: number } // Pause, then advance by whole physics steps
+  | { type: 'EXTERNAL'; command: VelocityState | null } // Outside (u, ω) command for the first run, null for the built-in controller
+  | { type: 'CONTROLLER'; code: string | null } // JavaScript of a custom control law, null for the built-in one
+  | { type: 'SNAPSHOT' } // Ask for every sample since the reset
+  | { type: 'PING'; id: number }; // Liveness check, answered with a PONG once the worker gets to it
+
+export interface RobotFrame {
+  id: string; // Run variant
+  time: number;
+  robot: RobotState;
+  estimate: PoseEstimate;
+  reference: ReferencePoint;
+  colliding: boolean;
+  parameterNames: string[]; // Of the values in robot.parameters
+}
+
+export type LiveMessage =
+  | { type: 'FRAME'; generation: number; robots: RobotFrame[]; samples: ArrayBuffer[] } // New samples per run, packed
+  | { type: 'SNAPSHOT'; generation: number; robots: RobotFrame[]; history: ArrayBuffer[] } // All samples per run, packed
+  | { type: 'CONTROLLER'; custom: boolean; error: string | null } // Custom code in the loop, or why it is not
+  | { type: 'PONG'; id: number }
+  | { type: 'ERROR'; message: string };
+
+let config: ControlConfig | null = null;
+let runs: ComparisonRun[] = [];
+let generation = 0;
+let timer: ReturnType<typeof setInterval> | null = null;
+let last = 0;
+let external: VelocityState | null = null;
+let code: string | null = null;
+
+const post = (message: LiveMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const robotsOf = (): RobotFrame[] =>
+  runs.map(({ variant, engine }) => {
+    const { t, robot, estimate, reference } = engine.snapshot();
+    return {
+      id: variant.id,
+      time: t,
+      robot,
+      estimate,
+      reference,
+      colliding: collides(robot, config!.obstacles),
+      parameterNames: engine.chartedNames,
+    };
+  });
+
+const postFrame = (samples: HistorySample[][]) => {
+  const buffers = samples.map(s => packSamples(s).buffer as ArrayBuffer);
+  post({ type: 'FRAME', generation, robots: robotsOf(), samples: buffers }, buffers);
+};
+
+// Each run gets its own copy of the code. One that fails goes back to the
+// built-in law and the code is dropped, so later resets start without it;
+// the other runs carry on until they fail too.
+const installController = () => {
+  const source = code;
+  if (source === null) {
+    runs.forEach(({ engine }) => engine.setController(null));
+    return;
+  }
+  const onError = (message: string) => {
+    code = null;
+    post({ type: 'CONTROLLER', custom: false, error: message });
+  };
+  runs.forEach(({ engine }) => engine.setController(compileController(source), onError));
+};
+
+const pause = () => {
+  if (timer !== null) clearInterval(timer);
+  timer = null;
+};
+
+const tick = () => {
+  // Clamp long gaps (e.g. a suspended laptop) instead of replaying them
+  const now = performance.now();
+  const elapsed = Math.min((now - last) / 1000, SIM_CONSTANTS.MAX_FRAME_TIME);
+  last = now;
+  try {
+    postFrame(advanceRuns(runs, elapsed * config!.timeScale));
+  } catch (err) {
+    pause();
+    post({ type: 'ERROR', message: (err as Error).message });
+  }
+};
+
+const handle = (command: LiveCommand) => {
+  switch (command.type) {
+    case 'RESET':
+    case 'SEEK':
+      config = command.config;
+      generation = command.generation;
+      runs = createComparison(config, activeVariants(config));
+      runs[0]?.engine.setExternalCommand(external);
+      installController();
+      // A seek posts everything up to its time in one frame
+      postFrame(command.type === 'SEEK' ? stepRuns(runs, Math.round(command.time * config.physicsRate)) : runs.map(() => []));
+      break;
+    case 'CONFIGURE': {
+      const next = command.config;
+      config = next;
+      runs.forEach(({ variant, engine }) => engine.configure(applyVariant(next, variant)));
+      if (timer === null) postFrame(runs.map(() => []));
+      break;
+    }
+    case 'START':
+      if (timer !== null || !config) break;
+      last = performance.now();
+      timer = setInterval(tick, SIM_CONSTANTS.WORKER_PERIOD);
+      break;
+    case 'PAUSE':
+      pause();
+      break;
+    case 'STEP':
+      pause();
+      postFrame(stepRuns(runs, command.steps));
+      break;
+    case 'EXTERNAL':
+      external = command.command;
+      runs[0]?.engine.setExternalCommand(external);
+      break;
+    case 'CONTROLLER':
+      // Code that does not compile leaves the current law in place
+      try {
+        if (command.code !== null) compileController(command.code);
+      } catch (err) {
+        post({ type: 'CONTROLLER', custom: code !== null, error: (err as Error).message });
+        break;
+      }
+      code = command.code;
+      post({ type: 'CONTROLLER', custom: code !== null, error: null });
+      installController();
+      if (timer === null) postFrame(runs.map(() => []));
+      break;
+    case 'PING':
+      post({ type: 'PONG', id: command.id });
+      break;
+    case 'SNAPSHOT': {
+      const history = runs.map(({ engine }) => packSamples(engine.snapshot().history).buffer as ArrayBuffer);
+      post({ type: 'SNAPSHOT', generation, robots: robotsOf(), history }, history);
+      break;
+    }
+  }
+};
+
+self.addEventListener('message', (e: MessageEvent<LiveCommand>) => {
+  try {
+    handle(e.data);
+  } catch (err) {
+    post({ type: 'ERROR', message: (err as Error).message });
+  }
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_KINEMATIC_GAINS } from '../constants';
+import { HistorySample } from '../types';
+import { localError, ultimateBound } from './lyapunov';
+
+const sample = (pose: { x: number; y: number; heading: number }, ref: { x: number; y: number }) =>
+  ({ ...pose, refX: ref.x, refY: ref.y }) as HistorySample;
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≠ ${expected}`);
+
+describe('localError', () => {
+  it('measures the reference from the control point, ahead of the robot and to its left', () => {
+    // Facing +y with the control point at (0, 0.1): the reference is 0.9 ahead and 0.5 to the left
+    const h = localError(sample({ x: 0, y: 0, heading: Math.PI / 2 }, { x: -0.5, y: 1 }), 0.1);
+    close(h.x, 0.9);
+    close(h.y, 0.5);
+  });
+
+  it('vanishes when the control point is on the reference', () => {
+    const heading = 0.7;
+    const h = localError(sample({ x: 1, y: 2, heading }, { x: 1 + 0.15 * Math.cos(heading), y: 2 + 0.15 * Math.sin(heading) }), 0.15);
+    close(h.x, 0);
+    close(h.y, 0);
+  });
+});
+
+describe('ultimateBound', () => {
+  const gains = { ...DEFAULT_KINEMATIC_GAINS, lx: 0.4, ly: 0.4, kx: 1, ky: 1 };
+
+  it('is zero without a disturbance and unbounded once it outruns the saturated correction', () => {
+    assert.equal(ultimateBound(gains, 0), 0);
+    assert.equal(ultimateBound(gains, 0.4), Infinity);
+    assert.equal(ultimateBound({ ...gains, ly: 0.2 }, 0.25), Infinity);
+  });
+
+  it('gives no bound for gains the analysis does not cover', () => {
+    assert.equal(ultimateBound({ ...gains, kx: -1 }, 0.1), Infinity);
+    assert.equal(ultimateBound({ ...gains, ky: 0 }, 0.1), Infinity);
+    assert.equal(ultimateBound({ ...gains, lx: -0.4 }, 0), Infinity);
+  });
+
+  it('matches the closed form along the axes for equal gains', () => {
+    // Along an axis l·tanh(k r / l) = δ, and the axes saturate first
+    const delta = 0.1;
+    close(ultimateBound(gains, delta), (0.4 / 1) * Math.atanh(delta / 0.4), 1e-9);
+  });
+
+  it('grows with the disturbance and shrinks with the gains', () => {
+    assert.ok(ultimateBound(gains, 0.2) > ultimateBound(gains, 0.1));
+    assert.ok(ultimateBound({ ...gains, kx: 2, ky: 2 }, 0.1) < ultimateBound(gains, 0.1));
+  });
+});
@@ -0,0 +1,106 @@
+import { HistorySample, KinematicGains, Point, SimulationSpec } from '../types';
+import { plantParameters } from './dynamics';
+
+/**
+ * Stability analysis of the paper's controller along a recorded run. With
+ * h̃ = h_d − h the control point error, ṽ = v_ref − v the velocity error and
+ * θ̃ = θ̂ − θ the parameter error, the Lyapunov candidate is
+ *
+ *   V = ½ h̃ᵀh̃ + ½ ṽᵀ H ṽ + ½ θ̃ᵀ Γ θ̃,   H = diag(θ1, θ2), Γ⁻¹ = diag(gains),
+ *
+ * and for the ideal model, with ḣ = A v and A = R(ψ) diag(1, a),
+ *
+ *   V̇ = −h̃ᵀ L tanh(K L⁻¹ h̃) + h̃ᵀ A ṽ − ṽᵀ H K_v ṽ − (leakage of the update law).
+ *
+ * The first term is negative definite and saturates at L, so as long as
+ * ‖A ṽ‖ ≤ δ < min(l_x, l_y) the control point error ends up, and stays,
+ * inside the ball that holds every h̃ with Σ l_i |h̃_i| tanh(k_i |h̃_i| / l_i) ≤ δ ‖h̃‖.
+ *
+ * Everything is computed from the samples' true states and the spec (the
+ * true θ includes the payload at each sample). Obstacle repulsion is not
+ * part of the analysis.
+ */
+
+export interface StabilitySample {
+  time: number;
+  xTilde: number; // h̃ in the robot frame: ahead of the robot [m]
+  yTilde: number; // ... and to its left
+  uTilde: number; // ṽ = v_ref − v [m/s, rad/s]
+  wTilde: number;
+  lyapunov: number; // V (NaN without θ̂, i.e. under a custom controller)
+  lyapunovRate: number; // V̇ over the preceding sample period (NaN for the first sample)
+}
+
+/** Control point error h̃ = h_d − h, rotated into the robot frame. */
+export const localError = (s: HistorySample, a: number): Point => {
+  const c = Math.cos(s.heading);
+  const sn = Math.sin(s.heading);
+  const ex = s.refX - (s.x + a * c);
+  const ey = s.refY - (s.y + a * sn);
+  return { x: c * ex + sn * ey, y: -sn * ex + c * ey };
+};
+
+export const lyapunov = (s: HistorySample, spec: SimulationSpec): number => {
+  const h = localError(s, spec.kinematic.a);
+  const theta = plantParameters(spec.plant, s.loadMass);
+  const uTilde = s.uRef - s.u;
+  const wTilde = s.wRef - s.w;
+  const thetaHat = [s.theta1, s.theta2, s.theta3, s.theta4, s.theta5, s.theta6];
+  // Parameters that are not adapted (zero gain) keep a constant error and are left out
+  const { gains } = spec.adaptation;
+  const parameters = thetaHat.reduce((acc, th, i) => acc + (gains[i] > 0 ? (th - theta[i]) ** 2 / gains[i] : 0), 0);
+  return 0.5 * (h.x * h.x + h.y * h.y + theta[0] * uTilde * uTilde + theta[1] * wTilde * wTilde + parameters);
+};
+
+export const stabilitySeries = (samples: HistorySample[], spec: SimulationSpec): StabilitySample[] => {
+  let previous: { time: number; lyapunov: number } | null = null;
+  return samples.map(s => {
+    const h = localError(s, spec.kinematic.a);
+    const v = lyapunov(s, spec);
+    const rate: number = previous && s.time > previous.time ? (v - previous.lyapunov) / (s.time - previous.time) : NaN;
+    previous = { time: s.time, lyapunov: v };
+    return { time: s.time, xTilde: h.x, yTilde: h.y, uTilde: s.uRef - s.u, wTilde: s.wRef - s.w, lyapunov: v, lyapunovRate: rate };
+  });
+};
+
+/** Largest ‖A ṽ‖ = √(ũ² + a² ω̃²) over the samples, the δ of the ultimate bound [m/s]. */
+export const velocityDisturbance = (samples: StabilitySample[], a: number): number =>
+  samples.reduce((max, s) => Math.max(max, Math.hypot(s.uTilde, a * s.wTilde)), 0);
+
+const DIRECTIONS = 90; // Over a quarter turn; the region is symmetric about both axes
+const BISECTIONS = 50;
+const DOUBLINGS = 60; // Bracketing steps before an error is taken as unbounded
+
+/**
+ * Radius of the ultimate bound on ‖h̃‖ for a velocity disturbance ‖A ṽ‖ ≤ δ
+ * under the kinematic gains: the largest ‖h̃‖ at which V̇ can still be
+ * non-negative. Infinity when δ ≥ min(l_x, l_y), where the saturated
+ * correction can no longer outrun the disturbance in every direction, and
+ * when a gain is not positive, where the analysis does not apply.
+ */
+export const ultimateBound = ({ kx, ky, lx, ly }: KinematicGains, delta: number): number => {
+  if (!(kx > 0 && ky > 0 && lx > 0 && ly > 0)) return Infinity;
+  if (delta <= 0) return 0;
+  if (delta >= Math.min(lx, ly)) return Infinity;
+  let bound = 0;
+  for (let i = 0; i <= DIRECTIONS; i++) {
+    const phi = (Math.PI / 2) * (i / DIRECTIONS);
+    const c = Math.cos(phi);
+    const s = Math.sin(phi);
+    // Correction per unit error along φ: rises from 0 towards l_x c + l_y s > δ
+    const correction = (r: number) => lx * c * Math.tanh((kx * r * c) / lx) + ly * s * Math.tanh((ky * r * s) / ly);
+    let hi = delta / Math.max(kx, ky);
+    for (let k = 0; correction(hi) < delta; k++) {
+      if (k === DOUBLINGS) return Infinity;
+      hi *= 2;
+    }
+    let lo = 0;
+    for (let k = 0; k < BISECTIONS; k++) {
+      const mid = (lo + hi) / 2;
+      if (correction(mid) < delta) lo = mid;
+      else hi = mid;
+    }
+    bound = Math.max(bound, hi);
+  }
+  return bound;
+};
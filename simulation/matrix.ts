@@ -0,0 +1,28 @@
+/** Small dense matrices (row arrays) for the estimators; sizes are a handful of rows. */
+export type Matrix = number[][];
+
+export const multiply = (a: Matrix, b: Matrix): Matrix => a.map(row => b[0].map((_, j) => row.reduce((acc, v, k) => acc + v * b[k][j], 0)));
+
+export const transpose = (a: Matrix): Matrix => a[0].map((_, j) => a.map(row => row[j]));
+
+export const add = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => v + b[i][j]));
+
+/** Inverse by Gauss–Jordan elimination with partial pivoting; null if singular. */
+export const invert = (m: Matrix): Matrix | null => {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-300) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    a[col] = a[col].map(v => v / p);
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      if (f !== 0) a[r] = a[r].map((v, j) => v - f * a[col][j]);
+    }
+  }
+  return a.map(row => row.slice(n));
+};
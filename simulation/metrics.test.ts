@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { METRIC_CONSTANTS, SIM_CONSTANTS } from '../constants';
+import { HistorySample } from '../types';
+import { computeMetrics } from './metrics';
+
+// A run sampled every SAMPLE_PERIOD with the given error and payload per
+// sample; the integrals are accumulated as the engine would at that period
+const run = (samples: { error: number; loadMass?: number }[]): HistorySample[] => {
+  const dt = SIM_CONSTANTS.SAMPLE_PERIOD;
+  const integrals = { iae: 0, ise: 0, itae: 0, effortU: 0, effortW: 0 };
+  return samples.map(({ error, loadMass = 0 }, i) => {
+    const time = (i + 1) * dt;
+    integrals.iae += error * dt;
+    integrals.ise += error * error * dt;
+    integrals.itae += time * error * dt;
+    integrals.effortU += 0.3 * dt;
+    return {
+      time, x: 0, y: 0, heading: 0, refX: 0, refY: 0, refHeading: 0, refDx: 0.3, refDy: 0, error,
+      uRef: 0.3, wRef: 0, uCmd: 0.3, wCmd: 0, u: 0.3, w: 0,
+      theta1: 1, theta2: 2, theta3: 3, theta4: 4, theta5: 5, theta6: 6,
+      peakError: error, loadMass, skid: 1,
+      estX: 0, estY: 0, estHeading: 0, estVarX: 0, estCovXY: 0, estVarY: 0,
+      measX: 0, measY: 0, measHeading: 0, measU: 0.3, measW: 0,
+      collision: 0, integrals: { ...integrals },
+    };
+  });
+};
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≠ ${expected}`);
+
+describe('computeMetrics', () => {
+  const outside = METRIC_CONSTANTS.SETTLING_BAND * 2;
+  const inside = METRIC_CONSTANTS.SETTLING_BAND / 2;
+
+  it('integrates a constant error over the window', () => {
+    const m = computeMetrics(run(Array(50).fill({ error: 0.01 })), { start: 1, end: 3 });
+    assert.ok(m);
+    close(m.start, 1);
+    close(m.end, 3);
+    close(m.iae, 0.02);
+    close(m.ise, 0.0002);
+    close(m.rms, 0.01);
+    close(m.peak, 0.01);
+    close(m.effortU, 0.6);
+    assert.deepEqual(m.finalTheta, [1, 2, 3, 4, 5, 6]);
+  });
+
+  it('measures ITAE from the window start', () => {
+    const m = computeMetrics(run(Array(50).fill({ error: 0.01 })), { start: 2 });
+    assert.ok(m);
+    // Σ (t − 2)·0.01·0.1 over the samples at 2.1 … 5.0
+    close(m.itae, 0.001 * 0.1 * ((30 * 31) / 2));
+  });
+
+  it('returns null for a window without samples', () => {
+    assert.equal(computeMetrics(run(Array(10).fill({ error: 0 })), { start: 5 }), null);
+    assert.equal(computeMetrics([]), null);
+  });
+
+  it('times settling from the load change to the first sample back inside the band', () => {
+    // The load is on from the sample at 1.1, so the change is timed at 1.0; the
+    // error is outside the band up to 1.5, back in at 1.6 and out again at 1.7
+    const samples = run([
+      ...Array(10).fill({ error: inside }),
+      ...Array(5).fill({ error: outside, loadMass: 20 }),
+      { error: inside, loadMass: 20 },
+      { error: outside, loadMass: 20 },
+      ...Array(10).fill({ error: inside, loadMass: 20 }),
+    ]);
+    const m = computeMetrics(samples);
+    assert.ok(m);
+    close(m.loadChangeTime ?? NaN, 1.0);
+    // Last outside at t = 1.7, so settled from the sample at 1.8
+    close(m.settlingTime ?? NaN, 0.8);
+  });
+
+  it('reports Infinity when the error never settles and null without a load change', () => {
+    const unsettled = computeMetrics(run([...Array(10).fill({ error: inside }), ...Array(10).fill({ error: outside, loadMass: 20 })]));
+    assert.equal(unsettled?.settlingTime, Infinity);
+    const steady = computeMetrics(run(Array(20).fill({ error: outside })));
+    assert.equal(steady?.loadChangeTime, null);
+    assert.equal(steady?.settlingTime, null);
+  });
+
+  it('counts a load change that never leaves the band as settled at once', () => {
+    const m = computeMetrics(run([...Array(10).fill({ error: inside }), ...Array(10).fill({ error: inside, loadMass: 20 })]));
+    assert.equal(m?.settlingTime, 0);
+  });
+});
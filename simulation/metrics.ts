@@ -0,0 +1,89 @@
+import { METRIC_CONSTANTS, SIM_CONSTANTS } from '../constants';
+import { HistorySample } from '../types';
+
+export interface TimeWindow {
+  start?: number; // s, run start when omitted
+  end?: number; // s, latest sample when omitted
+}
+
+export interface PerformanceMetrics {
+  start: number;
+  end: number;
+  iae: number; // ∫|e| dt [m·s]
+  ise: number; // ∫e² dt [m²·s]
+  itae: number; // ∫(t − t0)|e| dt [m·s²], time measured from the window start
+  rms: number; // √(ISE / T) [m]
+  peak: number; // max |e| [m]
+  loadChangeTime: number | null; // Last load change inside the window
+  settlingTime: number | null; // Time after that change until |e| stays inside the band (Infinity if it never does); null without a change
+  effortU: number; // ∫|u_r| dt [m]
+  effortW: number; // ∫|ω_r| dt [rad]
+  contactTime: number; // Time the footprint overlapped an obstacle [s], resolved to the sample period
+  finalTheta: number[]; // θ̂1 … θ̂6 at the end of the window
+}
+
+/**
+ * Tracking and effort metrics of a run over a time window. Integrals come
+ * from the running sums recorded with each sample, so they are exact at the
+ * physics rate; peak and settling time are resolved to the sample period.
+ * Returns null when the window holds no samples.
+ */
+export const computeMetrics = (samples: HistorySample[], window: TimeWindow = {}): PerformanceMetrics | null => {
+  const from = window.start ?? -Infinity;
+  const to = window.end ?? Infinity;
+  const first = samples.findIndex(s => s.time > from);
+  if (first === -1) return null;
+  let last = first - 1;
+  while (last + 1 < samples.length && samples[last + 1].time <= to) last++;
+  if (last < first) return null;
+
+  // Integrals up to the window start come from the sample just before it
+  const base = first > 0 ? samples[first - 1] : null;
+  const t0 = base ? base.time : Math.max(0, window.start ?? 0);
+  const end = samples[last];
+  const delta = (key: keyof HistorySample['integrals']) => end.integrals[key] - (base ? base.integrals[key] : 0);
+
+  const iae = delta('iae');
+  const ise = delta('ise');
+  const duration = end.time - t0;
+
+  let peak = 0;
+  let contacts = 0;
+  let loadChange = -1;
+  for (let i = first; i <= last; i++) {
+    peak = Math.max(peak, samples[i].peakError);
+    contacts += samples[i].collision;
+    if (i > 0 && samples[i].loadMass !== samples[i - 1].loadMass) loadChange = i;
+  }
+
+  let loadChangeTime: number | null = null;
+  let settlingTime: number | null = null;
+  if (loadChange !== -1) {
+    loadChangeTime = samples[loadChange - 1].time;
+    let lastOutside = -1;
+    for (let i = loadChange; i <= last; i++) {
+      if (samples[i].peakError > METRIC_CONSTANTS.SETTLING_BAND) lastOutside = i;
+    }
+    // The error was last outside during the period up to `lastOutside`; the
+    // next sample is the first that covers a period spent inside the band
+    if (lastOutside === -1) settlingTime = 0;
+    else if (lastOutside < last) settlingTime = samples[lastOutside + 1].time - loadChangeTime;
+    else settlingTime = Infinity;
+  }
+
+  return {
+    start: t0,
+    end: end.time,
+    iae,
+    ise,
+    itae: delta('itae') - t0 * iae,
+    rms: duration > 0 ? Math.sqrt(ise / duration) : 0,
+    peak,
+    loadChangeTime,
+    settlingTime,
+    effortU: delta('effortU'),
+    effortW: delta('effortW'),
+    contactTime: contacts * SIM_CONSTANTS.SAMPLE_PERIOD,
+    finalTheta: [end.theta1, end.theta2, end.theta3, end.theta4, end.theta5, end.theta6],
+  };
+};
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WORKSPACE_CONSTANTS } from '../constants';
+import { Obstacle } from '../types';
+import { SceneError, clearance, collides, infeasibleSegments, parseScene, repulsiveVelocity, sceneToJSON } from './obstacles';
+
+const circle: Obstacle = { type: 'CIRCLE', center: { x: 1, y: 0 }, radius: 0.2 };
+const wall: Obstacle = { type: 'WALL', from: { x: 0, y: 1 }, to: { x: 2, y: 1 }, thickness: 0.1 };
+const square: Obstacle = { type: 'POLYGON', points: [{ x: -1, y: -1 }, { x: -0.5, y: -1 }, { x: -0.5, y: -0.5 }, { x: -1, y: -0.5 }] };
+
+const close = (actual: number, expected: number, tolerance = 1e-12) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≠ ${expected}`);
+
+describe('clearance', () => {
+  it('measures the signed distance to each shape and points out of it', () => {
+    const c = clearance({ x: 1, y: 0.5 }, circle);
+    close(c.distance, 0.3);
+    assert.deepEqual(c.away, { x: 0, y: 1 });
+
+    const w = clearance({ x: 0.5, y: 0.7 }, wall);
+    close(w.distance, 0.25);
+    close(w.away.y, -1);
+    // Beyond the wall's end, the distance is to the end point
+    close(clearance({ x: 3, y: 1 }, wall).distance, 0.95);
+
+    const outside = clearance({ x: -0.2, y: -0.75 }, square);
+    close(outside.distance, 0.3);
+    close(outside.away.x, 1);
+    const inside = clearance({ x: -0.6, y: -0.75 }, square);
+    close(inside.distance, -0.1);
+    close(inside.away.x, 1);
+  });
+});
+
+describe('collides', () => {
+  it('counts the footprint touching an obstacle', () => {
+    const r = WORKSPACE_CONSTANTS.FOOTPRINT_RADIUS;
+    assert.ok(collides({ x: 1, y: 0.2 + r - 0.01 }, [circle]));
+    assert.ok(!collides({ x: 1, y: 0.2 + r + 0.01 }, [circle]));
+    assert.ok(!collides({ x: 0, y: 0 }, []));
+  });
+});
+
+describe('repulsiveVelocity', () => {
+  const avoidance = { enabled: true, gain: 0.005, range: 0.3 };
+
+  it('pushes away with the gradient of the potential inside the range, and not beyond it', () => {
+    const r = 0.1;
+    const p = { x: 1, y: 0.2 + r + 0.1 };
+    const v = repulsiveVelocity(p, [circle], { ...avoidance, gain: 0.001 }, r);
+    close(v.x, 0);
+    close(v.y, (0.001 * (1 / 0.1 - 1 / 0.3)) / 0.01, 1e-9);
+    assert.deepEqual(repulsiveVelocity({ x: 1, y: 0.2 + r + 0.3 }, [circle], avoidance, r), { x: 0, y: 0 });
+  });
+
+  it('caps the speed on contact', () => {
+    const v = repulsiveVelocity({ x: 1, y: 0.21 }, [circle], avoidance);
+    close(Math.hypot(v.x, v.y), WORKSPACE_CONSTANTS.MAX_AVOIDANCE_SPEED);
+    assert.ok(v.y > 0);
+  });
+});
+
+describe('infeasibleSegments', () => {
+  it('marks the stretch of a path that runs through an obstacle', () => {
+    // Along the x axis at 0.1 m/s, through the circle at x = 1
+    const line = (t: number) => ({ x: 0.1 * t, y: 0, dx: 0.1, dy: 0, ddx: 0, ddy: 0 });
+    const segments = infeasibleSegments(line, [circle]);
+    assert.equal(segments.length, 1);
+    const reach = 0.2 + WORKSPACE_CONSTANTS.FOOTPRINT_RADIUS;
+    assert.ok(segments[0].every(p => Math.abs(p.x - 1) <= reach + 1e-9));
+    assert.ok(segments[0][0].x < 1 - reach + 0.01 && segments[0][segments[0].length - 1].x > 1 + reach - 0.01);
+    assert.deepEqual(infeasibleSegments(line, []), []);
+  });
+});
+
+describe('parseScene', () => {
+  it('reads back an exported scene and takes a bare list', () => {
+    const obstacles = [circle, wall, square];
+    assert.deepEqual(parseScene(sceneToJSON(obstacles)), obstacles);
+    assert.deepEqual(parseScene(JSON.stringify([circle])), [circle]);
+  });
+
+  it('rejects malformed scenes with a SceneError naming the obstacle', () => {
+    assert.throws(() => parseScene('{'), SceneError);
+    assert.throws(() => parseScene('{"format": "other"}'), /Not a scene file/);
+    assert.throws(() => parseScene(JSON.stringify([circle, { type: 'CIRCLE', center: { x: 0, y: 0 }, radius: 0 }])), /Obstacle 2: circle needs a positive radius/);
+    assert.throws(() => parseScene(JSON.stringify([{ type: 'POLYGON', points: [{ x: 0, y: 0 }] }])), /Obstacle 1: polygon needs at least 3 points/);
+  });
+});
@@ -0,0 +1,183 @@
+import { WORKSPACE_CONSTANTS } from '../constants';
+import { AvoidanceSpec, Obstacle, Point } from '../types';
+import { Trajectory, samplePath } from './trajectory';
+
+/**
+ * Static workspace: obstacle geometry, collision checks against the robot's
+ * circular footprint, a repulsive potential field for local avoidance, and
+ * scene files holding a set of obstacles.
+ */
+
+export const SCENE_FORMAT = 'adaptive-robot-scene';
+export const SCENE_VERSION = 1;
+
+export interface Scene {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  obstacles: Obstacle[];
+}
+
+export class SceneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneError';
+  }
+}
+
+interface Clearance {
+  distance: number; // Signed distance to the obstacle's boundary, negative inside [m]
+  away: Point; // Unit vector pointing out of the obstacle, towards the point
+}
+
+const unit = (x: number, y: number): Point => {
+  const n = Math.hypot(x, y);
+  return n > 0 ? { x: x / n, y: y / n } : { x: 1, y: 0 };
+};
+
+// Closest point of segment [a, b] to p
+const closestOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length2 = dx * dx + dy * dy;
+  const k = length2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / length2)) : 0;
+  return { x: a.x + k * dx, y: a.y + k * dy };
+};
+
+// Even–odd rule, by casting a ray towards +x
+const insidePolygon = (p: Point, points: Point[]) => {
+  let inside = false;
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    if (a.y > p.y !== b.y > p.y && p.x < a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y)) inside = !inside;
+  });
+  return inside;
+};
+
+/** Signed distance from a point to an obstacle, and the direction out of it. */
+export const clearance = (p: Point, obstacle: Obstacle): Clearance => {
+  switch (obstacle.type) {
+    case 'CIRCLE': {
+      const { center, radius } = obstacle;
+      return { distance: Math.hypot(p.x - center.x, p.y - center.y) - radius, away: unit(p.x - center.x, p.y - center.y) };
+    }
+    case 'WALL': {
+      const c = closestOnSegment(p, obstacle.from, obstacle.to);
+      return { distance: Math.hypot(p.x - c.x, p.y - c.y) - obstacle.thickness / 2, away: unit(p.x - c.x, p.y - c.y) };
+    }
+    case 'POLYGON': {
+      const { points } = obstacle;
+      let best = { distance: Infinity, away: { x: 1, y: 0 } };
+      points.forEach((a, i) => {
+        const c = closestOnSegment(p, a, points[(i + 1) % points.length]);
+        const d = Math.hypot(p.x - c.x, p.y - c.y);
+        if (d < best.distance) best = { distance: d, away: unit(p.x - c.x, p.y - c.y) };
+      });
+      if (!insidePolygon(p, points)) return best;
+      return { distance: -best.distance, away: { x: -best.away.x, y: -best.away.y } };
+    }
+  }
+};
+
+/** Whether a circular footprint of `radius` centred at `p` touches any obstacle. */
+export const collides = (p: Point, obstacles: Obstacle[], radius = WORKSPACE_CONSTANTS.FOOTPRINT_RADIUS) =>
+  obstacles.some(o => clearance(p, o).distance < radius);
+
+/**
+ * Repulsive velocity on a point carrying a footprint of `radius`: the negative
+ * gradient of Khatib's potential ½η(1/d − 1/d₀)² summed over the obstacles,
+ * with d the clearance of the footprint and d₀ the influence range. It grows
+ * without bound on contact, so d is floored and the sum capped.
+ */
+export const repulsiveVelocity = (
+  p: Point,
+  obstacles: Obstacle[],
+  { gain, range }: AvoidanceSpec,
+  radius = WORKSPACE_CONSTANTS.FOOTPRINT_RADIUS,
+): Point => {
+  let vx = 0;
+  let vy = 0;
+  obstacles.forEach(o => {
+    const { distance, away } = clearance(p, o);
+    const d = Math.max(distance - radius, WORKSPACE_CONSTANTS.MIN_DISTANCE);
+    if (d >= range) return;
+    const magnitude = (gain * (1 / d - 1 / range)) / (d * d);
+    vx += magnitude * away.x;
+    vy += magnitude * away.y;
+  });
+  const speed = Math.hypot(vx, vy);
+  const cap = WORKSPACE_CONSTANTS.MAX_AVOIDANCE_SPEED;
+  return speed > cap ? { x: (vx * cap) / speed, y: (vy * cap) / speed } : { x: vx, y: vy };
+};
+
+/**
+ * Stretches of the reference that a robot centred on it could not follow
+ * without touching an obstacle, as polylines. The footprint is centred on
+ * the reference point itself, ignoring the control point offset, so this is
+ * a slightly conservative check over the first FEASIBILITY_HORIZON seconds.
+ */
+export const infeasibleSegments = (trajectory: Trajectory, obstacles: Obstacle[]): Point[][] => {
+  if (obstacles.length === 0) return [];
+  const { FEASIBILITY_HORIZON, FEASIBILITY_STEP } = WORKSPACE_CONSTANTS;
+  const segments: Point[][] = [];
+  let current: Point[] | null = null;
+  samplePath(trajectory, FEASIBILITY_HORIZON, FEASIBILITY_STEP).forEach(p => {
+    if (collides(p, obstacles)) {
+      if (!current) segments.push((current = []));
+      current.push(p);
+    } else {
+      current = null;
+    }
+  });
+  return segments;
+};
+
+export const sceneToJSON = (obstacles: Obstacle[]): string => {
+  const scene: Scene = { format: SCENE_FORMAT, version: SCENE_VERSION, obstacles };
+  return JSON.stringify(scene, null, 2);
+};
+
+const isPoint = (p: unknown): p is Point =>
+  !!p && typeof (p as Point).x === 'number' && typeof (p as Point).y === 'number';
+
+// Why an obstacle is malformed, or null if it is valid
+const obstacleProblem = (o: Partial<Obstacle> & Record<string, unknown>): string | null => {
+  switch (o.type) {
+    case 'CIRCLE':
+      if (!isPoint(o.center)) return 'circle needs a center {x, y}';
+      return typeof o.radius === 'number' && o.radius > 0 ? null : 'circle needs a positive radius';
+    case 'WALL':
+      if (!isPoint(o.from) || !isPoint(o.to)) return 'wall needs from/to points';
+      return typeof o.thickness === 'number' && o.thickness > 0 ? null : 'wall needs a positive thickness';
+    case 'POLYGON':
+      if (!Array.isArray(o.points) || o.points.length < 3) return 'polygon needs at least 3 points';
+      return o.points.every(isPoint) ? null : 'polygon points must be {x, y}';
+    default:
+      return `unknown type '${String(o.type)}'`;
+  }
+};
+
+/**
+ * Parses a scene file. Accepts an exported scene or a bare array of
+ * obstacles (handier to write by hand). Throws a SceneError if it is neither.
+ */
+export const parseScene = (text: string): Obstacle[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SceneError('File is not valid JSON');
+  }
+  let obstacles: unknown = data;
+  if (!Array.isArray(data)) {
+    const scene = data as Partial<Scene>;
+    if (!scene || scene.format !== SCENE_FORMAT) throw new SceneError('Not a scene file');
+    if (scene.version !== SCENE_VERSION) throw new SceneError(`Unsupported scene version ${scene.version}`);
+    obstacles = scene.obstacles;
+  }
+  if (!Array.isArray(obstacles)) throw new SceneError('Scene has no obstacle list');
+  obstacles.forEach((o, i) => {
+    const problem = o && typeof o === 'object' ? obstacleProblem(o) : 'not an object';
+    if (problem) throw new SceneError(`Obstacle ${i + 1}: ${problem}`);
+  });
+  return obstacles as Obstacle[];
+};
@@ -0,0 +1,46 @@
+import { LOAD_PROFILE, PLANT_CONSTANTS, TrajectoryType } from '../constants';
+import { ExperimentConfig, validateExperiment } from './experiment';
+
+export interface ExperimentPreset {
+  id: string;
+  name: string;
+  description: string;
+  config: ExperimentConfig;
+}
+
+// Presets are written as differences from the default experiment and
+// completed (and checked) by the same validation as shared experiments
+const preset = (id: string, name: string, description: string, config: Partial<ExperimentConfig>): ExperimentPreset => ({
+  id,
+  name,
+  description,
+  config: validateExperiment(config),
+});
+
+/**
+ * Built-in experiments approximating the paper's simulation figures. The
+ * paper does not give its gains, Γ or θ̂(0), so these use the defaults and
+ * show the same qualitative behaviour rather than the published curves.
+ */
+export const EXPERIMENT_PRESETS: ExperimentPreset[] = [
+  preset(
+    'fig4',
+    'Fig. 4 (approx.) — circular trajectory',
+    'Adaptive controller tracking the circle from a 0.2 m initial offset, nominal plant. θ̂ starts at the nominal θ and stays close to it; a fixed controller with the same θ tracks slightly better',
+    { trajectory: { type: TrajectoryType.CIRCLE }, isAdaptive: true },
+  ),
+  // On the circle the speeds are constant, which leaves θ1 and θ2 unexcited,
+  // so the load runs on the figure-eight
+  preset(
+    'fig6',
+    'Fig. 6 (approx.) — adaptation under load',
+    `A ${PLANT_CONSTANTS.LOAD_MASS} kg load is added at 20 s and removed at 60 s on the figure-eight. θ̂ moves towards the loaded values and roughly halves the fixed controller's error, but does not reach them before the load comes off`,
+    { trajectory: { type: TrajectoryType.FIGURE_EIGHT }, isAdaptive: true, events: [...LOAD_PROFILE] },
+  ),
+  preset(
+    'fig8',
+    'Fig. 8 — figure-eight, adaptive vs. fixed',
+    'Both controllers on the figure-eight with the load profile of Fig. 6',
+    { trajectory: { type: TrajectoryType.FIGURE_EIGHT }, isAdaptive: true, events: [...LOAD_PROFILE], runMode: 'COMPARE' },
+  ),
+];
@@ -0,0 +1,26 @@
+/**
+ * Seeded pseudo-random numbers (mulberry32), so that noisy runs are
+ * reproducible and compared runs see the same noise sequence.
+ */
+export interface Random {
+  uniform: () => number; // [0, 1)
+  gaussian: (std: number) => number; // Zero-mean normal
+}
+
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 15), z | 1);
+    z ^= z + Math.imul(z ^ (z >>> 7), z | 61);
+    return ((z ^ (z >>> 14)) >>> 0) / 4294967296;
+  };
+  // Box–Muller; the second variate is discarded to keep the sequence stateless
+  const gaussian = (std: number) => {
+    const u1 = 1 - uniform(); // (0, 1], so the log is finite
+    const u2 = uniform();
+    return std * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  };
+  return { uniform, gaussian };
+};
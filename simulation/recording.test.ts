@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SINGLE_RUN } from '../constants';
+import { HistorySample, SimulationSpec } from '../types';
+import { SimulationEngine } from './engine';
+import { EXPERIMENT_PRESETS } from './presets';
+import { RecordingError, createRecording, packSamples, parseRecording, recordingToCSV, recordingToJSON, sampleIndexAt, toSimulationSpec, unpackSamples } from './recording';
+
+const spec: SimulationSpec = (() => {
+  const preset = EXPERIMENT_PRESETS.find(p => p.id === 'fig4');
+  assert.ok(preset);
+  return toSimulationSpec({ ...preset.config, isPlaying: false, timeScale: 1 });
+})();
+
+const samples = new SimulationEngine(spec).run(3 * spec.physicsRate).history;
+const recording = createRecording(spec, [{ variant: SINGLE_RUN, samples }]);
+
+// The recording as JSON with `change` applied to its parsed form
+const edited = (change: (data: { runs: { samples: Partial<HistorySample>[] }[] } & Record<string, unknown>) => void) => {
+  const data = JSON.parse(recordingToJSON(recording));
+  change(data);
+  return JSON.stringify(data);
+};
+
+describe('parseRecording', () => {
+  it('reads back an exported recording', () => {
+    const parsed = parseRecording(recordingToJSON(recording));
+    assert.deepEqual(parsed.spec, JSON.parse(JSON.stringify(spec)));
+    assert.deepEqual(parsed.runs[0].samples, samples);
+  });
+
+  it('turns uncharted estimates, saved as null, back into NaN', () => {
+    const parsed = parseRecording(edited(data => (data.runs[0].samples[0].theta6 = null as unknown as number)));
+    assert.ok(Number.isNaN(parsed.runs[0].samples[0].theta6));
+  });
+
+  it('fills in columns older recordings did not have', () => {
+    const parsed = parseRecording(
+      edited(data =>
+        data.runs[0].samples.forEach(s => {
+          delete s.skid;
+          delete s.estX;
+          delete s.refDx;
+          delete s.measU;
+        }),
+      ),
+    );
+    const [first] = parsed.runs[0].samples;
+    assert.equal(first.skid, 1);
+    assert.equal(first.estX, first.x);
+    assert.ok(Number.isNaN(first.refDx) && Number.isNaN(first.measU));
+  });
+
+  it('rejects files that are not recordings, and runs without samples', () => {
+    assert.throws(() => parseRecording('not json'), RecordingError);
+    assert.throws(() => parseRecording('{"format": "other"}'), /Not a simulation recording/);
+    assert.throws(() => parseRecording(edited(data => (data.version = 99))), /Unsupported recording version 99/);
+    assert.throws(() => parseRecording(edited(data => (data.runs[0].samples = []))), /has no samples/);
+    assert.throws(() => parseRecording(edited(data => delete data.runs[0].samples[1].error)), /sample 2: missing 'error'/);
+  });
+});
+
+describe('recordingToCSV', () => {
+  it('writes a header and one row per sample, integrals last', () => {
+    const lines = recordingToCSV(recording).trimEnd().split('\n');
+    const header = lines[0].split(',');
+    assert.equal(lines.length, samples.length + 1);
+    assert.equal(header[0], 'run');
+    assert.equal(header[header.length - 1], 'int_effortW');
+    const last = lines[lines.length - 1].split(',');
+    assert.equal(last.length, header.length);
+    assert.equal(last[0], SINGLE_RUN.id);
+    assert.equal(Number(last[header.indexOf('time')]), samples[samples.length - 1].time);
+    assert.equal(Number(last[header.indexOf('int_iae')]), samples[samples.length - 1].integrals.iae);
+  });
+});
+
+describe('packSamples / unpackSamples', () => {
+  it('brings every column back, NaN included', () => {
+    const uncharted = samples.map(s => ({ ...s, theta6: NaN }));
+    const data = packSamples(uncharted);
+    assert.ok(data instanceof Float64Array);
+    assert.deepEqual(unpackSamples(data), uncharted);
+    assert.deepEqual(unpackSamples(packSamples([])), []);
+  });
+});
+
+describe('sampleIndexAt', () => {
+  it('finds the last sample at or before a time', () => {
+    assert.equal(sampleIndexAt(samples, 0), 0);
+    assert.equal(sampleIndexAt(samples, 1.25), samples.findIndex(s => s.time === 1.2));
+    assert.equal(sampleIndexAt(samples, 100), samples.length - 1);
+  });
+});
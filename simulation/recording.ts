@@ -0,0 +1,159 @@
+import { DEFAULT_ADAPTATION, DEFAULT_AVOIDANCE, DEFAULT_INITIAL_POSE, DEFAULT_PLANT, DEFAULT_SENSORS, PLANT_CONSTANTS } from '../constants';
+import { ControlConfig, HistorySample, RunVariant, SimulationSpec } from '../types';
+
+/**
+ * Full-resolution run recordings: every history sample of every run, with
+ * the spec that produced them. Exported as JSON (loadable again for playback)
+ * or CSV (one row per sample, for MATLAB/pandas).
+ */
+
+export const RECORDING_FORMAT = 'adaptive-robot-recording';
+export const RECORDING_VERSION = 1;
+
+export interface RecordedRun {
+  variant: RunVariant;
+  samples: HistorySample[];
+}
+
+export interface Recording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  createdAt: string;
+  spec: SimulationSpec;
+  runs: RecordedRun[];
+}
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+/** The engine-relevant part of the UI config. */
+export const toSimulationSpec = ({ isPlaying, timeScale, runMode, formation, ...spec }: ControlConfig): SimulationSpec => spec;
+
+export const createRecording = (spec: SimulationSpec, runs: RecordedRun[]): Recording => ({
+  format: RECORDING_FORMAT,
+  version: RECORDING_VERSION,
+  createdAt: new Date().toISOString(),
+  spec,
+  runs,
+});
+
+export const recordingToJSON = (recording: Recording): string => JSON.stringify(recording);
+
+// Flat CSV columns; integrals are prefixed to keep the header unambiguous
+const CSV_COLUMNS: (keyof HistorySample)[] = [
+  'time', 'x', 'y', 'heading', 'refX', 'refY', 'refHeading', 'refDx', 'refDy', 'error', 'peakError',
+  'uRef', 'wRef', 'uCmd', 'wCmd', 'u', 'w',
+  'theta1', 'theta2', 'theta3', 'theta4', 'theta5', 'theta6', 'loadMass', 'skid',
+  'estX', 'estY', 'estHeading', 'estVarX', 'estCovXY', 'estVarY', 'collision',
+  'measX', 'measY', 'measHeading', 'measU', 'measW',
+];
+const INTEGRAL_COLUMNS: (keyof HistorySample['integrals'])[] = ['iae', 'ise', 'itae', 'effortU', 'effortW'];
+const SAMPLE_WIDTH = CSV_COLUMNS.length + INTEGRAL_COLUMNS.length;
+
+export const recordingToCSV = (recording: Recording): string => {
+  const header = ['run', ...CSV_COLUMNS, ...INTEGRAL_COLUMNS.map(k => `int_${k}`)].join(',');
+  const rows = recording.runs.flatMap(({ variant, samples }) =>
+    samples.map(s => [variant.id, ...CSV_COLUMNS.map(k => s[k]), ...INTEGRAL_COLUMNS.map(k => s.integrals[k])].join(',')),
+  );
+  return [header, ...rows].join('\n') + '\n';
+};
+
+/** Samples as one flat array in column order, e.g. to transfer them between threads without copying. */
+export const packSamples = (samples: HistorySample[]): Float64Array => {
+  const data = new Float64Array(samples.length * SAMPLE_WIDTH);
+  samples.forEach((s, i) => {
+    const row = i * SAMPLE_WIDTH;
+    CSV_COLUMNS.forEach((k, j) => (data[row + j] = s[k] as number));
+    INTEGRAL_COLUMNS.forEach((k, j) => (data[row + CSV_COLUMNS.length + j] = s.integrals[k]));
+  });
+  return data;
+};
+
+export const unpackSamples = (data: Float64Array): HistorySample[] =>
+  Array.from({ length: data.length / SAMPLE_WIDTH }, (_, i) => {
+    const row = data.subarray(i * SAMPLE_WIDTH, (i + 1) * SAMPLE_WIDTH);
+    const sample: Record<string, unknown> = Object.fromEntries(CSV_COLUMNS.map((k, j) => [k, row[j]]));
+    sample.integrals = Object.fromEntries(INTEGRAL_COLUMNS.map((k, j) => [k, row[CSV_COLUMNS.length + j]]));
+    return sample as unknown as HistorySample;
+  });
+
+const REQUIRED_NUMBERS: (keyof HistorySample)[] = [
+  'time', 'x', 'y', 'heading', 'refX', 'refY', 'error', 'peakError', 'loadMass',
+  'theta1', 'theta2', 'theta3', 'theta4', 'theta5', 'theta6',
+];
+
+const THETA_COLUMNS = ['theta1', 'theta2', 'theta3', 'theta4', 'theta5', 'theta6'] as const;
+
+/** Parses and validates an exported JSON recording. Throws a RecordingError if it is not one. */
+export const parseRecording = (text: string): Recording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecordingError('File is not valid JSON');
+  }
+  const rec = data as Partial<Recording>;
+  if (!rec || rec.format !== RECORDING_FORMAT) throw new RecordingError('Not a simulation recording');
+  if (rec.version !== RECORDING_VERSION) throw new RecordingError(`Unsupported recording version ${rec.version}`);
+  if (!rec.spec || !Array.isArray(rec.runs) || rec.runs.length === 0) throw new RecordingError('Recording has no runs');
+  if (!Array.isArray(rec.spec.events)) rec.spec.events = []; // Recorded before disturbance schedules
+  rec.spec.sensors ??= { ...DEFAULT_SENSORS }; // ... or sensor models
+  rec.spec.adaptation ??= { ...DEFAULT_ADAPTATION }; // ... or selectable update laws
+  rec.spec.initialEstimate ??= [...PLANT_CONSTANTS.THETA]; // ... or identified initial estimates
+  rec.spec.obstacles ??= []; // ... or obstacles
+  rec.spec.avoidance ??= { ...DEFAULT_AVOIDANCE };
+  rec.spec.plant ??= { ...DEFAULT_PLANT }; // ... or a configurable plant and start pose
+  rec.spec.plant.profile ??= DEFAULT_PLANT.profile; // ... or a wheel-level drive
+  rec.spec.plant.drive ??= { ...DEFAULT_PLANT.drive };
+  rec.spec.initialPose ??= { ...DEFAULT_INITIAL_POSE };
+
+  rec.runs.forEach((run, r) => {
+    if (!run.variant || typeof run.variant.id !== 'string' || !Array.isArray(run.samples)) {
+      throw new RecordingError(`Run ${r + 1} is malformed`);
+    }
+    if (run.samples.length === 0) throw new RecordingError(`Run '${run.variant.id}' has no samples`);
+    run.samples.forEach((s, i) => {
+      // JSON has no NaN: estimates a custom controller did not chart come back as null
+      THETA_COLUMNS.forEach(k => { if (s[k] === null) s[k] = NaN; });
+      const bad = REQUIRED_NUMBERS.find(k => typeof s[k] !== 'number');
+      if (bad) throw new RecordingError(`Run '${run.variant.id}', sample ${i + 1}: missing '${bad}'`);
+      if (!s.integrals || INTEGRAL_COLUMNS.some(k => typeof s.integrals[k] !== 'number')) {
+        throw new RecordingError(`Run '${run.variant.id}', sample ${i + 1}: missing integrals`);
+      }
+      // Recorded before disturbances, estimation and obstacles were simulated
+      s.skid ??= 1;
+      s.estX ??= s.x;
+      s.estY ??= s.y;
+      s.estHeading ??= s.heading;
+      s.estVarX ??= 0;
+      s.estCovXY ??= 0;
+      s.estVarY ??= 0;
+      s.collision ??= 0;
+      // ... or before the controller's inputs were recorded; NaN shows as not known
+      s.refDx ??= NaN;
+      s.refDy ??= NaN;
+      s.measX ??= NaN;
+      s.measY ??= NaN;
+      s.measHeading ??= NaN;
+      s.measU ??= NaN;
+      s.measW ??= NaN;
+    });
+  });
+  return rec as Recording;
+};
+
+/** Index of the last sample at or before `time` (0 if `time` precedes them all). */
+export const sampleIndexAt = (samples: HistorySample[], time: number): number => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (samples[mid].time <= time + 1e-9) lo = mid; // Tolerate slider rounding
+    else hi = mid - 1;
+  }
+  return lo;
+};
@@ -0,0 +1,222 @@
+import { ROSBRIDGE_CONSTANTS } from '../constants';
+import { PoseEstimate, ReferencePoint } from '../types';
+import { VelocityState } from './dynamics';
+import { RobotFrame } from './live.worker';
+
+/**
+ * Client side of the rosbridge JSON protocol, so that a ROS node can close
+ * the loop instead of the built-in controllers. While connected, the first
+ * robot is published on /odom (nav_msgs/Odometry: the pose estimate with the
+ * wheels' velocities) and its reference on /reference
+ * (geometry_msgs/PoseStamped, heading along the reference velocity), both
+ * stamped with simulated time; geometry_msgs/Twist messages on /cmd_vel
+ * become its (u, ω) commands. Without a fresh command the robot is stopped,
+ * as a real base would be.
+ *
+ * Latency is the round trip of a /rosapi/get_time call. Any answer counts,
+ * so the probe works without rosapi too.
+ */
+
+export type BridgeState = 'CONNECTING' | 'CONNECTED' | 'CLOSED';
+
+export interface BridgeStatus {
+  state: BridgeState;
+  latency: number | null; // ms, round trip of the last probe
+  commandRate: number; // /cmd_vel messages per second over the last probe period
+  stale: boolean; // No /cmd_vel within the timeout, the robot is held still
+  error: string | null;
+}
+
+export interface BridgeOptions {
+  ros2: boolean; // ROS 2 field names in message headers (sec/nanosec instead of secs/nsecs)
+}
+
+export interface BridgeHandlers {
+  onStatus: (status: BridgeStatus) => void;
+  onCommand: (command: VelocityState) => void;
+}
+
+type Vector3 = { x: number; y: number; z: number };
+
+// The parts of the protocol used here
+type RosbridgeMessage =
+  | { op: 'advertise'; topic: string; type: string }
+  | { op: 'subscribe'; topic: string; type: string }
+  | { op: 'publish'; topic: string; msg: unknown }
+  | { op: 'call_service'; id: string; service: string; args: Record<string, never> }
+  | { op: 'service_response'; id?: string; result?: boolean }
+  | { op: 'status'; level?: string; msg?: string };
+
+const TOPICS = {
+  ODOM: { topic: '/odom', type: 'nav_msgs/Odometry' },
+  REFERENCE: { topic: '/reference', type: 'geometry_msgs/PoseStamped' },
+  CMD_VEL: { topic: '/cmd_vel', type: 'geometry_msgs/Twist' },
+};
+
+const vector = (x = 0, y = 0, z = 0): Vector3 => ({ x, y, z });
+
+// Rotation about z only
+const quaternion = (yaw: number) => ({ x: 0, y: 0, z: Math.sin(yaw / 2), w: Math.cos(yaw / 2) });
+
+const header = (time: number, frameId: string, { ros2 }: BridgeOptions) => {
+  const whole = Math.floor(time);
+  const nanos = Math.round((time - whole) * 1e9);
+  return { stamp: ros2 ? { sec: whole, nanosec: nanos } : { secs: whole, nsecs: nanos }, frame_id: frameId };
+};
+
+// Row-major 6×6 over (x, y, z, roll, pitch, yaw); only the position block is estimated
+const poseCovariance = (estimate: PoseEstimate): number[] => {
+  const covariance = new Array<number>(36).fill(0);
+  if (estimate.covariance) {
+    const [xx, xy, yy] = estimate.covariance;
+    covariance[0] = xx;
+    covariance[1] = xy;
+    covariance[6] = xy;
+    covariance[7] = yy;
+  }
+  return covariance;
+};
+
+export const toOdometry = ({ time, robot, estimate }: RobotFrame, options: BridgeOptions) => ({
+  header: header(time, ROSBRIDGE_CONSTANTS.ODOM_FRAME, options),
+  child_frame_id: ROSBRIDGE_CONSTANTS.BASE_FRAME,
+  pose: {
+    pose: { position: vector(estimate.x, estimate.y), orientation: quaternion(estimate.theta) },
+    covariance: poseCovariance(estimate),
+  },
+  twist: {
+    twist: { linear: vector(robot.linearVel), angular: vector(0, 0, robot.angularVel) },
+    covariance: new Array<number>(36).fill(0),
+  },
+});
+
+export const toPoseStamped = (time: number, reference: ReferencePoint, options: BridgeOptions) => ({
+  header: header(time, ROSBRIDGE_CONSTANTS.ODOM_FRAME, options),
+  pose: { position: vector(reference.x, reference.y), orientation: quaternion(Math.atan2(reference.dy, reference.dx)) },
+});
+
+/** (u, ω) from a Twist in the robot frame, or null if it is not one. */
+export const fromTwist = (msg: unknown): VelocityState | null => {
+  const twist = msg as { linear?: Partial<Vector3>; angular?: Partial<Vector3> } | null;
+  const u = twist?.linear?.x;
+  const w = twist?.angular?.z;
+  return typeof u === 'number' && typeof w === 'number' && Number.isFinite(u) && Number.isFinite(w) ? { u, w } : null;
+};
+
+const STOP: VelocityState = { u: 0, w: 0 };
+
+/** One connection to a rosbridge server. Closed connections are not retried; connect again with a new instance. */
+export class RosBridge {
+  private socket: WebSocket;
+  private options: BridgeOptions;
+  private handlers: BridgeHandlers;
+  private status: BridgeStatus = { state: 'CONNECTING', latency: null, commandRate: 0, stale: true, error: null };
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private lastCommand = -Infinity; // performance.now() of the last /cmd_vel
+  private commands = 0; // Since the last probe
+  private probe: { id: string; sent: number } | null = null;
+  private probes = 0;
+
+  constructor(url: string, options: BridgeOptions, handlers: BridgeHandlers) {
+    this.options = options;
+    this.handlers = handlers;
+    this.socket = new WebSocket(url);
+    this.socket.addEventListener('open', this.open);
+    this.socket.addEventListener('message', this.receive);
+    this.socket.addEventListener('close', this.close);
+    this.socket.addEventListener('error', this.close);
+    handlers.onStatus(this.status);
+  }
+
+  /** Publishes the robot's odometry and reference; does nothing until connected. */
+  publish(robot: RobotFrame) {
+    if (this.status.state !== 'CONNECTED') return;
+    this.send({ op: 'publish', topic: TOPICS.ODOM.topic, msg: toOdometry(robot, this.options) });
+    this.send({ op: 'publish', topic: TOPICS.REFERENCE.topic, msg: toPoseStamped(robot.time, robot.reference, this.options) });
+  }
+
+  dispose() {
+    this.stopTimers();
+    this.socket.removeEventListener('open', this.open);
+    this.socket.removeEventListener('message', this.receive);
+    this.socket.removeEventListener('close', this.close);
+    this.socket.removeEventListener('error', this.close);
+    this.socket.close();
+  }
+
+  private send(message: RosbridgeMessage) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private update(changes: Partial<BridgeStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.handlers.onStatus(this.status);
+  }
+
+  private stopTimers() {
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+  }
+
+  private open = () => {
+    this.send({ op: 'advertise', ...TOPICS.ODOM });
+    this.send({ op: 'advertise', ...TOPICS.REFERENCE });
+    this.send({ op: 'subscribe', ...TOPICS.CMD_VEL });
+    // Held still until the first command arrives
+    this.handlers.onCommand(STOP);
+    this.update({ state: 'CONNECTED' });
+    this.timers.push(setInterval(this.watchdog, ROSBRIDGE_CONSTANTS.WATCHDOG_PERIOD));
+    this.timers.push(setInterval(this.sendProbe, ROSBRIDGE_CONSTANTS.PROBE_PERIOD));
+    this.sendProbe();
+  };
+
+  private receive = (e: MessageEvent) => {
+    let message: RosbridgeMessage;
+    try {
+      message = JSON.parse(String(e.data));
+    } catch {
+      this.update({ error: 'Received a message that is not JSON' });
+      return;
+    }
+    if (message.op === 'publish' && message.topic === TOPICS.CMD_VEL.topic) {
+      const command = fromTwist(message.msg);
+      if (!command) {
+        this.update({ error: `Ignored a ${TOPICS.CMD_VEL.topic} message that is not a Twist` });
+        return;
+      }
+      this.lastCommand = performance.now();
+      this.commands++;
+      this.handlers.onCommand(command);
+      if (this.status.stale) this.update({ stale: false });
+    } else if (message.op === 'service_response' && this.probe && message.id === this.probe.id) {
+      this.update({ latency: performance.now() - this.probe.sent });
+      this.probe = null;
+    } else if (message.op === 'status' && message.level === 'error') {
+      this.update({ error: message.msg ?? 'rosbridge reported an error' });
+    }
+  };
+
+  // Errors close the socket too; report whichever comes first
+  private close = () => {
+    if (this.status.state === 'CLOSED') return;
+    this.stopTimers();
+    const error = this.status.state === 'CONNECTING' ? `Could not connect to ${this.socket.url}` : 'Connection closed by the server';
+    this.update({ state: 'CLOSED', error, stale: true });
+  };
+
+  // A silent controller stops the robot
+  private watchdog = () => {
+    if (this.status.stale || performance.now() - this.lastCommand < ROSBRIDGE_CONSTANTS.COMMAND_TIMEOUT) return;
+    this.handlers.onCommand(STOP);
+    this.update({ stale: true });
+  };
+
+  private sendProbe = () => {
+    // A probe still unanswered after a whole period shows as no latency
+    const commandRate = (this.commands * 1000) / ROSBRIDGE_CONSTANTS.PROBE_PERIOD;
+    this.commands = 0;
+    this.update(this.probe ? { commandRate, latency: null } : { commandRate });
+    this.probe = { id: `latency-${++this.probes}`, sent: performance.now() };
+    this.send({ op: 'call_service', id: this.probe.id, service: '/rosapi/get_time', args: {} });
+  };
+}
@@ -0,0 +1,59 @@
+import { Controller } from './controller';
+
+/**
+ * User-written controllers. The code defines `update(input, state)` and,
+ * optionally, `init()` as plain functions (see the Controller interface);
+ * TypeScript is stripped of its types first, without type checking.
+ *
+ * The code runs in the simulation worker, away from the page, with the
+ * worker's messaging and network globals shadowed. That keeps a controller
+ * from disturbing the simulation's protocol, but it is not a security
+ * boundary: only run code you would paste into the browser console.
+ */
+
+export type ControllerLanguage = 'JAVASCRIPT' | 'TYPESCRIPT';
+
+export class ControllerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ControllerError';
+  }
+}
+
+const HIDDEN_GLOBALS = ['self', 'globalThis', 'postMessage', 'importScripts', 'fetch', 'XMLHttpRequest', 'WebSocket', 'Worker', 'close'];
+
+/** JavaScript for `compileController`. TypeScript syntax errors are reported with their line. */
+export const transpileController = async (source: string, language: ControllerLanguage): Promise<string> => {
+  if (language === 'JAVASCRIPT') return source;
+  // Only loaded once someone writes TypeScript. Sucrase strips the types and
+  // keeps the lines where they were, so runtime errors point at the source.
+  const { transform } = await import('sucrase');
+  try {
+    return transform(source, { transforms: ['typescript'], disableESTransforms: true }).code;
+  } catch (err) {
+    const { message, loc } = err as { message: string; loc?: { line: number } };
+    const text = message.replace(/ \(\d+:\d+\)$/, '');
+    throw new ControllerError(loc ? `Line ${loc.line}: ${text}` : text);
+  }
+};
+
+/** Evaluates a controller's JavaScript. Throws a ControllerError if it does not compile or defines no `update`. */
+export const compileController = (code: string): Controller => {
+  let defined: { init?: unknown; update?: unknown };
+  try {
+    const factory = new Function(
+      ...HIDDEN_GLOBALS,
+      `"use strict";\n${code}\nreturn { init: typeof init === 'undefined' ? undefined : init, update: typeof update === 'undefined' ? undefined : update };`,
+    );
+    defined = factory();
+  } catch (err) {
+    throw new ControllerError(err instanceof Error ? `${err.name}: ${err.message}` : String(err));
+  }
+  const { init, update } = defined;
+  if (typeof update !== 'function') throw new ControllerError('The code must define a function update(input, state)');
+  if (init !== undefined && typeof init !== 'function') throw new ControllerError('init must be a function');
+  return {
+    init: typeof init === 'function' ? () => init() : () => ({}),
+    update: (input, state) => update(input, state),
+  };
+};
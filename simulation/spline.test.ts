@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_WAYPOINTS } from '../constants';
+import { Point } from '../types';
+import { createWaypointSpline } from './spline';
+
+const SPEED = 0.3;
+
+// Knot times of the spline through `points`, segments timed by length
+const knotTimes = (points: Point[]) => {
+  const times = [0];
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    times.push(times[i] + Math.hypot(q.x - p.x, q.y - p.y) / SPEED);
+  });
+  return times;
+};
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≠ ${expected}`);
+
+describe('createWaypointSpline', () => {
+  const spline = createWaypointSpline(DEFAULT_WAYPOINTS, SPEED);
+  const knots = knotTimes(DEFAULT_WAYPOINTS);
+  const period = knots[knots.length - 1];
+
+  it('passes through every waypoint at its knot and repeats every period', () => {
+    DEFAULT_WAYPOINTS.forEach((p, i) => {
+      const r = spline(knots[i]);
+      close(r.x, p.x);
+      close(r.y, p.y);
+      const later = spline(knots[i] + 2 * period);
+      close(later.x, p.x);
+      close(later.y, p.y);
+    });
+  });
+
+  it('keeps position, velocity and acceleration continuous across knots and the wrap-around', () => {
+    const eps = 1e-7;
+    for (const t of [...knots.slice(1, -1), period]) {
+      const before = spline(t - eps);
+      const after = spline(t + eps);
+      for (const k of ['x', 'y', 'dx', 'dy', 'ddx', 'ddy'] as const) close(before[k], after[k], 1e-5);
+    }
+  });
+
+  it('gives velocity and acceleration that match the path', () => {
+    const eps = 1e-5;
+    for (const t of [0.3, 2.9, 7.4, period - 0.2]) {
+      const r = spline(t);
+      const before = spline(t - eps);
+      const after = spline(t + eps);
+      close(r.dx, (after.x - before.x) / (2 * eps), 1e-6);
+      close(r.dy, (after.y - before.y) / (2 * eps), 1e-6);
+      close(r.ddx, (after.dx - before.dx) / (2 * eps), 1e-6);
+      close(r.ddy, (after.dy - before.dy) / (2 * eps), 1e-6);
+    }
+  });
+
+  it('loops through two waypoints and stays finite for coincident ones', () => {
+    const two = createWaypointSpline(DEFAULT_WAYPOINTS.slice(0, 2), SPEED);
+    const [p, q] = DEFAULT_WAYPOINTS;
+    const half = Math.hypot(q.x - p.x, q.y - p.y) / SPEED;
+    close(two(0).x, p.x);
+    close(two(half).y, q.y);
+
+    const repeated = createWaypointSpline([p, p, q], SPEED);
+    for (let t = 0; t < 10; t += 0.1) {
+      const r = repeated(t);
+      assert.ok([r.x, r.y, r.dx, r.dy, r.ddx, r.ddy].every(Number.isFinite), `t = ${t}`);
+    }
+  });
+});
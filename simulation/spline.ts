@@ -0,0 +1,96 @@
+import { Point, ReferencePoint } from '../types';
+
+/**
+ * Closed, time-parameterized cubic spline through user-placed waypoints.
+ *
+ * Each segment gets a duration proportional to its length so the reference
+ * moves at roughly `speed`, and the spline wraps around from the last
+ * waypoint to the first with continuous velocity and acceleration, so the
+ * robot can keep looping the path. Evaluated analytically from the knot
+ * second derivatives.
+ */
+
+const MIN_SEGMENT_TIME = 0.5; // s, for coincident waypoints
+
+// Solves A x = b in place by Gaussian elimination with partial pivoting
+const solve = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = A[r][col] / A[col][col];
+      for (let c = col; c < n; c++) A[r][c] -= f * A[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let acc = b[r];
+    for (let c = r + 1; c < n; c++) acc -= A[r][c] * x[c];
+    x[r] = acc / A[r][r];
+  }
+  return x;
+};
+
+// Knot second derivatives of a periodic spline through values y at spacings h
+const periodicMoments = (y: number[], h: number[]): number[] => {
+  const n = y.length;
+  const A = Array.from({ length: n }, () => new Array(n).fill(0));
+  const b = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    const prev = (i - 1 + n) % n;
+    const next = (i + 1) % n;
+    A[i][prev] += h[prev];
+    A[i][i] += 2 * (h[prev] + h[i]);
+    A[i][next] += h[i];
+    b[i] = 6 * ((y[next] - y[i]) / h[i] - (y[i] - y[prev]) / h[prev]);
+  }
+  return solve(A, b);
+};
+
+export const createWaypointSpline = (waypoints: Point[], speed: number): ((t: number) => ReferencePoint) => {
+  const n = waypoints.length;
+  if (n < 2) {
+    const p = waypoints[0] ?? { x: 0, y: 0 };
+    return () => ({ x: p.x, y: p.y, dx: 0, dy: 0, ddx: 0, ddy: 0 });
+  }
+
+  const h = waypoints.map((p, i) => {
+    const q = waypoints[(i + 1) % n];
+    return Math.max(Math.hypot(q.x - p.x, q.y - p.y) / speed, MIN_SEGMENT_TIME);
+  });
+  const knots = [0];
+  h.forEach(hi => knots.push(knots[knots.length - 1] + hi));
+  const period = knots[n];
+
+  const xs = waypoints.map(p => p.x);
+  const ys = waypoints.map(p => p.y);
+  const mx = periodicMoments(xs, h);
+  const my = periodicMoments(ys, h);
+
+  return (t: number) => {
+    const tau0 = ((t % period) + period) % period;
+    let i = 0;
+    while (i < n - 1 && tau0 >= knots[i + 1]) i++;
+    const hi = h[i];
+    const tau = tau0 - knots[i];
+    const j = (i + 1) % n;
+
+    const axis = (y: number[], m: number[]) => {
+      const a = hi - tau;
+      const c0 = y[i] / hi - (m[i] * hi) / 6;
+      const c1 = y[j] / hi - (m[j] * hi) / 6;
+      return {
+        p: (m[i] * a * a * a + m[j] * tau * tau * tau) / (6 * hi) + c0 * a + c1 * tau,
+        v: (-m[i] * a * a + m[j] * tau * tau) / (2 * hi) - c0 + c1,
+        acc: (m[i] * a + m[j] * tau) / hi,
+      };
+    };
+    const X = axis(xs, mx);
+    const Y = axis(ys, my);
+    return { x: X.p, y: Y.p, dx: X.v, dy: Y.v, ddx: X.acc, ddy: Y.acc };
+  };
+};
@@ -0,0 +1,107 @@
+import { Point, ReferencePoint, TrajectorySpec } from '../types';
+import { compileExpression } from './expression';
+import * as J from './jet';
+import { Jet } from './jet';
+import { createWaypointSpline } from './spline';
+
+/** Reference position, velocity and acceleration at time t. */
+export type Trajectory = (t: number) => ReferencePoint;
+
+const SPEED = 0.5; // rad/s
+const WAYPOINT_SPEED = 0.3; // m/s along the spline
+const SQUARE = { HALF_SIDE: 0.8, CORNER_RADIUS: 0.3, SPEED: 0.4 };
+
+// Builds a trajectory from x(t), y(t) written over jets, giving exact derivatives
+const fromJets = (fx: (t: Jet) => Jet, fy: (t: Jet) => Jet): Trajectory => t => {
+  const tj = J.variable(t);
+  const x = fx(tj);
+  const y = fy(tj);
+  return { x: x.v, y: y.v, dx: x.d, dy: y.d, ddx: x.dd, ddy: y.dd };
+};
+
+const circle = fromJets(
+  t => J.scale(J.cos(J.scale(t, SPEED)), 0.8),
+  t => J.scale(J.sin(J.scale(t, SPEED)), 0.8),
+);
+
+// Lemniscate of Bernoulli, a = 1
+const lemniscateDen = (t: Jet) => J.add(J.constant(1), J.pow(J.sin(J.scale(t, SPEED)), J.constant(2)));
+const figureEight = fromJets(
+  t => J.div(J.cos(J.scale(t, SPEED)), lemniscateDen(t)),
+  t => J.div(J.mul(J.cos(J.scale(t, SPEED)), J.sin(J.scale(t, SPEED))), lemniscateDen(t)),
+);
+
+// Back and forth along a diagonal segment, slowing down at the ends
+const line = fromJets(
+  t => J.scale(J.sin(J.scale(t, 0.4)), 1.2),
+  t => J.scale(J.sin(J.scale(t, 0.4)), 0.6),
+);
+
+// 2:3 Lissajous curve
+const lissajous = fromJets(
+  t => J.scale(J.sin(J.scale(t, 0.2)), 1.2),
+  t => J.scale(J.sin(J.scale(t, 0.3)), 0.8),
+);
+
+/**
+ * Square with rounded corners at constant speed, parameterized by arc length.
+ * Starts at the middle of the right edge and runs counter-clockwise; each side
+ * is a straight run followed by a quarter circle.
+ */
+const roundedSquare: Trajectory = t => {
+  const { HALF_SIDE: h, CORNER_RADIUS: r, SPEED: v } = SQUARE;
+  const straight = 2 * (h - r);
+  const arc = (Math.PI / 2) * r;
+  const side = straight + arc;
+  const s = (((v * t + straight / 2) % (4 * side)) + 4 * side) % (4 * side);
+  const k = Math.min(Math.floor(s / side), 3);
+  const q = s - k * side;
+
+  // Each side is the first one rotated by k · 90°
+  const rot = (x: number, y: number) => {
+    const c = Math.round(Math.cos((k * Math.PI) / 2));
+    const sn = Math.round(Math.sin((k * Math.PI) / 2));
+    return { x: c * x - sn * y, y: sn * x + c * y };
+  };
+
+  if (q < straight) {
+    const p = rot(h, -(h - r) + q);
+    const vel = rot(0, v);
+    return { x: p.x, y: p.y, dx: vel.x, dy: vel.y, ddx: 0, ddy: 0 };
+  }
+  const phi = (q - straight) / r;
+  const p = rot(h - r + r * Math.cos(phi), h - r + r * Math.sin(phi));
+  const vel = rot(-v * Math.sin(phi), v * Math.cos(phi));
+  const acc = rot((-v * v / r) * Math.cos(phi), (-v * v / r) * Math.sin(phi));
+  return { x: p.x, y: p.y, dx: vel.x, dy: vel.y, ddx: acc.x, ddy: acc.y };
+};
+
+/**
+ * Builds the reference trajectory described by `spec`. Throws an
+ * ExpressionError if an EXPRESSION spec does not parse.
+ */
+export const createTrajectory = (spec: TrajectorySpec): Trajectory => {
+  switch (spec.type) {
+    case 'CIRCLE':
+      return circle;
+    case 'FIGURE_EIGHT':
+      return figureEight;
+    case 'LINE':
+      return line;
+    case 'SQUARE':
+      return roundedSquare;
+    case 'LISSAJOUS':
+      return lissajous;
+    case 'WAYPOINTS':
+      return createWaypointSpline(spec.waypoints, WAYPOINT_SPEED);
+    case 'EXPRESSION':
+      return fromJets(compileExpression(spec.x), compileExpression(spec.y));
+  }
+};
+
+/** Reference positions every `step` seconds over [0, horizon], e.g. to check or frame the path. */
+export const samplePath = (trajectory: Trajectory, horizon: number, step: number): Point[] =>
+  Array.from({ length: Math.floor(horizon / step) + 1 }, (_, i) => {
+    const { x, y } = trajectory(i * step);
+    return { x, y };
+  });
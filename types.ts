@@ -3,30 +3,255 @@ export interface Point {
   y: number;
 }
 
+export interface ReferencePoint extends Point {
+  dx: number; // Reference velocity (global frame)
+  dy: number;
+  ddx: number; // Reference acceleration (global frame)
+  ddy: number;
+}
+
+export type TrajectorySpec =
+  | { type: 'CIRCLE' | 'FIGURE_EIGHT' | 'LINE' | 'SQUARE' | 'LISSAJOUS' }
+  | { type: 'WAYPOINTS'; waypoints: Point[] } // Closed cubic spline through clicked points
+  | { type: 'EXPRESSION'; x: string; y: string }; // x(t), y(t) in the expression syntax
+
+export interface Pose extends Point {
+  theta: number; // Orientation in radians
+}
+
 export interface RobotState {
   x: number;
   y: number;
   theta: number; // Orientation in radians
   linearVel: number;
   angularVel: number;
-  parameters: number[]; // The adaptive parameters (theta_hat)
+  parameters: number[]; // The adaptive parameters θ̂1 … θ̂6
+}
+
+// Running integrals since t = 0. Recorded with every sample so that metrics
+// over any window are exact differences, independent of the sample period.
+export interface RunningIntegrals {
+  iae: number; // ∫|e| dt
+  ise: number; // ∫e² dt
+  itae: number; // ∫t|e| dt
+  effortU: number; // ∫|u_r| dt
+  effortW: number; // ∫|ω_r| dt
+}
+
+export interface HistorySample {
+  time: number;
+  x: number; // Robot pose
+  y: number;
+  heading: number;
+  refX: number; // Reference pose (heading along the reference velocity)
+  refY: number;
+  refHeading: number;
+  refDx: number; // Reference velocity ḣ_d [m/s]
+  refDy: number;
+  error: number;
+  uRef: number; // Kinematic controller output (the commands, for controllers without an outer loop)
+  wRef: number;
+  uCmd: number; // Commands sent to the robot
+  wCmd: number;
+  u: number; // Actual velocities
+  w: number;
+  theta1: number; // θ̂, or the values a custom controller charts (NaN where unused)
+  theta2: number;
+  theta3: number;
+  theta4: number;
+  theta5: number;
+  theta6: number;
+  peakError: number; // Largest error since the previous sample
+  loadMass: number; // Payload carried by the plant [kg]
+  skid: number; // Ground/wheel velocity ratio (1 without slip)
+  estX: number; // Estimated pose (what the controllers see)
+  estY: number;
+  estHeading: number;
+  estVarX: number; // Position covariance of the estimate [m²] (EKF only, 0 otherwise)
+  estCovXY: number;
+  estVarY: number;
+  measX: number; // Pose and velocities the controller acted on at this step (before the plant moved)
+  measY: number;
+  measHeading: number;
+  measU: number;
+  measW: number;
+  collision: number; // 1 if the footprint overlapped an obstacle since the previous sample, else 0
+  integrals: RunningIntegrals;
+}
+
+export interface PoseEstimate {
+  x: number;
+  y: number;
+  theta: number;
+  covariance: [number, number, number] | null; // Position covariance [xx, xy, yy] when estimated by the EKF
 }
 
 export interface SimulationState {
   t: number;
   robot: RobotState;
-  reference: Point;
-  history: {
-    time: number;
-    error: number;
-    theta1: number;
-    theta2: number;
-  }[];
+  estimate: PoseEstimate;
+  reference: ReferencePoint;
+  history: HistorySample[];
+}
+
+// Kinematic controller settings (Eq. 4)
+export interface KinematicGains {
+  a: number; // Control point offset ahead of the wheel axle [m]
+  lx: number; // Saturation limits of the tanh terms [m/s]
+  ly: number;
+  kx: number; // Proportional gains [1/s]
+  ky: number;
+}
+
+// Dynamic compensation controller settings (Eq. 7)
+export interface DynamicGains {
+  ku: number; // Velocity error gains [1/s]
+  kw: number;
+}
+
+// A scheduled disturbance, applied at simulated time `time` [s]
+export type DisturbanceEvent =
+  | { type: 'LOAD'; time: number; mass: number } // Payload from now on [kg]
+  | { type: 'SKID'; time: number; duration: number; factor: number } // Ground/wheel velocity ratio over a window
+  | { type: 'PUSH'; time: number; distance: number } // Sideways shove in the robot frame [m], left positive
+  | { type: 'SATURATION'; time: number; maxLinearVel: number; maxAngularVel: number }; // Command limits from now on
+
+// What the controllers measure, and how the pose they act on is estimated
+export interface SensorSpec {
+  estimator: 'DIRECT' | 'ODOMETRY' | 'EKF'; // Noisy absolute pose, dead reckoning, or both fused
+  poseNoise: number; // Std. dev. of absolute position measurements [m]
+  headingNoise: number; // Std. dev. of absolute heading measurements [rad]
+  velocityNoise: number; // Std. dev. of measured u [m/s] and ω [rad/s]
+  encoderResolution: number; // Wheel travel per encoder tick [m], 0 for ideal encoders
+  odometryDrift: number; // Scale error of the right wheel encoder, unknown to the odometry
+  fixPeriod: number; // Time between absolute position fixes fused by the EKF [s]
+  seed: number; // Noise seed, so noisy runs are reproducible
+}
+
+// Parameter update law of the adaptive dynamic compensation
+export interface AdaptationSpec {
+  law: 'GRADIENT' | 'SIGMA' | 'E_MOD' | 'PROJECTION' | 'DEAD_ZONE';
+  gains: number[]; // Diagonal of Γ⁻¹, one entry per θ̂
+  sigma: number; // Leakage of the σ- and e-modification
+  deadZone: number; // ‖ṽ‖ below which the dead-zone law stops adapting
+  min: number[]; // Projection bounds of θ̂1 … θ̂6
+  max: number[];
 }
 
-export interface ControlConfig {
+// Quantity varied by a batch run; `gamma` scales every entry of Γ⁻¹
+export type BatchParameter = 'kx' | 'ky' | 'lx' | 'ly' | 'ku' | 'kw' | 'gamma' | 'sigma' | 'loadMass';
+
+export interface BatchAxis {
+  parameter: BatchParameter;
+  min: number;
+  max: number;
+  steps: number; // Values from min to max inclusive, evenly spaced
+}
+
+// Many headless runs of the current experiment: a grid over one or two
+// parameters, or random initial poses and payloads
+export interface BatchSpec {
+  mode: 'SWEEP' | 'MONTE_CARLO';
+  axes: BatchAxis[]; // Sweep: one axis, or two for a heatmap
+  runs: number; // Monte Carlo: number of cases
+  poseSpread: number; // Monte Carlo: initial position drawn within this distance of the experiment's [m]
+  headingSpread: number; // ... and heading within ± this of it [rad]
+  loadMin: number; // ... and a payload carried from t = 0, uniform in [loadMin, loadMax] [kg]
+  loadMax: number;
+  duration: number; // Simulated time per case [s]
+  seed: number;
+}
+
+// Static obstacle in world coordinates [m]
+export type Obstacle =
+  | { type: 'CIRCLE'; center: Point; radius: number }
+  | { type: 'POLYGON'; points: Point[] } // Closed, either winding
+  | { type: 'WALL'; from: Point; to: Point; thickness: number };
+
+// Local obstacle avoidance: a repulsive potential field on the kinematic command
+export interface AvoidanceSpec {
+  enabled: boolean;
+  gain: number; // η of the repulsive potential ½η(1/d − 1/d₀)² [m³/s]
+  range: number; // Influence distance d₀ beyond the footprint [m]
+}
+
+// Open-loop identification experiment: persistent excitation, then a batch fit
+export interface IdentificationSpec {
+  signal: 'CHIRP' | 'PRBS';
+  duration: number; // [s]
+  meanU: number; // Operating point of the linear velocity command [m/s]
+  amplitudeU: number; // Excitation amplitudes of u_r [m/s] and ω_r [rad/s]
+  amplitudeW: number;
+  loadMass: number; // Payload carried during the experiment [kg]
+}
+
+// Wheels and motors of a differential-drive robot, between the velocity loops and the ground
+export interface DriveSpec {
+  wheelRadius: number; // [m]
+  trackWidth: number; // Distance between the wheels [m]
+  maxWheelSpeed: number; // [rad/s]
+  maxWheelAccel: number; // Acceleration profile of the motor controller [rad/s²]
+  stallTorque: number; // Torque of each wheel's motor at standstill [N·m], falling linearly to zero at noLoadSpeed
+  noLoadSpeed: number; // [rad/s]
+  longitudinalSlip: number; // Fraction of wheel surface speed lost per m/s² of wheel acceleration [s²/m]
+  lateralSlip: number; // Outward drift speed per m/s² of centripetal acceleration [s]
+}
+
+// The simulated robot, before any payload
+export interface PlantSpec {
+  profile: 'PIONEER_3DX' | 'CUSTOM';
+  theta: number[]; // True dynamic parameters θ1 … θ6
+  mass: number; // [kg], which payloads scale the mass-dependent parameters against
+  drive: DriveSpec;
+}
+
+// Everything the headless engine needs to run the closed loop
+export interface SimulationSpec {
+  plant: PlantSpec;
+  initialPose: Pose; // Where the robot starts [m, rad]
+  isAdaptive: boolean;
+  adaptation: AdaptationSpec;
+  initialEstimate: number[]; // θ̂(0), and the parameters of the non-adaptive controller
+  events: DisturbanceEvent[]; // Disturbance schedule, in any order
+  sensors: SensorSpec;
+  obstacles: Obstacle[];
+  avoidance: AvoidanceSpec;
+  trajectory: TrajectorySpec;
+  kinematic: KinematicGains;
+  dynamic: DynamicGains;
+  integrator: 'EULER' | 'RK4';
+  physicsRate: number; // Fixed physics/control steps per simulated second [Hz]
+}
+
+// One robot of a multi-robot run
+export interface FormationRobot {
+  id: string;
   isAdaptive: boolean;
-  hasLoad: boolean;
-  trajectory: 'CIRCLE' | 'FIGURE_EIGHT';
+  payload: number; // Load carried from t = 0 [kg]
+  phase: number; // Independent tracking: time lead on the shared trajectory [s]
+  offset: Point; // Leader–follower: place in the leader's frame [m] (x ahead, y left); unused for the leader
+}
+
+export interface FormationSpec {
+  mode: 'INDEPENDENT' | 'LEADER_FOLLOWER'; // Phase-shifted copies of the trajectory, or followers of robots[0]
+  robots: FormationRobot[];
+}
+
+export interface ControlConfig extends SimulationSpec {
   isPlaying: boolean;
+  timeScale: number; // Simulated seconds per wall-clock second
+  runMode: 'SINGLE' | 'COMPARE' | 'FORMATION'; // One robot, the comparison variants, or the formation
+  formation: FormationSpec;
+}
+
+// One controller configuration in a (comparison) run, layered over the shared spec
+export interface RunVariant {
+  id: string;
+  label: string;
+  color: string; // Robot and chart color
+  trailColor: string;
+  overrides: Partial<SimulationSpec>;
+  payload?: number; // Load from t = 0 [kg], ahead of the shared disturbance schedule
+  phase?: number; // Time lead on the shared trajectory [s]
+  follows?: { leader: string; offset: Point }; // Track a point fixed in another run's robot frame instead
 }
\ No newline at end of file